@@ -7,6 +7,7 @@ import { AdminService, AnalysisType, CreateEpisodeResponse, EpisodeResponse,  }
 import { HttpErrorResponse } from '@angular/common/http';
 import { finalize } from 'rxjs/operators';
 import { environment } from '../../../../../environments/environment';
+import { EpisodeBundleService } from '../../services/episode-bundle.service';
 
 // Interfaz para la vista, ahora incluye la URL completa.
 interface EpisodeInfo {
@@ -36,6 +37,9 @@ export class EpisodiosComponent implements OnInit {
   createEpisodeForm: FormGroup;
   selectedFile: File | null = null;
   imagePreview: string | ArrayBuffer | null = null;
+
+  // Exportación / importación de paquetes
+  isTransferInProgress = false;
   // Añadimos una propiedad para las opciones del tipo de análisis
   analysisTypes: { value: AnalysisType, label: string }[] = [
     { value: 'DEEP_SPACE_ASTROPHOTOGRAPHY', label: 'Astrofotografía de Espacio Profundo' },
@@ -46,7 +50,8 @@ export class EpisodiosComponent implements OnInit {
   constructor(
     private router: Router,
     private fb: FormBuilder,
-    private adminService: AdminService
+    private adminService: AdminService,
+    private episodeBundleService: EpisodeBundleService
   ) {
     this.createEpisodeForm = this.fb.group({
       title: ['', [Validators.required, Validators.minLength(3)]],
@@ -172,5 +177,68 @@ export class EpisodiosComponent implements OnInit {
     }
   }
 
+  /**
+   * Abre el episodio seleccionado en modo juego (solo exploración).
+   */
+  playEpisode(): void {
+    if (this.episodes.length > 0) {
+      this.router.navigate(['/admin/play', this.episodes[this.activeIndex].id]);
+    }
+  }
+
+  /**
+   * Descarga el episodio seleccionado como un paquete JSON versionado.
+   */
+  exportEpisode(): void {
+    if (this.episodes.length === 0 || this.isTransferInProgress) return;
+    const selected = this.episodes[this.activeIndex];
+
+    this.isTransferInProgress = true;
+    this.episodeBundleService.exportEpisode(selected.id)
+      .pipe(finalize(() => this.isTransferInProgress = false))
+      .subscribe({
+        next: bundle => this.episodeBundleService.downloadBundle(bundle),
+        error: (err: HttpErrorResponse) => {
+          console.error('Error al exportar el episodio:', err);
+          alert(`Error al exportar: ${err.error?.message || err.statusText}`);
+        }
+      });
+  }
+
+  /**
+   * Importa un paquete de episodio: crea un episodio nuevo y recrea todos sus objetos.
+   */
+  async onImportFileSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    let bundle;
+    try {
+      bundle = await this.episodeBundleService.parseBundle(file);
+    } catch (err) {
+      alert((err as Error).message);
+      return;
+    }
+
+    this.isTransferInProgress = true;
+    this.episodeBundleService.importBundle(bundle)
+      .pipe(finalize(() => this.isTransferInProgress = false))
+      .subscribe({
+        next: result => {
+          console.log(`[Episodios] Importado '${result.episode.title}' con ${result.objectIdMap.size} objetos.`);
+          if (result.warnings.length > 0) {
+            alert(`Episodio importado con avisos:\n- ${result.warnings.join('\n- ')}`);
+          }
+          this.loadEpisodes();
+        },
+        error: (err: HttpErrorResponse) => {
+          console.error('Error al importar el episodio:', err);
+          alert(`Error al importar: ${err.error?.message || err.statusText}`);
+        }
+      });
+  }
+
   deleteEpisode(): void { /* ... Lógica para llamar a la API de borrado ... */ }
 }
\ No newline at end of file
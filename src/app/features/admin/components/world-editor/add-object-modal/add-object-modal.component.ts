@@ -26,6 +26,13 @@ interface PrefabCategory {
   items: ObjectPrefab[];
 }
 
+/** Tipos de objeto que necesitan un asset, con el tipo de asset que admiten y los textos de su selector. */
+const ASSET_BACKED_TYPES: Partial<Record<SceneObjectResponse['type'], { assetType: AssetResponse['type']; label: string; placeholder: string }>> = {
+  model: { assetType: 'model_glb', label: 'Modelo 3D (Asset)', placeholder: 'Selecciona un modelo...' },
+  video: { assetType: 'video_mp4', label: 'Vídeo (Asset)', placeholder: 'Selecciona un vídeo...' },
+  sound: { assetType: 'sound_mp3', label: 'Sonido (Asset)', placeholder: 'Selecciona un sonido...' }
+};
+
 @Component({
   selector: 'app-add-object-modal',
   standalone: true,
@@ -60,6 +67,10 @@ export class AddObjectModalComponent implements OnInit, OnDestroy {
       name: 'Luces y Ayudantes',
       items: [
         { id: 'directionalLight', name: 'Luz Direccional', type: 'directionalLight', icon: '☀️', description: 'Simula la luz del sol, con rayos paralelos.', defaultValues: { name: 'Luz del Sol', properties: { color: '#ffffff', intensity: 1, castShadow: true } } },
+        { id: 'pointLight', name: 'Luz Puntual', type: 'pointLight', icon: '💡', description: 'Ilumina en todas direcciones desde un punto, como una bombilla.', defaultValues: { name: 'Bombilla', properties: { color: '#ffe8c4', intensity: 20, distance: 0, decay: 2, castShadow: false } } },
+        { id: 'spotLight', name: 'Foco', type: 'spotLight', icon: '🔦', description: 'Un cono de luz orientable. Gíralo para apuntarlo.', defaultValues: { name: 'Foco', properties: { color: '#ffffff', intensity: 50, distance: 0, decay: 2, angle: 30, penumbra: 0.2, castShadow: true } } },
+        { id: 'hemisphereLight', name: 'Luz Hemisférica', type: 'hemisphereLight', icon: '🌗', description: 'Luz de cielo y suelo, ideal para exteriores.', defaultValues: { name: 'Luz de Cielo', properties: { color: '#bfdfff', groundColor: '#444444', intensity: 1 } } },
+        { id: 'ambientLight', name: 'Luz Ambiental', type: 'ambientLight', icon: '🌫️', description: 'Aclara toda la escena por igual, sin sombras.', defaultValues: { name: 'Relleno Ambiental', properties: { color: '#ffffff', intensity: 0.5 } } },
         { id: 'camera', name: 'Cámara', type: 'camera', icon: '📷', description: 'Define un punto de vista en la escena.', defaultValues: { name: 'Cámara', properties: { fov: 50, near: 0.1, far: 1000 } } },
       ]
     },
@@ -67,11 +78,13 @@ export class AddObjectModalComponent implements OnInit, OnDestroy {
       name: 'Assets Externos',
       items: [
         { id: 'model', name: 'Modelo 3D', type: 'model', icon: '🚀', description: 'Importa un modelo .glb de tu biblioteca de assets.', defaultValues: { name: 'Modelo importado', scale: { x: 1, y: 1, z: 1 } } },
+        { id: 'sound', name: 'Sonido', type: 'sound', icon: '🔊', description: 'Un sonido .mp3 que se oye alrededor de su posición.', defaultValues: { name: 'Sonido', properties: { volume: 1, refDistance: 1, maxDistance: 20, rolloffFactor: 1, loop: true, ambient: false } } },
+        { id: 'video', name: 'Pantalla de Vídeo', type: 'video', icon: '🎬', description: 'Reproduce un vídeo .mp4 de tu biblioteca en un panel.', defaultValues: { name: 'Pantalla', scale: { x: 4, y: 4, z: 1 }, properties: { loop: true, autoplay: true, muted: true, startTime: 0, fitToAspect: true } } },
       ]
     }
   ];
 
-  modelAssets: AssetResponse[] = [];
+  private assets: AssetResponse[] = [];
 
   constructor(private fb: FormBuilder, private assetService: AssetService) {}
 
@@ -87,7 +100,7 @@ export class AddObjectModalComponent implements OnInit, OnDestroy {
 
   private loadAssets(): void {
     this.assetService.getAssets().subscribe(allAssets => {
-      this.modelAssets = allAssets.filter(asset => asset.type === 'model_glb');
+      this.assets = allAssets;
     });
   }
 
@@ -127,7 +140,7 @@ export class AddObjectModalComponent implements OnInit, OnDestroy {
         }
       }
 
-      if (type === 'model') {
+      if (ASSET_BACKED_TYPES[type]) {
         assetIdControl?.enable();
         assetIdControl?.setValidators([Validators.required]);
       }
@@ -161,6 +174,13 @@ export class AddObjectModalComponent implements OnInit, OnDestroy {
     this.close.emit();
   }
   
+  /** Selector de asset del tipo elegido, o `null` si el tipo no usa asset. */
+  get assetPicker(): { label: string; placeholder: string; assets: AssetResponse[] } | null {
+    const config = ASSET_BACKED_TYPES[this.objectForm.get('type')?.value as SceneObjectResponse['type']];
+    if (!config) return null;
+    return { label: config.label, placeholder: config.placeholder, assets: this.assets.filter(asset => asset.type === config.assetType) };
+  }
+
   get propertiesFormGroup(): FormGroup {
     return this.objectForm.get('properties') as FormGroup;
   }
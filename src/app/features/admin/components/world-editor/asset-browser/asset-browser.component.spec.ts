@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { AssetBrowserComponent } from './asset-browser.component';
+
+describe('AssetBrowserComponent', () => {
+  let component: AssetBrowserComponent;
+  let fixture: ComponentFixture<AssetBrowserComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [AssetBrowserComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(AssetBrowserComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,180 @@
+// src/app/features/admin/components/world-editor/asset-browser/asset-browser.component.ts
+
+import { Component, Input, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { HttpErrorResponse, HttpEventType } from '@angular/common/http';
+import { finalize } from 'rxjs/operators';
+import { environment } from '../../../../../../environments/environment';
+import { AssetResponse, SceneObjectResponse, SceneObjectType } from '../../../services/admin.service';
+import { AssetService, getAssetTypeForFile, UPLOADABLE_ASSET_EXTENSIONS } from '../../../services/asset-cache.service';
+import { WmtsAssetWizardComponent } from '../wmts-asset-wizard/wmts-asset-wizard.component';
+
+/** Tipo MIME con el que se arrastra un asset hacia el visor. */
+export const ASSET_DRAG_MIME = 'application/x-episode-asset';
+
+/**
+ * Tipo de objeto de escena que se crea al soltar cada tipo de asset en el visor.
+ */
+export const ASSET_DROP_OBJECT_TYPES: Partial<Record<AssetResponse['type'], SceneObjectType>> = {
+  model_glb: 'model',
+  texture_png: 'floor',
+  texture_jpg: 'floor',
+  texture_wmts: 'sphere',
+  video_mp4: 'video',
+  sound_mp3: 'sound'
+};
+
+const ASSET_TYPE_INFO: Record<AssetResponse['type'], { label: string; icon: string }> = {
+  model_glb: { label: 'Modelos 3D', icon: '🚀' },
+  texture_png: { label: 'Imágenes PNG', icon: '🖼️' },
+  texture_jpg: { label: 'Imágenes JPG', icon: '🖼️' },
+  texture_hdr: { label: 'Panorámicas HDR', icon: '🌅' },
+  texture_exr: { label: 'Panorámicas EXR', icon: '🌅' },
+  texture_wmts: { label: 'Mapas WMTS', icon: '🌍' },
+  video_mp4: { label: 'Vídeos', icon: '🎬' },
+  sound_mp3: { label: 'Sonidos', icon: '🎵' }
+};
+
+interface AssetGroup {
+  type: AssetResponse['type'];
+  label: string;
+  icon: string;
+  assets: AssetResponse[];
+}
+
+interface UploadEntry {
+  fileName: string;
+  progress: number;
+}
+
+/**
+ * @class AssetBrowserComponent
+ * @description
+ * Panel de assets del editor: lista los assets por tipo con una vista previa, sube archivos
+ * mostrando el progreso, los elimina avisando si algún objeto del episodio los usa y permite
+ * arrastrarlos al visor para crear un objeto en el punto donde se sueltan.
+ */
+@Component({
+  selector: 'app-asset-browser',
+  standalone: true,
+  imports: [CommonModule, WmtsAssetWizardComponent],
+  templateUrl: './asset-browser.component.html',
+  styleUrls: ['./asset-browser.component.css']
+})
+export class AssetBrowserComponent implements OnInit {
+  /** Objetos del episodio (incluida la papelera), para avisar de las referencias antes de borrar. */
+  @Input() episodeObjects: SceneObjectResponse[] = [];
+
+  public groups: AssetGroup[] = [];
+  public uploads: UploadEntry[] = [];
+  public isLoading = false;
+  public isWmtsWizardOpen = false;
+  public readonly acceptedExtensions = Object.keys(UPLOADABLE_ASSET_EXTENSIONS).map(ext => `.${ext}`).join(',');
+
+  private assets: AssetResponse[] = [];
+  private readonly backendUrl = environment.endpoint.endsWith('/') ? environment.endpoint.slice(0, -1) : environment.endpoint;
+
+  constructor(private assetService: AssetService) {}
+
+  ngOnInit(): void {
+    this.loadAssets();
+  }
+
+  loadAssets(): void {
+    this.isLoading = true;
+    this.assetService.getAssets().pipe(finalize(() => this.isLoading = false)).subscribe({
+      next: assets => this.setAssets(assets),
+      error: err => console.error('[AssetBrowser] Error al cargar los assets:', err)
+    });
+  }
+
+  onFilesSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const files = Array.from(input.files ?? []);
+    input.value = '';
+
+    files.forEach(file => {
+      const type = getAssetTypeForFile(file);
+      if (!type) {
+        alert(`"${file.name}" no es un formato admitido (${this.acceptedExtensions}).`);
+        return;
+      }
+      this.upload(file, type);
+    });
+  }
+
+  deleteAsset(asset: AssetResponse): void {
+    const references = this.episodeObjects.filter(o => (o.assetId ?? o.asset?.id) === asset.id);
+    const warning = references.length > 0
+      ? `\n\n⚠️ ${references.length} objeto(s) de este episodio lo usan (${references.slice(0, 3).map(o => o.name).join(', ')}${references.length > 3 ? '…' : ''}) y se quedarán sin asset.`
+      : '';
+    if (!confirm(`¿Eliminar el asset "${asset.name}"?${warning}`)) return;
+
+    this.assetService.deleteAsset(asset.id).subscribe({
+      next: () => this.setAssets(this.assets.filter(a => a.id !== asset.id)),
+      error: (err: HttpErrorResponse) => {
+        console.error(`[AssetBrowser] Error al eliminar el asset ${asset.id}:`, err);
+        alert(err.status === 409
+          ? `No se puede eliminar "${asset.name}": otros episodios todavía lo usan.`
+          : `No se pudo eliminar "${asset.name}".`);
+      }
+    });
+  }
+
+  onWmtsAssetCreated(asset: AssetResponse): void {
+    this.setAssets([...this.assets, asset]);
+  }
+
+  isDraggable(asset: AssetResponse): boolean {
+    return !!ASSET_DROP_OBJECT_TYPES[asset.type];
+  }
+
+  onDragStart(event: DragEvent, asset: AssetResponse): void {
+    if (!event.dataTransfer || !this.isDraggable(asset)) {
+      event.preventDefault();
+      return;
+    }
+    event.dataTransfer.setData(ASSET_DRAG_MIME, JSON.stringify(asset));
+    event.dataTransfer.effectAllowed = 'copy';
+  }
+
+  getPreviewUrl(asset: AssetResponse): string {
+    return `${this.backendUrl}${asset.path.startsWith('/') ? '' : '/'}${asset.path}`;
+  }
+
+  trackByAssetId(_: number, asset: AssetResponse): number {
+    return asset.id;
+  }
+
+  private upload(file: File, type: AssetResponse['type']): void {
+    const entry: UploadEntry = { fileName: file.name, progress: 0 };
+    this.uploads = [...this.uploads, entry];
+
+    this.assetService.uploadAsset(file, type).pipe(
+      finalize(() => this.uploads = this.uploads.filter(u => u !== entry))
+    ).subscribe({
+      next: event => {
+        if (event.type === HttpEventType.UploadProgress && event.total) {
+          entry.progress = Math.round((event.loaded / event.total) * 100);
+        } else if (event.type === HttpEventType.Response && event.body) {
+          this.setAssets([...this.assets, event.body]);
+        }
+      },
+      error: err => {
+        console.error(`[AssetBrowser] Error al subir '${file.name}':`, err);
+        alert(`No se pudo subir "${file.name}".`);
+      }
+    });
+  }
+
+  private setAssets(assets: AssetResponse[]): void {
+    this.assets = assets;
+    this.groups = (Object.keys(ASSET_TYPE_INFO) as AssetResponse['type'][])
+      .map(type => ({
+        type,
+        ...ASSET_TYPE_INFO[type],
+        assets: assets.filter(a => a.type === type).sort((a, b) => a.name.localeCompare(b.name))
+      }))
+      .filter(group => group.assets.length > 0);
+  }
+}
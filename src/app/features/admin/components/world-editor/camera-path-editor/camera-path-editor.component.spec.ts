@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { CameraPathEditorComponent } from './camera-path-editor.component';
+
+describe('CameraPathEditorComponent', () => {
+  let component: CameraPathEditorComponent;
+  let fixture: ComponentFixture<CameraPathEditorComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [CameraPathEditorComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(CameraPathEditorComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
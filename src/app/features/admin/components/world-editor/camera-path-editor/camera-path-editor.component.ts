@@ -0,0 +1,288 @@
+// src/app/features/admin/components/world-editor/camera-path-editor/camera-path-editor.component.ts
+import { Component, EventEmitter, HostListener, Input, Output, ElementRef, ViewChild, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Observable } from 'rxjs';
+import { CameraPathKeyframe, CameraPathResponse } from '../../../services/admin.service';
+import { CameraPathService } from '../../../services/camera-path.service';
+import { EngineService } from '../service/three-engine/core/engine.service';
+import {
+  CAMERA_PATH_EASINGS,
+  CameraPathPlayback,
+  DEFAULT_CAMERA_PATH_EASING,
+  getCameraPathDuration
+} from '../service/three-engine/managers/camera-path.manager.service';
+
+/** Separación por defecto entre un keyframe nuevo y el último. */
+const DEFAULT_KEYFRAME_SPACING = 2;
+/** Longitud mínima del timeline, para poder arrastrar keyframes más allá del último. */
+const MIN_TIMELINE_SECONDS = 5;
+
+type TimelineDrag = { kind: 'scrub' } | { kind: 'keyframe'; index: number };
+
+/**
+ * ✨ NUEVO: Editor de recorridos de cámara del episodio. Graba la vista actual como keyframe,
+ * permite moverlos en un timeline y previsualizar el recorrido en el visor.
+ * Guarda cada cambio en el backend y emite la lista actualizada.
+ */
+@Component({
+  selector: 'app-camera-path-editor',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './camera-path-editor.component.html',
+  styleUrls: ['./camera-path-editor.component.css']
+})
+export class CameraPathEditorComponent implements OnDestroy {
+  @Input() episodeId: number | null = null;
+  @Input() paths: CameraPathResponse[] = [];
+  @Output() pathsChange = new EventEmitter<CameraPathResponse[]>();
+
+  @ViewChild('track') trackRef?: ElementRef<HTMLDivElement>;
+
+  public readonly easings = CAMERA_PATH_EASINGS;
+  public playback$: Observable<CameraPathPlayback | null>;
+
+  public selectedPathId: number | null = null;
+  public selectedKeyframeIndex: number | null = null;
+  public scrubTime = 0;
+  public isPreviewing = false;
+
+  private drag: TimelineDrag | null = null;
+
+  constructor(private cameraPathService: CameraPathService, private engineService: EngineService) {
+    this.playback$ = this.engineService.cameraPathPlayback$;
+  }
+
+  ngOnDestroy(): void {
+    if (this.isPreviewing) this.engineService.stopCameraPath();
+  }
+
+  get selectedPath(): CameraPathResponse | null {
+    return this.paths.find(p => p.id === this.selectedPathId) ?? null;
+  }
+
+  get selectedKeyframe(): CameraPathKeyframe | null {
+    const path = this.selectedPath;
+    return path && this.selectedKeyframeIndex !== null ? path.keyframes[this.selectedKeyframeIndex] ?? null : null;
+  }
+
+  get timelineDuration(): number {
+    const path = this.selectedPath;
+    const duration = path ? getCameraPathDuration(path.keyframes) : 0;
+    return Math.max(duration + DEFAULT_KEYFRAME_SPACING, MIN_TIMELINE_SECONDS);
+  }
+
+  get pathDuration(): number {
+    return this.selectedPath ? getCameraPathDuration(this.selectedPath.keyframes) : 0;
+  }
+
+  public toPercent(time: number): number {
+    return (time / this.timelineDuration) * 100;
+  }
+
+  public selectPath(pathId: number | null): void {
+    this.selectedPathId = pathId;
+    this.selectedKeyframeIndex = null;
+    this.scrubTime = 0;
+  }
+
+  public createPath(): void {
+    if (!this.episodeId) return;
+    const name = prompt('Nombre del recorrido:', `Recorrido ${this.paths.length + 1}`)?.trim();
+    if (!name) return;
+
+    this.cameraPathService.createCameraPath(this.episodeId, { name, easing: DEFAULT_CAMERA_PATH_EASING, keyframes: [] }).subscribe({
+      next: created => {
+        this.emitPaths([...this.paths, created]);
+        this.selectPath(created.id);
+      },
+      error: err => {
+        console.error('[CameraPathEditor] Error al crear el recorrido:', err);
+        alert('No se pudo crear el recorrido.');
+      }
+    });
+  }
+
+  public renamePath(): void {
+    const path = this.selectedPath;
+    if (!path) return;
+    const name = prompt('Nuevo nombre del recorrido:', path.name)?.trim();
+    if (!name || name === path.name) return;
+    this.savePath({ ...path, name });
+  }
+
+  public deletePath(): void {
+    const path = this.selectedPath;
+    if (!path || !this.episodeId) return;
+    if (!confirm(`¿Eliminar el recorrido "${path.name}"?`)) return;
+
+    this.cameraPathService.deleteCameraPath(this.episodeId, path.id).subscribe({
+      next: () => {
+        this.emitPaths(this.paths.filter(p => p.id !== path.id));
+        this.selectPath(null);
+      },
+      error: err => {
+        console.error(`[CameraPathEditor] Error al eliminar el recorrido ${path.id}:`, err);
+        alert('No se pudo eliminar el recorrido.');
+      }
+    });
+  }
+
+  public onEasingChange(easing: string): void {
+    const path = this.selectedPath;
+    if (path) this.savePath({ ...path, easing });
+  }
+
+  /** Graba la vista actual como un keyframe nuevo, después del último. */
+  public addKeyframe(): void {
+    const path = this.selectedPath;
+    if (!path) return;
+    const time = path.keyframes.length > 0 ? this.pathDuration + DEFAULT_KEYFRAME_SPACING : 0;
+    const keyframes = [...path.keyframes, this.engineService.getCameraKeyframe(time)];
+    this.selectedKeyframeIndex = keyframes.length - 1;
+    this.scrubTime = time;
+    this.savePath({ ...path, keyframes });
+  }
+
+  /** Sustituye la posición, el objetivo y el FOV del keyframe seleccionado por la vista actual. */
+  public updateKeyframeFromView(): void {
+    const path = this.selectedPath;
+    const keyframe = this.selectedKeyframe;
+    if (!path || !keyframe || this.selectedKeyframeIndex === null) return;
+    const keyframes = [...path.keyframes];
+    keyframes[this.selectedKeyframeIndex] = this.engineService.getCameraKeyframe(keyframe.time);
+    this.savePath({ ...path, keyframes });
+  }
+
+  public deleteKeyframe(): void {
+    const path = this.selectedPath;
+    if (!path || this.selectedKeyframeIndex === null) return;
+    const keyframes = path.keyframes.filter((_, i) => i !== this.selectedKeyframeIndex);
+    this.selectedKeyframeIndex = null;
+    this.savePath({ ...path, keyframes });
+  }
+
+  public onKeyframeTimeChange(value: string): void {
+    const time = parseFloat(value);
+    if (!Number.isFinite(time) || time < 0) return;
+    this.updateSelectedKeyframe({ time });
+  }
+
+  public onKeyframeFovChange(value: string): void {
+    const fov = parseFloat(value);
+    if (!Number.isFinite(fov) || fov <= 0 || fov >= 180) return;
+    this.updateSelectedKeyframe({ fov });
+  }
+
+  public selectKeyframe(index: number): void {
+    const path = this.selectedPath;
+    if (!path) return;
+    this.selectedKeyframeIndex = index;
+    this.scrubTo(path.keyframes[index].time);
+  }
+
+  public togglePreview(): void {
+    const path = this.selectedPath;
+    if (!path) return;
+    if (this.isPreviewing) {
+      this.engineService.stopCameraPath();
+      return;
+    }
+    if (path.keyframes.length < 2) {
+      alert('El recorrido necesita al menos dos keyframes.');
+      return;
+    }
+    this.isPreviewing = true;
+    this.engineService.playCameraPath(path, () => this.isPreviewing = false);
+  }
+
+  public onTrackPointerDown(event: PointerEvent): void {
+    if (!this.selectedPath || this.isPreviewing) return;
+    event.preventDefault();
+    this.drag = { kind: 'scrub' };
+    this.scrubTo(this.getTimeAt(event.clientX));
+  }
+
+  public onKeyframePointerDown(index: number, event: PointerEvent): void {
+    if (this.isPreviewing) return;
+    event.preventDefault();
+    event.stopPropagation();
+    this.selectKeyframe(index);
+    this.drag = { kind: 'keyframe', index };
+  }
+
+  @HostListener('window:pointermove', ['$event'])
+  public onWindowPointerMove(event: PointerEvent): void {
+    const path = this.selectedPath;
+    if (!this.drag || !path) return;
+    const time = this.getTimeAt(event.clientX);
+
+    if (this.drag.kind === 'scrub') {
+      this.scrubTo(time);
+      return;
+    }
+    // Mientras se arrastra solo se mueve el marcador (en una copia del recorrido); se ordena y guarda al soltar.
+    const keyframes = [...path.keyframes];
+    keyframes[this.drag.index] = { ...keyframes[this.drag.index], time: Math.round(time * 10) / 10 };
+    this.scrubTime = keyframes[this.drag.index].time;
+    this.emitPaths(this.paths.map(p => p.id === path.id ? { ...path, keyframes } : p));
+  }
+
+  @HostListener('window:pointerup')
+  public onWindowPointerUp(): void {
+    const drag = this.drag;
+    this.drag = null;
+    const path = this.selectedPath;
+    if (drag?.kind !== 'keyframe' || !path) return;
+    this.savePath(path);
+    this.scrubTo(this.scrubTime);
+  }
+
+  private updateSelectedKeyframe(changes: Partial<CameraPathKeyframe>): void {
+    const path = this.selectedPath;
+    if (!path || this.selectedKeyframeIndex === null) return;
+    const keyframes = [...path.keyframes];
+    keyframes[this.selectedKeyframeIndex] = { ...keyframes[this.selectedKeyframeIndex], ...changes };
+    this.savePath({ ...path, keyframes });
+  }
+
+  private scrubTo(time: number): void {
+    const path = this.selectedPath;
+    this.scrubTime = time;
+    if (path) this.engineService.previewCameraPathAt(path.keyframes, time);
+  }
+
+  private getTimeAt(clientX: number): number {
+    const track = this.trackRef?.nativeElement;
+    if (!track) return 0;
+    const rect = track.getBoundingClientRect();
+    const ratio = Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1);
+    return ratio * this.timelineDuration;
+  }
+
+  /**
+   * Guarda el recorrido con los keyframes ordenados por tiempo. La selección sigue al mismo keyframe.
+   */
+  private savePath(path: CameraPathResponse): void {
+    if (!this.episodeId) return;
+    const selected = this.selectedKeyframeIndex !== null ? path.keyframes[this.selectedKeyframeIndex] : undefined;
+    const keyframes = [...path.keyframes].sort((a, b) => a.time - b.time);
+    const updated = { ...path, keyframes };
+    if (selected) {
+      const index = keyframes.indexOf(selected);
+      this.selectedKeyframeIndex = index !== -1 ? index : null;
+    }
+    this.emitPaths(this.paths.map(p => p.id === path.id ? updated : p));
+
+    this.cameraPathService.updateCameraPath(this.episodeId, path.id, { name: path.name, easing: path.easing, keyframes }).subscribe({
+      error: err => {
+        console.error(`[CameraPathEditor] Error al guardar el recorrido ${path.id}:`, err);
+        alert('No se pudo guardar el recorrido.');
+      }
+    });
+  }
+
+  private emitPaths(paths: CameraPathResponse[]): void {
+    this.paths = paths;
+    this.pathsChange.emit(paths);
+  }
+}
@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { LightPropertiesComponent } from './light-properties.component';
+
+describe('LightPropertiesComponent', () => {
+  let component: LightPropertiesComponent;
+  let fixture: ComponentFixture<LightPropertiesComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [LightPropertiesComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(LightPropertiesComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
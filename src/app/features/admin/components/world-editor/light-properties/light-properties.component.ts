@@ -0,0 +1,67 @@
+// src/app/features/admin/components/world-editor/light-properties/light-properties.component.ts
+import { Component, Input, Output, EventEmitter, OnChanges, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { SceneObjectResponse } from '../../../services/admin.service';
+import { getLightSettings, LIGHT_SETTING_KEYS, LightSettings } from '../service/three-engine/managers/light-manager.service';
+
+export interface LightUpdate {
+  type: 'light';
+  path: 'properties';
+  value: NonNullable<SceneObjectResponse['properties']>;
+}
+
+type LightNumberKey = 'intensity' | 'distance' | 'decay' | 'angle' | 'penumbra';
+
+/**
+ * ✨ NUEVO: Edita las propiedades de una luz (color, intensidad, alcance, cono y sombras).
+ * Solo muestra las que tienen sentido para su tipo (ver `LIGHT_SETTING_KEYS`); se aplican al momento.
+ */
+@Component({
+  selector: 'app-light-properties',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './light-properties.component.html',
+  styleUrls: ['./light-properties.component.css']
+})
+export class LightPropertiesComponent implements OnChanges {
+  @Input() selectedObject!: SceneObjectResponse;
+  @Output() lightChange = new EventEmitter<LightUpdate>();
+
+  public settings: LightSettings | null = null;
+  public keys: (keyof LightSettings)[] = [];
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['selectedObject'] && this.selectedObject) {
+      this.settings = getLightSettings(this.selectedObject.type, this.selectedObject.properties);
+      this.keys = LIGHT_SETTING_KEYS[this.selectedObject.type] ?? [];
+    }
+  }
+
+  has(key: keyof LightSettings): boolean {
+    return this.keys.includes(key);
+  }
+
+  onColorChange(key: 'color' | 'groundColor', event: Event): void {
+    this.emitChange({ [key]: (event.target as HTMLInputElement).value });
+  }
+
+  onNumberChange(key: LightNumberKey, event: Event): void {
+    const value = parseFloat((event.target as HTMLInputElement).value);
+    if (!this.settings || !Number.isFinite(value) || value < 0 || value === this.settings[key]) return;
+    this.emitChange({ [key]: value });
+  }
+
+  onCastShadowChange(event: Event): void {
+    this.emitChange({ castShadow: (event.target as HTMLInputElement).checked });
+  }
+
+  private emitChange(change: Partial<LightSettings>): void {
+    if (!this.settings) return;
+    this.settings = { ...this.settings, ...change };
+    this.lightChange.emit({
+      type: 'light',
+      path: 'properties',
+      value: { ...this.selectedObject.properties, ...change }
+    });
+  }
+}
@@ -1,13 +1,23 @@
-import { Component, Input, Output, EventEmitter } from '@angular/core';
+import { Component, Input, Output, EventEmitter, OnChanges, SimpleChanges } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { SceneObjectResponse } from '../../../services/admin.service';
+import { EngineService } from '../service/three-engine/core/engine.service';
+import { getMaterialOverrides, MATERIAL_OVERRIDES_KEY, MaterialSettings, MaterialSlot } from '../service/three-engine/managers/material-manager.service';
 
 export interface MaterialUpdate {
   type: 'material';
-  property: 'color' | 'overrideColor';
-  value: string;
+  path: 'properties';
+  value: NonNullable<SceneObjectResponse['properties']>;
 }
 
+type MaterialNumberKey = 'roughness' | 'metalness' | 'emissiveIntensity' | 'opacity';
+type MaterialColorKey = 'color' | 'emissive';
+
+/**
+ * ✨ NUEVO: Editor PBR del objeto seleccionado. En los modelos GLB se elige la sub-malla a editar.
+ * Mientras se arrastra un control se emite `materialPreview` (solo vista previa en el motor);
+ * al soltarlo, `materialChange`, que entra en el historial y se guarda en `properties.materialOverrides`.
+ */
 @Component({
   selector: 'app-material-properties',
   standalone: true,
@@ -15,21 +25,89 @@ export interface MaterialUpdate {
   templateUrl: './material-properties.component.html',
   styleUrls: ['./material-properties.component.css']
 })
-export class MaterialPropertiesComponent {
+export class MaterialPropertiesComponent implements OnChanges {
   @Input() selectedObject!: SceneObjectResponse;
   @Output() materialChange = new EventEmitter<MaterialUpdate>();
+  @Output() materialPreview = new EventEmitter<MaterialUpdate>();
+
+  public slots: MaterialSlot[] = [];
+  public selectedSlotKey: string | null = null;
+  public settings: MaterialSettings | null = null;
+
+  constructor(private engineService: EngineService) {}
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (!changes['selectedObject'] || !this.selectedObject) return;
+    const previousId = changes['selectedObject'].previousValue?.id;
+    this.loadSlots(previousId === this.selectedObject.id ? this.selectedSlotKey : null);
+  }
+
+  get selectedSlot(): MaterialSlot | null {
+    return this.slots.find(slot => slot.key === this.selectedSlotKey) ?? null;
+  }
+
+  get isModel(): boolean {
+    return this.selectedObject.type === 'model';
+  }
+
+  /** Vuelve a pedir las mallas al motor (ej. si el GLB terminó de cargar después de seleccionarlo). */
+  loadSlots(preferredKey: string | null = null): void {
+    this.slots = this.engineService.getMaterialSlots(this.selectedObject.id.toString());
+    const keepKey = preferredKey !== null && this.slots.some(slot => slot.key === preferredKey);
+    this.selectedSlotKey = keepKey ? preferredKey : (this.slots[0]?.key ?? null);
+    this.refreshSettings();
+  }
+
+  onSlotChange(event: Event): void {
+    this.selectedSlotKey = (event.target as HTMLSelectElement).value;
+    this.refreshSettings();
+  }
+
+  onColorInput(key: MaterialColorKey, event: Event, commit: boolean): void {
+    this.update({ [key]: (event.target as HTMLInputElement).value }, commit);
+  }
+
+  onNumberInput(key: MaterialNumberKey, event: Event, commit: boolean): void {
+    const value = parseFloat((event.target as HTMLInputElement).value);
+    if (!Number.isFinite(value)) return;
+    this.update({ [key]: value }, commit);
+  }
+
+  onWireframeChange(event: Event): void {
+    this.update({ wireframe: (event.target as HTMLInputElement).checked }, true);
+  }
+
+  /** Quita la edición de la malla elegida y vuelve al material original. */
+  resetSlot(): void {
+    if (!this.selectedSlotKey) return;
+    const overrides = { ...getMaterialOverrides(this.selectedObject.properties) };
+    delete overrides[this.selectedSlotKey];
+    this.emitOverrides(overrides, true);
+    const slot = this.selectedSlot;
+    if (slot) slot.override = null;
+    this.refreshSettings();
+  }
 
-  onColorChange(property: 'color' | 'overrideColor', event: Event) {
-    const input = event.target as HTMLInputElement;
-    this.materialChange.emit({
+  private update(change: Partial<MaterialSettings>, commit: boolean): void {
+    if (!this.settings || !this.selectedSlotKey) return;
+    this.settings = { ...this.settings, ...change };
+    const overrides = { ...getMaterialOverrides(this.selectedObject.properties), [this.selectedSlotKey]: this.settings };
+    this.emitOverrides(overrides, commit);
+    const slot = this.selectedSlot;
+    if (commit && slot) slot.override = this.settings;
+  }
+
+  private emitOverrides(overrides: Record<string, MaterialSettings>, commit: boolean): void {
+    const update: MaterialUpdate = {
       type: 'material',
-      property: property,
-      value: input.value
-    });
+      path: 'properties',
+      value: { ...this.selectedObject.properties, [MATERIAL_OVERRIDES_KEY]: overrides }
+    };
+    (commit ? this.materialChange : this.materialPreview).emit(update);
   }
 
-  // Helper para obtener el color actual y evitar errores en la plantilla
-  getCurrentColor(property: 'color' | 'overrideColor'): string {
-    return this.selectedObject.properties?.[property] || '#ffffff';
+  private refreshSettings(): void {
+    const slot = this.selectedSlot;
+    this.settings = slot ? { ...(slot.override ?? slot.original) } : null;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { PerformancePanelComponent } from './performance-panel.component';
+
+describe('PerformancePanelComponent', () => {
+  let component: PerformancePanelComponent;
+  let fixture: ComponentFixture<PerformancePanelComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [PerformancePanelComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(PerformancePanelComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
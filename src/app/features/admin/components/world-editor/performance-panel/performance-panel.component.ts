@@ -0,0 +1,121 @@
+// src/app/features/admin/components/world-editor/performance-panel/performance-panel.component.ts
+
+import { Component, AfterViewInit, ElementRef, ViewChild, OnDestroy, ChangeDetectorRef, Input, OnChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subscription } from 'rxjs';
+import { FrameSection, PERFORMANCE_BUDGETS, RenderStats, StatsManagerService } from '../service/three-engine/managers/stats-manager.service';
+
+/** Presupuesto de un fotograma a 60 fps, en milisegundos; se marca como línea en la gráfica. */
+const TARGET_FRAME_TIME = 1000 / 60;
+/** Escala vertical mínima de la gráfica, para que los picos pequeños no ocupen toda la altura. */
+const MIN_GRAPH_SCALE = TARGET_FRAME_TIME * 2;
+
+const SECTION_COLORS: Record<FrameSection, string> = {
+  update: '#4a80c2',
+  bloom: '#d9a441',
+  composer: '#6fbf73'
+};
+
+/**
+ * ✨ NUEVO: Estadísticas de renderizado del editor: contadores de `renderer.info`, instancias visibles de cada
+ * `InstancedMesh` celestial, etiquetas activas y una gráfica con el tiempo de los últimos fotogramas repartido
+ * entre actualización, bloom y composer. Avisa cuando se supera alguno de los `PERFORMANCE_BUDGETS`.
+ * Solo está suscrito mientras `active`, para que el motor no calcule estadísticas con el panel oculto.
+ */
+@Component({
+  selector: 'app-performance-panel',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './performance-panel.component.html',
+  styleUrls: ['./performance-panel.component.css']
+})
+export class PerformancePanelComponent implements AfterViewInit, OnChanges, OnDestroy {
+  @Input() active = true;
+  @ViewChild('frameGraph') private graphRef?: ElementRef<HTMLCanvasElement>;
+
+  public stats: RenderStats | null = null;
+  public readonly budgets = PERFORMANCE_BUDGETS;
+  public readonly sections: { id: FrameSection; label: string; color: string }[] = [
+    { id: 'update', label: 'Actualización', color: SECTION_COLORS.update },
+    { id: 'bloom', label: 'Bloom', color: SECTION_COLORS.bloom },
+    { id: 'composer', label: 'Composer', color: SECTION_COLORS.composer }
+  ];
+
+  private statsSubscription?: Subscription;
+  private viewReady = false;
+
+  constructor(
+    private statsManager: StatsManagerService,
+    private cdr: ChangeDetectorRef
+  ) { }
+
+  ngAfterViewInit(): void {
+    this.viewReady = true;
+    this.updateSubscription();
+  }
+
+  ngOnChanges(): void {
+    if (this.viewReady) this.updateSubscription();
+  }
+
+  ngOnDestroy(): void {
+    this.statsSubscription?.unsubscribe();
+  }
+
+  trackByName(_index: number, item: { name: string }): string {
+    return item.name;
+  }
+
+  private updateSubscription(): void {
+    if (this.active && !this.statsSubscription) {
+      this.statsSubscription = this.statsManager.renderStats$.subscribe(stats => {
+        this.stats = stats;
+        this.cdr.detectChanges();
+        this.drawGraph();
+      });
+    } else if (!this.active && this.statsSubscription) {
+      this.statsSubscription.unsubscribe();
+      this.statsSubscription = undefined;
+    }
+  }
+
+  /** Pinta una barra por fotograma, apilando las partes, y la línea de 16,7 ms. */
+  private drawGraph(): void {
+    const canvas = this.graphRef?.nativeElement;
+    if (!canvas || !this.stats) return;
+
+    const width = canvas.clientWidth;
+    const height = canvas.clientHeight;
+    if (width === 0 || height === 0) return;
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+
+    const context = canvas.getContext('2d')!;
+    const history = this.stats.history;
+    const totals = history.map(frame => frame.update + frame.bloom + frame.composer);
+    const scale = height / Math.max(MIN_GRAPH_SCALE, ...totals);
+    const barWidth = width / Math.max(history.length, 1);
+
+    context.clearRect(0, 0, width, height);
+    history.forEach((frame, index) => {
+      let y = height;
+      this.sections.forEach(section => {
+        const barHeight = frame[section.id] * scale;
+        context.fillStyle = section.color;
+        context.fillRect(index * barWidth, y - barHeight, Math.max(barWidth - 1, 1), barHeight);
+        y -= barHeight;
+      });
+    });
+
+    const budgetY = Math.round(height - TARGET_FRAME_TIME * scale) + 0.5;
+    context.strokeStyle = 'rgba(224, 85, 85, 0.8)';
+    context.setLineDash([4, 3]);
+    context.beginPath();
+    context.moveTo(0, budgetY);
+    context.lineTo(width, budgetY);
+    context.stroke();
+    context.setLineDash([]);
+  }
+}
@@ -0,0 +1,55 @@
+// src/app/features/admin/components/world-editor/physics-properties/physics-properties.component.ts
+import { Component, Input, Output, EventEmitter, OnChanges, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { SceneObjectResponse } from '../../../services/admin.service';
+import { getPhysicsSettings, PhysicsSettings } from '../service/three-engine/managers/physics-manager.service';
+
+export interface PhysicsUpdate {
+  type: 'physics';
+  path: 'properties';
+  value: NonNullable<SceneObjectResponse['properties']>;
+}
+
+/**
+ * ✨ NUEVO: Edita la masa, fricción, rebote y si el cuerpo es estático. Se guardan en `properties`
+ * y la simulación los aplica la próxima vez que se inicia.
+ */
+@Component({
+  selector: 'app-physics-properties',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './physics-properties.component.html',
+  styleUrls: ['./physics-properties.component.css']
+})
+export class PhysicsPropertiesComponent implements OnChanges {
+  @Input() selectedObject!: SceneObjectResponse;
+  @Output() physicsChange = new EventEmitter<PhysicsUpdate>();
+
+  public settings: PhysicsSettings | null = null;
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['selectedObject'] && this.selectedObject) {
+      this.settings = getPhysicsSettings(this.selectedObject.type, this.selectedObject.properties);
+    }
+  }
+
+  onNumberChange(key: 'mass' | 'friction' | 'restitution', event: Event): void {
+    const value = parseFloat((event.target as HTMLInputElement).value);
+    if (!this.settings || !Number.isFinite(value) || value < 0 || value === this.settings[key]) return;
+    this.emitChange({ [key]: value });
+  }
+
+  onStaticChange(event: Event): void {
+    this.emitChange({ isStatic: (event.target as HTMLInputElement).checked });
+  }
+
+  private emitChange(change: Partial<PhysicsSettings>): void {
+    if (!this.settings) return;
+    this.settings = { ...this.settings, ...change };
+    this.physicsChange.emit({
+      type: 'physics',
+      path: 'properties',
+      value: { ...this.selectedObject.properties, ...change }
+    });
+  }
+}
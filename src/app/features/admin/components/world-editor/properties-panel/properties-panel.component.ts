@@ -8,6 +8,14 @@ import { SceneObjectResponse } from '../../../services/admin.service';
 import { TransformPropertiesComponent, TransformUpdate } from '../transform-properties/transform-properties.component';
 import { CustomPropertiesComponent } from '../custom-properties/custom-properties.component';
 import { MetadataPropertiesComponent } from '../metadata-properties/metadata-properties.component';
+import { PhysicsPropertiesComponent, PhysicsUpdate } from '../physics-properties/physics-properties.component';
+import { PHYSICS_PRIMITIVE_TYPES } from '../service/three-engine/managers/physics-manager.service';
+import { MaterialPropertiesComponent, MaterialUpdate } from '../material-properties/material-properties.component';
+import { MATERIAL_EDITABLE_TYPES } from '../service/three-engine/managers/material-manager.service';
+import { LightPropertiesComponent, LightUpdate } from '../light-properties/light-properties.component';
+import { LIGHT_OBJECT_TYPES } from '../service/three-engine/managers/light-manager.service';
+import { VideoPropertiesComponent, VideoUpdate } from '../video-properties/video-properties.component';
+import { SoundPropertiesComponent, SoundUpdate } from '../sound-properties/sound-properties.component';
 
 export interface NameUpdate {
   path: 'name';
@@ -20,7 +28,7 @@ export interface DescriptionUpdate {
   value: string;
 }
 
-export type PropertyUpdate = TransformUpdate | NameUpdate;
+export type PropertyUpdate = TransformUpdate | NameUpdate | PhysicsUpdate | MaterialUpdate | LightUpdate | VideoUpdate | SoundUpdate;
 
 @Component({
   selector: 'app-properties-panel',
@@ -30,7 +38,12 @@ export type PropertyUpdate = TransformUpdate | NameUpdate;
     FormsModule, 
     TransformPropertiesComponent,
     CustomPropertiesComponent,
-    MetadataPropertiesComponent
+    MetadataPropertiesComponent,
+    PhysicsPropertiesComponent,
+    MaterialPropertiesComponent,
+    LightPropertiesComponent,
+    VideoPropertiesComponent,
+    SoundPropertiesComponent
   ],
   templateUrl: './properties-panel.component.html',
   styleUrls: ['./properties-panel.component.css']
@@ -38,6 +51,7 @@ export type PropertyUpdate = TransformUpdate | NameUpdate;
 export class PropertiesPanelComponent implements OnChanges {
   @Input() selectedObject: SceneObjectResponse | null = null;
   @Output() objectUpdate = new EventEmitter<PropertyUpdate>();
+  @Output() materialPreview = new EventEmitter<MaterialUpdate>();
   
   public editableObjectName: string = '';
 
@@ -53,6 +67,42 @@ export class PropertiesPanelComponent implements OnChanges {
     this.objectUpdate.emit(update);
   }
 
+  onPhysicsChange(update: PhysicsUpdate): void {
+    this.objectUpdate.emit(update);
+  }
+
+  onMaterialChange(update: MaterialUpdate): void {
+    this.objectUpdate.emit(update);
+  }
+
+  onMaterialPreview(update: MaterialUpdate): void {
+    this.materialPreview.emit(update);
+  }
+
+  onLightChange(update: LightUpdate): void {
+    this.objectUpdate.emit(update);
+  }
+
+  onVideoChange(update: VideoUpdate): void {
+    this.objectUpdate.emit(update);
+  }
+
+  onSoundChange(update: SoundUpdate): void {
+    this.objectUpdate.emit(update);
+  }
+
+  get isLight(): boolean {
+    return !!this.selectedObject && LIGHT_OBJECT_TYPES.includes(this.selectedObject.type);
+  }
+
+  get hasMaterial(): boolean {
+    return !!this.selectedObject && MATERIAL_EDITABLE_TYPES.includes(this.selectedObject.type);
+  }
+
+  get hasPhysics(): boolean {
+    return !!this.selectedObject && PHYSICS_PRIMITIVE_TYPES.includes(this.selectedObject.type);
+  }
+
   onNameChange(): void {
     if (!this.selectedObject || this.selectedObject.name === this.editableObjectName) return;
     
@@ -0,0 +1,128 @@
+// src/app/features/admin/components/world-editor/recording-dialog/recording-dialog.component.ts
+import { Component, EventEmitter, Input, OnInit, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { CameraPathResponse } from '../../../services/admin.service';
+import { getCameraPathDuration } from '../service/three-engine/managers/camera-path.manager.service';
+import { MAX_RECORDING_SIZE, RECORDING_FPS_OPTIONS, RecordingOptions } from '../service/three-engine/managers/video-recorder.manager.service';
+
+export interface RecordingRequest {
+  options: RecordingOptions;
+  /** Recorrido que se reproduce mientras se graba; `null` graba la vista tal cual (ej. con viajes de `focusOnObject`). */
+  path: CameraPathResponse | null;
+}
+
+interface ResolutionPreset {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+const DEFAULT_DURATION = 10;
+const MAX_DURATION = 600;
+
+/**
+ * ✨ NUEVO: Opciones de una grabación de vídeo: qué se graba (la vista o un recorrido de cámara), resolución,
+ * fotogramas por segundo, duración, paso fijo y rótulo. La grabación la lanza quien escucha `start`.
+ */
+@Component({
+  selector: 'app-recording-dialog',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './recording-dialog.component.html',
+  styleUrls: ['./recording-dialog.component.css']
+})
+export class RecordingDialogComponent implements OnInit {
+  @Input() cameraPaths: CameraPathResponse[] = [];
+  @Input() viewWidth = 1280;
+  @Input() viewHeight = 720;
+  @Input() episodeTitle = '';
+  @Input() isSupported = true;
+
+  @Output() close = new EventEmitter<void>();
+  @Output() start = new EventEmitter<RecordingRequest>();
+
+  public readonly fpsOptions = RECORDING_FPS_OPTIONS;
+  public readonly maxDuration = MAX_DURATION;
+  public resolutions: ResolutionPreset[] = [];
+  public selectedResolutionId = '1080p';
+  public selectedPathId: number | null = null;
+  public fps = RECORDING_FPS_OPTIONS[0];
+  public duration = DEFAULT_DURATION;
+  public fixedTimestep = true;
+  public hud = false;
+
+  ngOnInit(): void {
+    this.resolutions = [
+      { id: 'view', label: 'Vista', width: this.viewWidth, height: this.viewHeight },
+      { id: '720p', label: 'HD 720p', width: 1280, height: 720 },
+      { id: '1080p', label: 'Full HD 1080p', width: 1920, height: 1080 },
+      { id: '2160p', label: '4K UHD', width: 3840, height: 2160 }
+    ];
+  }
+
+  get selectedPath(): CameraPathResponse | null {
+    return this.cameraPaths.find(p => p.id === this.selectedPathId) ?? null;
+  }
+
+  get effectiveDuration(): number {
+    const path = this.selectedPath;
+    return path ? getCameraPathDuration(path.keyframes) : this.duration;
+  }
+
+  get isValid(): boolean {
+    const duration = this.effectiveDuration;
+    return this.isSupported && Number.isFinite(duration) && duration > 0 && duration <= MAX_DURATION;
+  }
+
+  getPathDuration(path: CameraPathResponse): number {
+    return getCameraPathDuration(path.keyframes);
+  }
+
+  onPathChange(value: string): void {
+    this.selectedPathId = value ? Number(value) : null;
+  }
+
+  onFpsChange(value: string): void {
+    this.fps = Number(value);
+  }
+
+  onDurationChange(value: string): void {
+    this.duration = parseFloat(value);
+  }
+
+  onFixedTimestepChange(event: Event): void {
+    this.fixedTimestep = (event.target as HTMLInputElement).checked;
+  }
+
+  onHudChange(event: Event): void {
+    this.hud = (event.target as HTMLInputElement).checked;
+  }
+
+  requestStart(): void {
+    const resolution = this.resolutions.find(r => r.id === this.selectedResolutionId);
+    if (!this.isValid || !resolution) return;
+    this.start.emit({
+      options: {
+        ...this.toEncoderSize(resolution.width, resolution.height),
+        fps: this.fps,
+        duration: this.effectiveDuration,
+        fixedTimestep: this.fixedTimestep,
+        hud: this.hud,
+        hudTitle: this.episodeTitle
+      },
+      path: this.selectedPath
+    });
+  }
+
+  onClose(): void {
+    this.close.emit();
+  }
+
+  /** Los codificadores de vídeo trabajan con lados pares; las resoluciones grandes se reducen conservando la proporción. */
+  private toEncoderSize(width: number, height: number): { width: number; height: number } {
+    const scale = Math.min(1, MAX_RECORDING_SIZE / Math.max(width, height));
+    const toEven = (size: number) => Math.max(2, Math.round((size * scale) / 2) * 2);
+    return { width: toEven(width), height: toEven(height) };
+  }
+}
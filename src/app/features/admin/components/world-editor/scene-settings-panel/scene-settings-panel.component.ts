@@ -1,5 +1,20 @@
-import { Component } from '@angular/core';
+import { Component, EventEmitter, Input, OnInit, Output } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { AssetResponse, EpisodeRenderSettings, RenderToneMapping, SceneEnvironmentSettings } from '../../../services/admin.service';
+import { AssetService } from '../../../services/asset-cache.service';
+import { DEFAULT_GLOBAL_LIGHTS } from '../service/three-engine/managers/light-manager.service';
+import { DEFAULT_ENVIRONMENT_SETTINGS, DEFAULT_RENDER_SETTINGS } from '../service/three-engine/managers/scene-manager.service';
+
+const DEFAULT_ENVIRONMENT: SceneEnvironmentSettings = { backgroundColor: null, ambientIntensity: DEFAULT_GLOBAL_LIGHTS.ambientIntensity };
+
+type SceneSettingsTab = 'render' | 'environment' | 'lights';
+type BackgroundMode = 'sky' | 'color' | 'texture' | 'cubemap';
+type RenderNumberKey = 'bloomStrength' | 'bloomRadius' | 'bloomThreshold' | 'exposure';
+type EnvironmentNumberKey = 'skyIntensity' | 'skyRotation' | 'fogNear' | 'fogFar' | 'environmentIntensity';
+
+const DEFAULT_BACKGROUND_COLOR = '#000215';
+const PANORAMA_ASSET_TYPES: AssetResponse['type'][] = ['texture_png', 'texture_jpg', 'texture_hdr', 'texture_exr'];
+const CUBEMAP_FACE_ASSET_TYPES: AssetResponse['type'][] = ['texture_png', 'texture_jpg'];
 
 @Component({
   selector: 'app-scene-settings-panel',
@@ -8,11 +23,164 @@ import { CommonModule } from '@angular/common';
   templateUrl: './scene-settings-panel.component.html',
   styleUrls: ['./scene-settings-panel.component.css']
 })
-export class SceneSettingsPanelComponent {
+export class SceneSettingsPanelComponent implements OnInit {
   // Estado para saber qué pestaña de ajustes de escena está activa.
-  activeTab: 'render' | 'environment' = 'render';
+  activeTab: SceneSettingsTab = 'render';
+  public readonly defaultLights = DEFAULT_GLOBAL_LIGHTS;
+  public readonly defaultEnvironment = DEFAULT_ENVIRONMENT_SETTINGS;
+  public readonly toneMappings: { value: RenderToneMapping; label: string }[] = [
+    { value: 'none', label: 'Ninguno' },
+    { value: 'linear', label: 'Lineal' },
+    { value: 'reinhard', label: 'Reinhard' },
+    { value: 'cineon', label: 'Cineon' },
+    { value: 'aces', label: 'ACES Filmic' },
+    { value: 'agx', label: 'AgX' },
+    { value: 'neutral', label: 'Neutral' }
+  ];
+  public readonly pixelRatios = [0.5, 0.75, 1, 1.5, 2];
+  // ✨ NUEVO: Las panorámicas admiten imágenes HDR/EXR; las caras de un cubemap, solo PNG/JPG.
+  public panoramaAssets: AssetResponse[] = [];
+  public cubemapFaceAssets: AssetResponse[] = [];
+  public readonly cubemapFaces = ['+X', '-X', '+Y', '-Y', '+Z', '-Z'];
+
+  // ✨ NUEVO: Ajustes de renderizado del episodio. Como el entorno, se emiten completos para persistirlos.
+  @Input() renderSettings: EpisodeRenderSettings | null = null;
+  @Output() renderSettingsChange = new EventEmitter<EpisodeRenderSettings>();
+
+  // ✨ NUEVO: Ajustes de entorno de la escena activa. Los cambios se emiten completos para persistirlos.
+  @Input() environment: SceneEnvironmentSettings | null = null;
+  @Output() environmentChange = new EventEmitter<SceneEnvironmentSettings>();
+
+  constructor(private assetService: AssetService) {}
+
+  ngOnInit(): void {
+    this.assetService.getAssets().subscribe(assets => {
+      this.panoramaAssets = assets.filter(asset => PANORAMA_ASSET_TYPES.includes(asset.type));
+      this.cubemapFaceAssets = assets.filter(asset => CUBEMAP_FACE_ASSET_TYPES.includes(asset.type));
+    });
+  }
+
+  get currentEnvironment(): SceneEnvironmentSettings {
+    return this.environment ?? DEFAULT_ENVIRONMENT;
+  }
+
+  get currentRender(): EpisodeRenderSettings {
+    return { ...DEFAULT_RENDER_SETTINGS, ...this.renderSettings };
+  }
+
+  get backgroundMode(): BackgroundMode {
+    if (this.currentEnvironment.backgroundTexturePath) return 'texture';
+    if (this.currentEnvironment.backgroundCubemapPaths) return 'cubemap';
+    return this.currentEnvironment.backgroundColor ? 'color' : 'sky';
+  }
 
-  setActiveTab(tab: 'render' | 'environment'): void {
+  setActiveTab(tab: SceneSettingsTab): void {
     this.activeTab = tab;
   }
-}
\ No newline at end of file
+
+  // --- Renderizado ---
+
+  onRenderNumberChange(key: RenderNumberKey, value: string): void {
+    const parsed = parseFloat(value);
+    if (!Number.isFinite(parsed) || parsed < 0) return;
+    this.emitRender({ [key]: parsed });
+  }
+
+  onToneMappingChange(toneMapping: RenderToneMapping): void {
+    this.emitRender({ toneMapping });
+  }
+
+  onPixelRatioChange(value: string): void {
+    this.emitRender({ pixelRatio: value === 'auto' ? null : parseFloat(value) });
+  }
+
+  onOutlineColorChange(key: 'selectionOutlineColor' | 'hoverOutlineColor', color: string): void {
+    this.emitRender({ [key]: color });
+  }
+
+  resetRenderSettings(): void {
+    this.renderSettingsChange.emit({ ...DEFAULT_RENDER_SETTINGS });
+  }
+
+  // --- Entorno ---
+
+  onBackgroundModeChange(mode: BackgroundMode): void {
+    const cleared: Partial<SceneEnvironmentSettings> = { backgroundColor: null, backgroundTexturePath: null, backgroundCubemapPaths: null };
+    if (mode === 'texture') {
+      const path = this.panoramaAssets[0]?.path;
+      if (path) this.emitEnvironment({ ...cleared, backgroundTexturePath: path });
+      return;
+    }
+    if (mode === 'cubemap') {
+      // Se empieza con la misma imagen en las seis caras; el autor elige después cada una.
+      const path = this.cubemapFaceAssets[0]?.path;
+      if (path) this.emitEnvironment({ ...cleared, backgroundCubemapPaths: this.cubemapFaces.map(() => path) });
+      return;
+    }
+    this.emitEnvironment({ ...cleared, backgroundColor: mode === 'color' ? DEFAULT_BACKGROUND_COLOR : null });
+  }
+
+  onBackgroundTextureChange(path: string): void {
+    this.emitEnvironment({ backgroundTexturePath: path });
+  }
+
+  onCubemapFaceChange(index: number, path: string): void {
+    const faces = [...(this.currentEnvironment.backgroundCubemapPaths ?? [])];
+    faces[index] = path;
+    this.emitEnvironment({ backgroundCubemapPaths: faces });
+  }
+
+  onEnvironmentNumberChange(key: EnvironmentNumberKey, value: string): void {
+    const parsed = parseFloat(value);
+    if (!Number.isFinite(parsed) || parsed < 0) return;
+    this.emitEnvironment({ [key]: parsed });
+  }
+
+  onFogEnabledChange(fogEnabled: boolean): void {
+    this.emitEnvironment({ fogEnabled });
+  }
+
+  onFogColorChange(fogColor: string): void {
+    this.emitEnvironment({ fogColor });
+  }
+
+  onBackgroundColorChange(color: string): void {
+    this.emitEnvironment({ backgroundColor: color });
+  }
+
+  onAmbientIntensityChange(value: string): void {
+    const parsed = parseFloat(value);
+    if (!Number.isFinite(parsed) || parsed < 0) return;
+    this.emitEnvironment({ ambientIntensity: parsed });
+  }
+
+  // ✨ NUEVO: Luces globales (la ambiental y la direccional del editor), guardadas con el entorno de la escena.
+  onLightColorChange(key: 'ambientColor' | 'directionalColor', color: string): void {
+    this.emitEnvironment({ [key]: color });
+  }
+
+  onDirectionalIntensityChange(value: string): void {
+    const parsed = parseFloat(value);
+    if (!Number.isFinite(parsed) || parsed < 0) return;
+    this.emitEnvironment({ directionalIntensity: parsed });
+  }
+
+  onDirectionalPositionChange(axis: 'x' | 'y' | 'z', value: string): void {
+    const parsed = parseFloat(value);
+    if (!Number.isFinite(parsed)) return;
+    const position = this.currentEnvironment.directionalPosition ?? DEFAULT_GLOBAL_LIGHTS.directionalPosition;
+    this.emitEnvironment({ directionalPosition: { ...position, [axis]: parsed } });
+  }
+
+  onDirectionalCastShadowChange(castShadow: boolean): void {
+    this.emitEnvironment({ directionalCastShadow: castShadow });
+  }
+
+  private emitRender(changes: Partial<EpisodeRenderSettings>): void {
+    this.renderSettingsChange.emit({ ...this.currentRender, ...changes });
+  }
+
+  private emitEnvironment(changes: Partial<SceneEnvironmentSettings>): void {
+    this.environmentChange.emit({ ...this.currentEnvironment, ...changes });
+  }
+}
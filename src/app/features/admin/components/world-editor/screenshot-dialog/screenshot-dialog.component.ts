@@ -0,0 +1,94 @@
+// src/app/features/admin/components/world-editor/screenshot-dialog/screenshot-dialog.component.ts
+import { Component, EventEmitter, Input, OnInit, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MAX_SCREENSHOT_SIZE, ScreenshotOptions } from '../service/three-engine/managers/screenshot.manager.service';
+
+export type ScreenshotAction = 'download' | 'thumbnail';
+
+export interface ScreenshotRequest {
+  options: ScreenshotOptions;
+  action: ScreenshotAction;
+}
+
+interface SizePreset {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * ✨ NUEVO: Opciones de una captura de la vista: tamaño (múltiplos de la vista, resoluciones fijas o a medida)
+ * y fondo transparente. La captura la hace quien escucha `capture`, que decide si se descarga o se sube como miniatura.
+ */
+@Component({
+  selector: 'app-screenshot-dialog',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './screenshot-dialog.component.html',
+  styleUrls: ['./screenshot-dialog.component.css']
+})
+export class ScreenshotDialogComponent implements OnInit {
+  @Input() viewWidth = 1280;
+  @Input() viewHeight = 720;
+  @Input() isCapturing = false;
+
+  @Output() close = new EventEmitter<void>();
+  @Output() capture = new EventEmitter<ScreenshotRequest>();
+
+  public readonly maxSize = MAX_SCREENSHOT_SIZE;
+  public presets: SizePreset[] = [];
+  public selectedPresetId = 'view-2';
+  public width = 0;
+  public height = 0;
+  public transparentBackground = false;
+
+  ngOnInit(): void {
+    const view = (factor: number): SizePreset => ({
+      id: `view-${factor}`,
+      label: `Vista ×${factor}`,
+      width: Math.round(this.viewWidth * factor),
+      height: Math.round(this.viewHeight * factor)
+    });
+    this.presets = [
+      view(1), view(2), view(4),
+      { id: 'hd', label: 'Full HD', width: 1920, height: 1080 },
+      { id: '4k', label: '4K UHD', width: 3840, height: 2160 },
+      { id: 'thumbnail', label: 'Miniatura', width: 1280, height: 720 }
+    ];
+    this.selectPreset(this.selectedPresetId);
+  }
+
+  get isValidSize(): boolean {
+    return [this.width, this.height].every(size => Number.isInteger(size) && size > 0 && size <= MAX_SCREENSHOT_SIZE);
+  }
+
+  selectPreset(id: string): void {
+    this.selectedPresetId = id;
+    const preset = this.presets.find(p => p.id === id);
+    if (!preset) return;
+    this.width = Math.min(preset.width, MAX_SCREENSHOT_SIZE);
+    this.height = Math.min(preset.height, MAX_SCREENSHOT_SIZE);
+  }
+
+  onSizeChange(key: 'width' | 'height', value: string): void {
+    this.selectedPresetId = 'custom';
+    this[key] = parseInt(value, 10);
+  }
+
+  onTransparentChange(event: Event): void {
+    this.transparentBackground = (event.target as HTMLInputElement).checked;
+  }
+
+  requestCapture(action: ScreenshotAction): void {
+    if (!this.isValidSize || this.isCapturing) return;
+    this.capture.emit({
+      options: { width: this.width, height: this.height, transparentBackground: this.transparentBackground },
+      action
+    });
+  }
+
+  onClose(): void {
+    this.close.emit();
+  }
+}
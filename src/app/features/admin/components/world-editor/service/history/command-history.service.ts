@@ -0,0 +1,172 @@
+// src/app/features/admin/components/world-editor/service/history/command-history.service.ts
+
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, Subject } from 'rxjs';
+import { SceneObjectResponse } from '../../../../services/admin.service';
+import { SceneObjectService } from '../../../../services/scene-object.service';
+import { EngineService } from '../three-engine/core/engine.service';
+
+/**
+ * Campos de un objeto de escena que el historial sabe guardar y restaurar.
+ * `status` cubre el envío a la papelera y la restauración; la vista lo aplica a la escena (`stateApplied$`).
+ */
+export type ObjectState = Partial<Pick<SceneObjectResponse, 'position' | 'rotation' | 'scale' | 'name' | 'properties' | 'status'>>;
+
+/**
+ * @interface ObjectChange
+ * @description Estado de un objeto antes y después de una edición.
+ */
+export interface ObjectChange {
+  objectId: number;
+  before: ObjectState;
+  after: ObjectState;
+}
+
+/**
+ * @interface HistoryEntry
+ * @description Un paso de deshacer/rehacer. Puede agrupar varios cambios (ej. una sesión de arrastre).
+ */
+export interface HistoryEntry {
+  label: string;
+  changes: ObjectChange[];
+}
+
+/**
+ * @interface AppliedState
+ * @description Se emite cada vez que el historial aplica un estado, para que la vista sincronice sus datos locales.
+ */
+export interface AppliedState {
+  objectId: number;
+  state: ObjectState;
+}
+
+const HISTORY_LIMIT = 100;
+const TRANSFORM_PATHS: ('position' | 'rotation' | 'scale')[] = ['position', 'rotation', 'scale'];
+
+/**
+ * @class CommandHistoryService
+ * @description
+ * Pila de comandos del editor. Registra el estado anterior y posterior de cada edición
+ * (transformaciones, nombre, descripción, propiedades y papelera) y permite deshacer/rehacer aplicando
+ * los cambios tanto a la escena de Three.js como al backend.
+ */
+@Injectable()
+export class CommandHistoryService {
+
+  public canUndo$: Observable<boolean>;
+  public canRedo$: Observable<boolean>;
+  public stateApplied$: Observable<AppliedState>;
+
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  private openGroup: HistoryEntry | null = null;
+  private episodeId?: number;
+
+  private canUndoSubject = new BehaviorSubject<boolean>(false);
+  private canRedoSubject = new BehaviorSubject<boolean>(false);
+  private stateAppliedSubject = new Subject<AppliedState>();
+
+  constructor(
+    private engineService: EngineService,
+    private sceneObjectService: SceneObjectService
+  ) {
+    this.canUndo$ = this.canUndoSubject.asObservable();
+    this.canRedo$ = this.canRedoSubject.asObservable();
+    this.stateApplied$ = this.stateAppliedSubject.asObservable();
+  }
+
+  public init(episodeId: number): void {
+    this.episodeId = episodeId;
+    this.clear();
+  }
+
+  /**
+   * Registra una edición ya aplicada. Si hay un grupo abierto, el cambio se acumula en él.
+   */
+  public record(objectId: number, before: ObjectState, after: ObjectState, label: string = 'Editar objeto'): void {
+    if (JSON.stringify(before) === JSON.stringify(after)) return;
+
+    const change: ObjectChange = { objectId, before: structuredClone(before), after: structuredClone(after) };
+
+    if (this.openGroup) {
+      this.openGroup.changes.push(change);
+      return;
+    }
+    this.push({ label, changes: [change] });
+  }
+
+  /**
+   * Abre un grupo: todos los cambios registrados hasta `endGroup` cuentan como un solo paso.
+   */
+  public beginGroup(label: string): void {
+    if (this.openGroup) this.endGroup();
+    this.openGroup = { label, changes: [] };
+  }
+
+  public endGroup(): void {
+    const group = this.openGroup;
+    this.openGroup = null;
+    if (group && group.changes.length > 0) {
+      this.push(group);
+    }
+  }
+
+  public undo(): void {
+    this.endGroup();
+    const entry = this.undoStack.pop();
+    if (!entry) return;
+    [...entry.changes].reverse().forEach(change => this.applyState(change.objectId, change.before));
+    this.redoStack.push(entry);
+    this.publishState();
+  }
+
+  public redo(): void {
+    this.endGroup();
+    const entry = this.redoStack.pop();
+    if (!entry) return;
+    entry.changes.forEach(change => this.applyState(change.objectId, change.after));
+    this.undoStack.push(entry);
+    this.publishState();
+  }
+
+  public clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.openGroup = null;
+    this.publishState();
+  }
+
+  private push(entry: HistoryEntry): void {
+    this.undoStack.push(entry);
+    if (this.undoStack.length > HISTORY_LIMIT) this.undoStack.shift();
+    this.redoStack = [];
+    this.publishState();
+  }
+
+  private applyState(objectId: number, state: ObjectState): void {
+    const uuid = objectId.toString();
+
+    TRANSFORM_PATHS.forEach(path => {
+      const value = state[path];
+      if (value) this.engineService.updateObjectTransform(uuid, path, value);
+    });
+    if (state.name !== undefined) {
+      this.engineService.updateObjectName(uuid, state.name);
+    }
+    if (state.properties !== undefined) {
+      this.engineService.updateObjectProperties(uuid, state.properties);
+    }
+
+    this.stateAppliedSubject.next({ objectId, state: structuredClone(state) });
+
+    if (!this.episodeId) return;
+    this.sceneObjectService.updateSceneObject(this.episodeId, objectId, state).subscribe({
+      error: err => console.error(`[CommandHistory] Error al persistir el estado del objeto ${objectId}:`, err)
+    });
+  }
+
+  private publishState(): void {
+    this.canUndoSubject.next(this.undoStack.length > 0);
+    this.canRedoSubject.next(this.redoStack.length > 0);
+  }
+}
@@ -2,23 +2,38 @@
 
 import { Injectable, ElementRef, OnDestroy } from '@angular/core';
 import * as THREE from 'three';
-import { RoomEnvironment } from 'three/examples/jsm/environments/RoomEnvironment.js';
 import { BehaviorSubject, Observable, Subject, Subscription } from 'rxjs';
 import { debounceTime } from 'rxjs/operators';
 import { ControlsManagerService } from '../interactions/controls-manager.service';
 import { EntityManagerService, SceneEntity } from '../managers/entity-manager.service';
-import { SceneManagerService } from '../managers/scene-manager.service';
+import { DEFAULT_RENDER_SETTINGS, SceneManagerService } from '../managers/scene-manager.service';
 import { StatsManagerService } from '../managers/stats-manager.service';
 import { ToolMode } from '../../../toolbar/toolbar.component';
-import { SceneObjectResponse } from '../../../../../services/admin.service';
+import { CameraPathKeyframe, CameraPathResponse, EpisodeRenderSettings, SceneCameraStart, SceneEnvironmentSettings, SceneObjectResponse } from '../../../../../services/admin.service';
 import { InteractionHelperManagerService } from '../interactions/interaction-helper.manager.service';
 import { DragInteractionManagerService } from '../interactions/drag-interaction.manager.service';
-import { CelestialInstanceData, BLOOM_LAYER } from '../managers/object-manager.service';
+import { BLOOM_LAYER } from '../managers/object-manager.service';
 import { CameraManagerService, CameraMode } from '../managers/camera-manager.service';
 import { SelectionManagerService } from '../interactions/selection-manager.service';
 import { EventManagerService } from '../interactions/event-manager.service';
 import { InteractionService } from '../interactions/interaction.service';
 import { LabelManagerService } from '../managers/label-manager.service';
+import { GroupMember, GroupTransformManagerService, ObjectTransform } from '../interactions/group-transform.manager.service';
+import { BoxSelection, BoxSelectionManagerService } from '../interactions/box-selection.manager.service';
+import { GltfExportManagerService } from '../managers/gltf-export.manager.service';
+import { ScreenshotManagerService, ScreenshotOptions } from '../managers/screenshot.manager.service';
+import { RecordingOptions, RecordingProgress, VideoRecorderManagerService } from '../managers/video-recorder.manager.service';
+import { CelestialInstancesManagerService } from '../managers/celestial-instances.manager.service';
+import { CELESTIAL_MESH_PREFIX } from '../helpers/constants';
+import { FloatingOriginManagerService } from '../managers/floating-origin.manager.service';
+import { WmtsLodManagerService } from '../managers/wmts-lod.manager.service';
+import { GameMode, GameStateService } from '../../game-state/game-state.service';
+import { PhysicsManagerService } from '../managers/physics-manager.service';
+import { MaterialManagerService, MaterialSlot } from '../managers/material-manager.service';
+import { LIGHT_OBJECT_TYPES, LightManagerService } from '../managers/light-manager.service';
+import { VideoManagerService, VideoPlaybackState } from '../managers/video-manager.service';
+import { AudioManagerService } from '../managers/audio-manager.service';
+import { CameraPathManagerService, CameraPathPlayback } from '../managers/camera-path.manager.service';
 
 export interface IntersectedObjectInfo {
   uuid: string;
@@ -26,59 +41,53 @@ export interface IntersectedObjectInfo {
 }
 
 
-const INSTANCES_TO_CHECK_PER_FRAME = 10000000;
-const BASE_VISIBILITY_DISTANCE = 1000000000;
-const MAX_PERCEPTUAL_DISTANCE = 10000000000000;
-const PERSPECTIVE_VISIBILITY_MULTIPLIER = 0.08;
-const FADE_IN_SPEED = 3.0;
-const FADE_OUT_SPEED = 7.0;
-const VISIBILITY_HYSTERESIS_FACTOR = 15.05;
-const FOG_START_DISTANCE_MULTIPLIER = 0.01;
-const FOG_DENSITY = 0.95;
 // ====================================================================
 // ✨ MEJORA: Exportamos la constante para que otros servicios la usen.
 // ====================================================================
 export const DEEP_SPACE_SCALE_BOOST = 50.0;
-const ORTHO_ZOOM_VISIBILITY_MULTIPLIER = 5.0;
-const ORTHO_ZOOM_BLOOM_DAMPENING_FACTOR = 12.0;
-const MAX_INTENSITY = 8.0;
-const ORTHO_MAX_INTENSITY = 1.5;
-const CELESTIAL_MESH_PREFIX = 'CelestialObjects_';
+/** Distancia a la que se coloca el objetivo de la cámara al partir de una cámara de la escena. */
+const PLAYER_START_TARGET_DISTANCE = 10;
 
 
 @Injectable()
 export class EngineService implements OnDestroy {
 
   public onObjectSelected$ = new Subject<string | null>();
+  public onSelectionChanged$: Observable<string[]>;
   public onTransformEnd$: Observable<void>;
   public axisLockState$: Observable<'x' | 'y' | 'z' | null>;
   public cameraOrientation$: Observable<THREE.Quaternion>;
   public cameraPosition$: Observable<THREE.Vector3>;
   public isFlyModeActive$: Observable<boolean>;
   public cameraMode$: Observable<CameraMode>;
+  public isPhysicsSimulating$: Observable<boolean>;
+  public isAudioMuted$: Observable<boolean>;
+  public cameraPathPlayback$: Observable<CameraPathPlayback | null>;
+  public recordingProgress$: Observable<RecordingProgress | null>;
   public sceneManager!: SceneManagerService;
 
   private transformEndSubject = new Subject<void>();
+  private selectionChangedSubject = new BehaviorSubject<string[]>([]);
   private cameraOrientationSubject = new BehaviorSubject<THREE.Quaternion>(new THREE.Quaternion());
   private cameraPositionSubject = new BehaviorSubject<THREE.Vector3>(new THREE.Vector3());
 
   private selectedObject?: THREE.Object3D;
+  private selectedUuids: string[] = [];
   private clock = new THREE.Clock();
   private animationFrameId?: number;
   private baseOrthoMatrixElement: number = 0;
   private controlsSubscription?: Subscription;
+  private gameModeSubscription?: Subscription;
+  private isPlayMode = false;
+  private hiddenEditorObjects = new Map<THREE.Object3D, boolean>();
   private focusPivot: THREE.Object3D;
 
   private orthoBillboardRotation = new THREE.Quaternion();
   private tempQuaternion = new THREE.Quaternion();
-  private tempMatrix = new THREE.Matrix4();
-  private frustum = new THREE.Frustum();
-  private projScreenMatrix = new THREE.Matrix4();
-  private boundingSphere = new THREE.Sphere();
-  private tempScale = new THREE.Vector3();
-  private tempColor = new THREE.Color();
   private tempBox = new THREE.Box3();
   private tempVec3 = new THREE.Vector3();
+  private dropRaycaster = new THREE.Raycaster();
+  private groundPlane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
 
   private dynamicCelestialModels: THREE.Group[] = [];
   private originalSceneBackground: THREE.Color | THREE.Texture | null = null;
@@ -95,7 +104,22 @@ export class EngineService implements OnDestroy {
     private selectionManager: SelectionManagerService,
     private eventManager: EventManagerService,
     private interactionService: InteractionService,
-    private labelManager: LabelManagerService
+    private labelManager: LabelManagerService,
+    private groupTransformManager: GroupTransformManagerService,
+    private boxSelectionManager: BoxSelectionManagerService,
+    private gltfExportManager: GltfExportManagerService,
+    private wmtsLodManager: WmtsLodManagerService,
+    private gameStateService: GameStateService,
+    private physicsManager: PhysicsManagerService,
+    private cameraPathManager: CameraPathManagerService,
+    private materialManager: MaterialManagerService,
+    private lightManager: LightManagerService,
+    private videoManager: VideoManagerService,
+    private audioManager: AudioManagerService,
+    private screenshotManager: ScreenshotManagerService,
+    private videoRecorder: VideoRecorderManagerService,
+    private celestialInstances: CelestialInstancesManagerService,
+    private floatingOrigin: FloatingOriginManagerService
   ) {
     this.sceneManager = sceneManager;
     this.focusPivot = new THREE.Object3D();
@@ -107,6 +131,11 @@ export class EngineService implements OnDestroy {
     this.cameraOrientation$ = this.cameraOrientationSubject.asObservable();
     this.cameraPosition$ = this.cameraPositionSubject.asObservable();
     this.cameraMode$ = this.cameraManager.cameraMode$.asObservable();
+    this.isPhysicsSimulating$ = this.physicsManager.isRunning$;
+    this.isAudioMuted$ = this.audioManager.isMuted$;
+    this.cameraPathPlayback$ = this.cameraPathManager.playback$;
+    this.recordingProgress$ = this.videoRecorder.progress$;
+    this.onSelectionChanged$ = this.selectionChangedSubject.asObservable();
   }
 
   public init(canvasRef: ElementRef<HTMLCanvasElement>): void {
@@ -114,24 +143,13 @@ export class EngineService implements OnDestroy {
 
     this.sceneManager.setupBasicScene(canvas);
 
-    const ambientLight = new THREE.AmbientLight(0xffffff, 1.5);
-    ambientLight.name = 'GlobalAmbientLight';
-    this.sceneManager.scene.add(ambientLight);
-
-    const directionalLight = new THREE.DirectionalLight(0xffffff, 0.5);
-    directionalLight.position.set(5, 10, 7.5);
-    directionalLight.name = 'GlobalDirectionalLight';
-    this.sceneManager.scene.add(directionalLight);
-
-    const environment = new RoomEnvironment();
-    const pmremGenerator = new THREE.PMREMGenerator(this.sceneManager.renderer);
-    this.sceneManager.scene.environment = pmremGenerator.fromScene(environment).texture;
-    environment.dispose();
-    pmremGenerator.dispose();
+    this.lightManager.addLightsToScene(this.sceneManager.scene);
 
     this.sceneManager.scene.add(this.focusPivot);
     this.entityManager.init(this.sceneManager.scene);
     this.labelManager.init(this.sceneManager.scene);
+    this.floatingOrigin.init(this.sceneManager.scene);
+    this.groupTransformManager.init(this.sceneManager.scene);
 
     this.statsManager.init('stats-container');
 
@@ -141,12 +159,14 @@ export class EngineService implements OnDestroy {
     this.dragInteractionManager.init(this.sceneManager.editorCamera, canvas, this.controlsManager);
     this.cameraManager.initialize();
     this.eventManager.init(canvas);
+    this.boxSelectionManager.init(canvas);
 
     const parent = this.sceneManager.canvas.parentElement!;
     const initialSize = new THREE.Vector2(parent.clientWidth, parent.clientHeight);
     this.selectionManager.init(this.sceneManager.scene, this.sceneManager.activeCamera, initialSize);
 
     this.selectionManager.getPasses().forEach(pass => this.sceneManager.composer.addPass(pass));
+    this.sceneManager.composer.addPass(this.sceneManager.outputPass);
 
     this.interactionService.init({
       sceneManager: this.sceneManager,
@@ -157,7 +177,8 @@ export class EngineService implements OnDestroy {
       interactionHelperManager: this.interactionHelperManager,
       dragInteractionManager: this.dragInteractionManager,
       engine: this,
-      eventManager: this.eventManager
+      eventManager: this.eventManager,
+      boxSelectionManager: this.boxSelectionManager
     });
 
     this.precompileShaders();
@@ -168,12 +189,26 @@ export class EngineService implements OnDestroy {
     
   private animate = () => {
     this.animationFrameId = requestAnimationFrame(this.animate);
-    this.statsManager.begin();
     const delta = this.clock.getDelta();
+    // ✨ NUEVO: Una grabación a paso fijo avanza la escena ella misma, fotograma a fotograma.
+    if (this.videoRecorder.isDrivingFrames) return;
 
-    const isCameraAnimating = this.cameraManager.update(delta);
+    this.statsManager.begin();
+    this.updateAndRender(delta);
+    this.videoRecorder.captureFrame(delta);
+    this.statsManager.end();
+  };
+
+  private updateAndRender(delta: number): void {
+    // ✨ NUEVO: `renderer.info` se acumula en todas las pasadas del fotograma (bloom y composer) y se pone a cero aquí.
+    this.sceneManager.renderer.info.reset();
+    // Un recorrido de cámara en curso tiene prioridad sobre los viajes de `focusOnObject`.
+    const isCameraAnimating = this.cameraPathManager.update(delta) || this.cameraManager.update(delta);
+    this.physicsManager.step(delta);
     this.interactionService.update();
+    this.groupTransformManager.update();
     this.labelManager.update();
+    this.labelManager.declutter(this.sceneManager.activeCamera);
 
     if (this.cameraManager.activeCameraType === 'secondary') {
       const controls = this.controlsManager.getControls();
@@ -181,6 +216,8 @@ export class EngineService implements OnDestroy {
     }
     this.sceneManager.secondaryCamera.userData['helper']?.update();
     this.sceneManager.editorCamera.userData['helper']?.update();
+    // El ayudante del objeto seleccionado (ej. el cono de un foco) sigue a su orientación mientras se edita.
+    this.selectedObject?.userData['helper']?.update?.();
 
     if (!isCameraAnimating) {
       const cameraMoved = this.controlsManager.update(delta, this.eventManager.keyMap);
@@ -203,37 +240,59 @@ export class EngineService implements OnDestroy {
     }
 
     this.updateDynamicCelestialModels(delta);
+    this.wmtsLodManager.update(this.sceneManager.activeCamera, this.sceneManager.canvas.clientHeight, delta);
+    this.videoManager.update(this.sceneManager.activeCamera, delta);
+    this.audioManager.update(this.sceneManager.activeCamera);
+    // ✨ NUEVO: El origen flotante se re-centra en la cámara cuando esta se aleja.
+    this.floatingOrigin.update(this.sceneManager.activeCamera);
+    // ✨ NUEVO: La intensidad y el fundido de las instancias celestiales se calculan en la GPU; aquí se le pasa
+    // la cámara y el tiempo, y se revisa (con el índice espacial) qué instancias entran o salen del encuadre o de su distancia de visibilidad.
+    this.celestialInstances.update(this.sceneManager.activeCamera, isOrthographic, this.baseOrthoMatrixElement, delta);
     this.sceneManager.scene.children.forEach(object => {
-      if (object.name.startsWith(CELESTIAL_MESH_PREFIX)) this.updateVisibleCelestialInstances(object as THREE.InstancedMesh, delta);
+      if (object instanceof THREE.InstancedMesh && object.name.startsWith(CELESTIAL_MESH_PREFIX)) this.celestialInstances.updateVisibility(object);
+      if (object.name === 'GroupSelectionProxy') object.quaternion.copy(isOrthographic ? this.orthoBillboardRotation : this.sceneManager.activeCamera.quaternion);
       if (object.userData['animationMixer']) object.userData['animationMixer'].update(delta);
     });
 
+    this.statsManager.endSection('update');
     this.renderSceneWithSelectiveBloom();
+  }
 
-    this.statsManager.end();
-  };
+  /**
+   * ✨ NUEVO: Pinta con la escena desplazada al origen flotante; al terminar todo vuelve a coordenadas absolutas.
+   * @param transparentBackground Pinta sin fondo y con el color de borrado transparente (capturas PNG).
+   */
+  private renderSceneWithSelectiveBloom(transparentBackground = false): void {
+    this.floatingOrigin.beginRender(this.sceneManager.activeCamera);
+    try {
+      this.renderPasses(transparentBackground);
+    } finally {
+      this.floatingOrigin.endRender();
+    }
+  }
 
-  private renderSceneWithSelectiveBloom(): void {
+  private renderPasses(transparentBackground: boolean): void {
     const isOrthographic = this.cameraManager.cameraMode$.getValue() === 'orthographic';
-    const skySphere = this.sceneManager.scene.getObjectByName('SkySphere');
-
-    if (skySphere) {
-        skySphere.visible = !isOrthographic;
-    }
 
+    // El cielo (panorámica, cubemap o cielo nocturno) es el fondo de la escena: en ortográfica se pinta negro,
+    // pero su entorno PMREM sigue iluminando los materiales.
     this.originalSceneBackground = this.sceneManager.scene.background;
     
-    const mainRenderBackground = isOrthographic 
-        ? new THREE.Color(0x000000) 
-        : this.originalSceneBackground;
+    const mainRenderBackground = transparentBackground
+        ? null
+        : isOrthographic
+          ? new THREE.Color(0x000000)
+          : this.originalSceneBackground;
 
     this.sceneManager.scene.background = null;
     this.sceneManager.activeCamera.layers.set(BLOOM_LAYER);
     this.sceneManager.bloomComposer.render();
+    this.statsManager.endSection('bloom');
 
     this.sceneManager.scene.background = mainRenderBackground;
     this.sceneManager.activeCamera.layers.enableAll();
     this.sceneManager.composer.render();
+    this.statsManager.endSection('composer');
 
     this.sceneManager.scene.background = this.originalSceneBackground;
   }
@@ -241,19 +300,89 @@ export class EngineService implements OnDestroy {
 
   public ngOnDestroy = () => {
     if (this.animationFrameId) cancelAnimationFrame(this.animationFrameId);
+    this.gameModeSubscription?.unsubscribe();
+    this.physicsManager.stop();
+    this.cameraPathManager.stop();
+    this.videoRecorder.stop();
+    this.videoManager.clear();
+    this.audioManager.dispose();
     this.statsManager.destroy();
     this.controlsManager.ngOnDestroy();
     if (this.sceneManager.renderer) this.sceneManager.renderer.dispose();
   };
 
   public setActiveSelectionByUuid(uuid: string | null): void {
-    const currentUuid = this.selectedObject?.uuid;
-    if (currentUuid === uuid) return;
+    this.setSelectionByUuids(uuid ? [uuid] : []);
+  }
+
+  /**
+   * ✨ NUEVO: Añade o quita un objeto de la selección actual (Shift/Ctrl + clic).
+   */
+  public toggleSelectionByUuid(uuid: string): void {
+    const next = this.selectedUuids.includes(uuid)
+      ? this.selectedUuids.filter(u => u !== uuid)
+      : [...this.selectedUuids, uuid];
+    this.setSelectionByUuids(next);
+  }
+
+  /**
+   * ✨ NUEVO: Establece la selección completa. Con más de un objeto se crea un pivote compartido
+   * en el centroide, al que se enganchan el gizmo y el arrastre para transformar el grupo.
+   * `onObjectSelected$` sigue emitiendo el objeto principal (el último añadido).
+   */
+  public setSelectionByUuids(uuids: string[]): void {
+    const nextUuids = [...new Set(uuids)];
+    if (nextUuids.length === this.selectedUuids.length && nextUuids.every((u, i) => u === this.selectedUuids[i])) return;
+
+    this.clearActiveSelection();
+    this.selectedUuids = nextUuids;
+
+    if (nextUuids.length === 1) {
+      const [uuid] = nextUuids;
+      this.entityManager.selectObjectByUuid(uuid, this.focusPivot);
+      this.selectedObject = this.entityManager.getObjectByUuid(uuid) ?? this.sceneManager.scene.getObjectByName('SelectionProxy');
+      if (this.selectedObject) {
+        this.selectionManager.setSelectedObjects([this.selectedObject]);
+      }
+    } else if (nextUuids.length > 1) {
+      const members: GroupMember[] = [];
+      nextUuids.forEach(uuid => {
+        const object = this.entityManager.getObjectByUuid(uuid);
+        if (object) {
+          members.push({ uuid, object });
+          return;
+        }
+        const instance = this.entityManager._findCelestialInstance(uuid);
+        if (instance) {
+          members.push({ uuid, instance, proxy: this.entityManager.createGroupSelectionProxy(instance) });
+        }
+      });
+
+      this.selectedObject = this.groupTransformManager.setMembers(members);
+      this.focusPivot.position.copy(this.selectedObject.position);
+      this.selectionManager.setSelectedObjects(members.map(member => member.proxy ?? member.object!));
+    }
 
-    if (currentUuid && currentUuid !== uuid) {
-      this.labelManager.hideLabel(currentUuid);
+    if (this.selectedObject) {
+      this.interactionService.setSelectedObject(this.selectedObject);
+      this.interactionService.setToolMode(this.controlsManager.getCurrentToolMode());
+      nextUuids.forEach(uuid => this.labelManager.showLabel(uuid));
     }
 
+    this.onObjectSelected$.next(nextUuids.length > 0 ? nextUuids[nextUuids.length - 1] : null);
+    this.selectionChangedSubject.next([...nextUuids]);
+  }
+
+  public getSelectedUuids = (): string[] => [...this.selectedUuids];
+
+  /**
+   * Devuelve la transformación actual de cada miembro de la selección múltiple, lista para persistir.
+   */
+  public getGroupTransforms = (): ObjectTransform[] => this.groupTransformManager.isActive() ? this.groupTransformManager.getMemberTransforms() : [];
+
+  private clearActiveSelection(): void {
+    this.selectedUuids.forEach(uuid => this.labelManager.hideLabel(uuid));
+
     this.selectionManager.setSelectedObjects([]);
     this.interactionHelperManager.cleanupHelpers(this.selectedObject);
     this.dragInteractionManager.stopListening();
@@ -262,19 +391,10 @@ export class EngineService implements OnDestroy {
     this.interactionService.setSelectedObject(undefined);
     this.interactionService.setToolMode('select');
 
-    this.entityManager.selectObjectByUuid(uuid, this.focusPivot);
-
-    if (uuid) {
-      this.selectedObject = this.entityManager.getObjectByUuid(uuid) ?? this.sceneManager.scene.getObjectByName('SelectionProxy');
-      if (this.selectedObject) {
-        this.interactionService.setSelectedObject(this.selectedObject);
-        this.selectionManager.setSelectedObjects([this.selectedObject]);
-        this.interactionService.setToolMode(this.controlsManager.getCurrentToolMode());
-        this.labelManager.showLabel(uuid);
-      }
-    }
-
-    this.onObjectSelected$.next(uuid);
+    this.entityManager.selectObjectByUuid(null, this.focusPivot);
+    this.entityManager.clearGroupSelectionProxies();
+    this.groupTransformManager.clear();
+    this.selectedUuids = [];
   }
 
   public setToolMode(mode: ToolMode): void {
@@ -305,8 +425,128 @@ export class EngineService implements OnDestroy {
 
     this.eventManager.keyDown$.subscribe(this.onKeyDown);
     this.eventManager.canvasMouseDown$.subscribe(this.onCanvasMouseDown);
+    this.boxSelectionManager.onBoxSelect$.subscribe(this.onBoxSelect);
+    this.gameModeSubscription = this.gameStateService.getMode().subscribe(this.applyGameMode);
+  }
+
+  /**
+   * ✨ NUEVO: Reconfigura el motor para el modo editor o el modo juego, sin recargar la página.
+   * En modo juego no hay selección múltiple, gizmos, `TransformControls` ni ayudantes del editor;
+   * solo la navegación en perspectiva con la cámara del editor, y la física se simula siempre.
+   */
+  private applyGameMode = (mode: GameMode): void => {
+    const isPlayMode = mode === GameMode.PLAY;
+    if (isPlayMode === this.isPlayMode) return;
+    this.isPlayMode = isPlayMode;
+
+    this.setSelectionByUuids([]);
+    this.cameraPathManager.stop();
+    this.setPhysicsSimulation(isPlayMode);
+    this.updateEditingLock();
+    this.setEditorObjectsVisible(!isPlayMode);
+
+    if (isPlayMode) {
+      // La vista del jugador la coloca después `applyPlayerStart`.
+      this.switchToEditorPerspectiveCamera();
+      this.controlsManager.enableNavigation();
+    }
+    console.log(`[EngineService] Modo ${GameMode[mode]} aplicado.`);
+  };
+
+  /**
+   * Vuelve a la cámara del editor en perspectiva sin restaurar la vista anterior:
+   * quien llama coloca la cámara justo después.
+   */
+  private switchToEditorPerspectiveCamera(): void {
+    if (this.cameraManager.activeCameraType === 'secondary') this.cameraManager.toggleActiveCamera();
+    if (this.cameraManager.cameraMode$.getValue() === 'orthographic') {
+      this.lastPerspectiveCameraState = null;
+      this.toggleCameraMode();
+    }
+  }
+
+  /**
+   * ✨ NUEVO: Reproduce un recorrido de cámara con la cámara del editor en perspectiva.
+   * @param onEnd Se llama al terminar o al detenerlo.
+   */
+  public playCameraPath(path: CameraPathResponse, onEnd?: () => void): void {
+    this.cameraManager.cancelAnimation();
+    this.switchToEditorPerspectiveCamera();
+    this.cameraPathManager.play(path, onEnd);
+  }
+
+  public stopCameraPath(): void {
+    this.cameraPathManager.stop();
+  }
+
+  /**
+   * Muestra el fotograma del instante `time` de unos keyframes (vista previa del timeline).
+   */
+  public previewCameraPathAt(keyframes: CameraPathKeyframe[], time: number): void {
+    if (this.cameraPathManager.isPlaying) return;
+    this.cameraManager.cancelAnimation();
+    this.switchToEditorPerspectiveCamera();
+    this.cameraPathManager.seek(keyframes, time);
+    this.cameraPositionSubject.next(this.sceneManager.activeCamera.position);
+  }
+
+  /**
+   * Keyframe con la vista actual de la cámara, para grabarlo en un recorrido.
+   */
+  public getCameraKeyframe(time: number): CameraPathKeyframe {
+    const camera = this.sceneManager.activeCamera;
+    const target = this.controlsManager.getControls().target;
+    return {
+      time,
+      position: { x: camera.position.x, y: camera.position.y, z: camera.position.z },
+      target: { x: target.x, y: target.y, z: target.z },
+      fov: camera instanceof THREE.PerspectiveCamera ? camera.fov : this.sceneManager.editorCamera.fov
+    };
+  }
+
+  /**
+   * ✨ NUEVO: Activa o detiene la simulación física de las primitivas. Al detenerla, los objetos vuelven
+   * a la transformación guardada. Mientras simula no se pueden transformar objetos (el gizmo pelearía con la física).
+   */
+  public setPhysicsSimulation(enabled: boolean): void {
+    if (enabled === this.physicsManager.isRunning) return;
+    if (enabled) {
+      this.physicsManager.start(this.sceneManager.scene);
+    } else {
+      this.physicsManager.stop();
+    }
+    this.updateEditingLock();
+  }
+
+  public resetPhysicsSimulation(): void {
+    this.physicsManager.reset();
+  }
+
+  private updateEditingLock(): void {
+    this.interactionService.setEditingLocked(this.isPlayMode || this.physicsManager.isRunning);
   }
 
+  /**
+   * Oculta (o vuelve a mostrar) los ayudantes de cámaras y luces y la rejilla del editor.
+   */
+  private setEditorObjectsVisible(visible: boolean): void {
+    if (visible) {
+      this.hiddenEditorObjects.forEach((wasVisible, object) => object.visible = wasVisible);
+      this.hiddenEditorObjects.clear();
+      return;
+    }
+    this.sceneManager.scene.children.forEach(object => {
+      if (!object.name.endsWith('_helper') && object.name !== 'EditorGrid') return;
+      if (!this.hiddenEditorObjects.has(object)) this.hiddenEditorObjects.set(object, object.visible);
+      object.visible = false;
+    });
+  }
+
+  private onBoxSelect = (box: BoxSelection) => {
+    const uuids = this.entityManager.getUuidsInScreenRect(this.sceneManager.activeCamera, box.min, box.max);
+    this.setSelectionByUuids(box.additive ? [...this.selectedUuids, ...uuids] : uuids);
+  };
+
   private precompileShaders(): void {
     const dummyGeometry = new THREE.BoxGeometry(0.001, 0.001, 0.001);
     const dummyMaterial = new THREE.MeshBasicMaterial({ transparent: true, opacity: 0 });
@@ -323,6 +563,13 @@ export class EngineService implements OnDestroy {
 
   public populateScene(objects: SceneObjectResponse[], onProgress: (p: number) => void, onLoaded: () => void): void {
     if (!this.sceneManager.scene) return;
+    // Al repoblar (ej. cambio de escena) la selección anterior deja de existir.
+    if (this.selectedUuids.length > 0) this.setSelectionByUuids([]);
+    // Los cuerpos físicos pertenecen a los objetos que se van a borrar; se recrean al terminar la carga.
+    const wasSimulating = this.physicsManager.isRunning;
+    this.physicsManager.stop();
+    this.videoManager.clear();
+    this.audioManager.clear();
     this.entityManager.clearScene();
     this.dynamicCelestialModels = [];
 
@@ -330,12 +577,7 @@ export class EngineService implements OnDestroy {
     const individualObjects: SceneObjectResponse[] = [];
 
     for (const obj of objects) {
-      const isWmtsPlanet = obj.asset?.path.includes('{TileMatrix}');
-      const isGltfModel = obj.asset?.type === 'model_glb';
-      const isStandardPrimitive = ['cube', 'sphere', 'cone', 'torus', 'floor'].includes(obj.type);
-      const isLightOrCamera = ['camera', 'directionalLight', 'ambientLight', 'pointLight'].includes(obj.type);
-
-      if (isWmtsPlanet || isGltfModel || isStandardPrimitive || isLightOrCamera) {
+      if (this.isIndividualObject(obj)) {
         individualObjects.push(obj);
       } else {
         objectsForInstancing.push(obj);
@@ -355,6 +597,9 @@ export class EngineService implements OnDestroy {
     const loadingManager = this.entityManager.getLoadingManager();
     loadingManager.onProgress = (_, loaded, total) => onProgress((loaded / total) * 100);
     loadingManager.onLoad = () => {
+      // Los ayudantes de los objetos recién creados tampoco se ven en modo juego.
+      if (this.isPlayMode) this.setEditorObjectsVisible(false);
+      if (wasSimulating) this.physicsManager.start(this.sceneManager.scene);
       this.sceneManager.renderer.compile(this.sceneManager.scene, this.sceneManager.activeCamera);
       onLoaded();
       this.entityManager.publishSceneEntities();
@@ -371,103 +616,15 @@ export class EngineService implements OnDestroy {
     }
   }
 
-  private updateVisibleCelestialInstances(instancedMesh: THREE.InstancedMesh, delta: number): void {
-    const allData: CelestialInstanceData[] = instancedMesh.userData['celestialData'];
-    if (!allData || allData.length === 0) return;
-
-    this.updateCameraFrustum();
-    let needsColorUpdate = false, needsMatrixUpdate = false;
-    const camera = this.sceneManager.activeCamera;
-    const isOrthographic = this.cameraManager.cameraMode$.getValue() === 'orthographic';
-
-    let visibilityFactor = 1.0, bloomDampeningFactor = 1.0;
-    if (isOrthographic && this.baseOrthoMatrixElement > 0) {
-      const orthoCam = camera as THREE.OrthographicCamera;
-      const zoomRatio = this.baseOrthoMatrixElement / orthoCam.projectionMatrix.elements[0];
-      visibilityFactor = Math.max(0.1, zoomRatio * ORTHO_ZOOM_VISIBILITY_MULTIPLIER);
-      bloomDampeningFactor = Math.min(1.0, ORTHO_ZOOM_BLOOM_DAMPENING_FACTOR / zoomRatio);
-    }
-
-    const totalInstances = allData.length;
-    const startIndex = (instancedMesh.userData['updateIndexCounter'] = (instancedMesh.userData['updateIndexCounter'] || 0) % totalInstances);
-    const checkCount = Math.min(totalInstances, Math.ceil(INSTANCES_TO_CHECK_PER_FRAME / 5));
-
-    for (let i = 0; i < checkCount; i++) {
-      const idx = (startIndex + i) % totalInstances;
-      const data = allData[idx];
-      if (data.isManuallyHidden) continue;
-
-      const personalVisibilityDist = Math.min(BASE_VISIBILITY_DISTANCE * data.luminosity, MAX_PERCEPTUAL_DISTANCE) * visibilityFactor * (isOrthographic ? 1.0 : PERSPECTIVE_VISIBILITY_MULTIPLIER);
-      const shouldBeVisible = this._isInstanceVisible(data, camera, personalVisibilityDist);
-      const targetIntensity = shouldBeVisible ? this._calculateInstanceIntensity(data, camera, isOrthographic, bloomDampeningFactor, personalVisibilityDist) : 0.0;
-
-      const fadeSpeed = targetIntensity > data.currentIntensity ? FADE_IN_SPEED : FADE_OUT_SPEED;
-      data.currentIntensity = THREE.MathUtils.lerp(data.currentIntensity, targetIntensity, 1.0 - Math.exp(-fadeSpeed * delta));
-
-      if (data.currentIntensity < 0.001) {
-        data.currentIntensity = 0.0;
-      }
-
-      if (data.currentIntensity > 0) {
-        const rotation = isOrthographic ? this.orthoBillboardRotation : camera.quaternion;
-        this.tempMatrix.compose(data.position, rotation, this.tempScale.copy(data.scale).multiplyScalar(DEEP_SPACE_SCALE_BOOST));
-        instancedMesh.setMatrixAt(idx, this.tempMatrix);
-        needsMatrixUpdate = true;
-      }
-
-      instancedMesh.setColorAt(idx, this.tempColor.copy(data.originalColor).multiplyScalar(data.currentIntensity));
-      needsColorUpdate = true;
-    }
-
-    instancedMesh.userData['updateIndexCounter'] += checkCount;
-    if (needsColorUpdate && instancedMesh.instanceColor) instancedMesh.instanceColor.needsUpdate = true;
-    if (needsMatrixUpdate) instancedMesh.instanceMatrix.needsUpdate = true;
-  }
-
-  private _isInstanceVisible(data: CelestialInstanceData, camera: THREE.Camera, personalVisibilityDist: number): boolean {
-    this.boundingSphere.center.copy(data.position);
-    this.boundingSphere.radius = Math.max(data.scale.x, data.scale.y, data.scale.z) * DEEP_SPACE_SCALE_BOOST;
-    if (!this.frustum.intersectsSphere(this.boundingSphere)) return false;
-
-    if (this.cameraManager.cameraMode$.getValue() === 'orthographic') {
-      return true;
-    }
-
-    const distance = data.position.distanceTo(camera.position);
-
-    if (data.currentIntensity > 0) {
-      return distance <= (personalVisibilityDist * VISIBILITY_HYSTERESIS_FACTOR);
-    } else {
-      return distance <= personalVisibilityDist;
-    }
-  }
-
-  private _calculateInstanceIntensity(data: CelestialInstanceData, camera: THREE.Camera, isOrthographic: boolean, bloomDampeningFactor: number, personalVisibilityDist: number): number {
-    if (isOrthographic) {
-        const intensity = data.isDominant ? data.emissiveIntensity : (data.emissiveIntensity + data.baseEmissiveIntensity) / 2;
-        return Math.min(intensity, ORTHO_MAX_INTENSITY) * bloomDampeningFactor * data.brightness;
-    }
-
-    const distance = data.position.distanceTo(camera.position);
-    const maxScale = Math.max(data.scale.x, data.scale.y, data.scale.z);
-
-    const falloff = THREE.MathUtils.clamp(THREE.MathUtils.inverseLerp(maxScale * 80.0, maxScale * 10.0, distance), 0.0, 1.0);
-    let finalIntensity = THREE.MathUtils.lerp(data.emissiveIntensity, data.baseEmissiveIntensity, falloff);
-
-    const proximityFade = THREE.MathUtils.smoothstep(distance, maxScale * 1.5, maxScale * 3.0);
-
-    const maxIntensity = isOrthographic ? ORTHO_MAX_INTENSITY : MAX_INTENSITY;
-    finalIntensity = Math.min(finalIntensity, maxIntensity) * bloomDampeningFactor * data.brightness * proximityFade;
-
-    if (!isOrthographic) {
-      const fogStartDistance = personalVisibilityDist * FOG_START_DISTANCE_MULTIPLIER;
-      if (distance > fogStartDistance) {
-        const fogFactor = THREE.MathUtils.inverseLerp(fogStartDistance, personalVisibilityDist, distance);
-        finalIntensity *= (1.0 - fogFactor * FOG_DENSITY);
-      }
-    }
-
-    return finalIntensity;
+  /**
+   * Indica si un objeto se crea como malla individual o como instancia de un `CelestialObjects_*`.
+   */
+  private isIndividualObject(obj: SceneObjectResponse): boolean {
+    const isWmtsPlanet = !!obj.asset?.path.includes('{TileMatrix}');
+    const isGltfModel = obj.asset?.type === 'model_glb';
+    const isStandardPrimitive = ['cube', 'sphere', 'cone', 'torus', 'floor'].includes(obj.type);
+    const isLightOrCamera = obj.type === 'camera' || LIGHT_OBJECT_TYPES.includes(obj.type);
+    return isWmtsPlanet || isGltfModel || isStandardPrimitive || isLightOrCamera || obj.type === 'video' || obj.type === 'sound';
   }
 
   private updateDynamicCelestialModels(delta: number): void {
@@ -498,7 +655,8 @@ export class EngineService implements OnDestroy {
       const targetIntensity = intensityAfterFalloff * proximityFadeFactor;
 
       model.traverse(child => {
-        if (child instanceof THREE.Mesh) {
+        // Las sub-mallas con material editado conservan la intensidad emisiva elegida en el panel.
+        if (child instanceof THREE.Mesh && !child.userData['hasMaterialOverride']) {
           const material = child.material as THREE.MeshStandardMaterial;
           if (material && material.emissiveIntensity !== undefined) {
             material.emissiveIntensity = THREE.MathUtils.lerp(material.emissiveIntensity, targetIntensity, 5.0 * delta);
@@ -551,10 +709,240 @@ export class EngineService implements OnDestroy {
     this.cameraManager.switchToPerspectiveView();
   }
 
+  /**
+   * ✨ NUEVO: Posición y objetivo actuales de la cámara del editor, para guardarlos como inicio de una escena.
+   */
+  public getCameraStart(): SceneCameraStart {
+    const { position } = this.sceneManager.editorCamera;
+    const { target } = this.controlsManager.getControls();
+    return {
+      position: { x: position.x, y: position.y, z: position.z },
+      target: { x: target.x, y: target.y, z: target.z }
+    };
+  }
+
+  /**
+   * ✨ NUEVO: Coloca la cámara del editor en el inicio de una escena. Sin inicio guardado, encuadra la escena.
+   */
+  public applyCameraStart(start: SceneCameraStart | null): void {
+    if (this.cameraManager.cameraMode$.getValue() === 'orthographic') {
+      // Se descarta la vista en perspectiva guardada para que no sobrescriba el inicio de la escena.
+      this.lastPerspectiveCameraState = null;
+      this.toggleCameraMode();
+    }
+    if (!start) {
+      this.frameScene();
+      return;
+    }
+    const controls = this.controlsManager.getControls();
+    this.sceneManager.editorCamera.position.set(start.position.x, start.position.y, start.position.z);
+    controls.target.set(start.target.x, start.target.y, start.target.z);
+    controls.update();
+    this.cameraPositionSubject.next(this.sceneManager.editorCamera.position);
+  }
+
+  /**
+   * ✨ NUEVO: Coloca al jugador en la cámara designada de la escena, mirando hacia donde mira ella.
+   * Si la cámara no existe, usa el inicio guardado de la escena (o encuadra la escena).
+   */
+  public applyPlayerStart(cameraUuid: string | null, fallback: SceneCameraStart | null): void {
+    const camera = cameraUuid ? this.entityManager.getObjectByUuid(cameraUuid) : undefined;
+    if (!camera) {
+      this.applyCameraStart(fallback);
+      return;
+    }
+    camera.updateMatrixWorld(true);
+    const position = camera.getWorldPosition(new THREE.Vector3());
+    const target = camera.getWorldDirection(new THREE.Vector3()).multiplyScalar(PLAYER_START_TARGET_DISTANCE).add(position);
+    this.applyCameraStart({
+      position: { x: position.x, y: position.y, z: position.z },
+      target: { x: target.x, y: target.y, z: target.z }
+    });
+  }
+
+  /**
+   * ✨ NUEVO: Punto del mundo bajo unas coordenadas de pantalla (ej. al soltar un asset en el visor).
+   * Usa la superficie del primer objeto del episodio alcanzado; si no hay, el suelo (y = 0) o un punto delante de la cámara.
+   */
+  public getWorldPointAt(clientX: number, clientY: number): THREE.Vector3 {
+    const rect = this.sceneManager.canvas.getBoundingClientRect();
+    const ndc = new THREE.Vector2(((clientX - rect.left) / rect.width) * 2 - 1, -((clientY - rect.top) / rect.height) * 2 + 1);
+    const camera = this.sceneManager.activeCamera;
+    this.dropRaycaster.setFromCamera(ndc, camera);
+
+    const isEpisodeObject = (object: THREE.Object3D | null): boolean => {
+      for (let current = object; current; current = current.parent) {
+        if (current.userData['apiType']) return true;
+      }
+      return false;
+    };
+    const hit = this.dropRaycaster.intersectObjects(this.sceneManager.scene.children, true).find(i => isEpisodeObject(i.object));
+    if (hit) return hit.point.clone();
+
+    const focusDistance = camera.position.distanceTo(this.controlsManager.getControls().target) || 10;
+    const groundPoint = this.dropRaycaster.ray.intersectPlane(this.groundPlane, new THREE.Vector3());
+    if (groundPoint && groundPoint.distanceTo(camera.position) < focusDistance * 10) return groundPoint;
+    return this.dropRaycaster.ray.at(focusDistance, new THREE.Vector3());
+  }
+
+  public applySceneEnvironment(settings: SceneEnvironmentSettings | null): void {
+    this.sceneManager.applyEnvironmentSettings(settings);
+    this.lightManager.applyGlobalLightSettings(this.sceneManager.scene, settings);
+  }
+
+  /**
+   * ✨ NUEVO: Ajustes de renderizado del episodio. Sin ajustes guardados se usan los de por defecto.
+   */
+  public applyRenderSettings(settings: EpisodeRenderSettings | null): void {
+    const resolved = { ...DEFAULT_RENDER_SETTINGS, ...settings };
+    this.sceneManager.applyRenderSettings(resolved);
+    this.selectionManager.setOutlineColors(resolved.selectionOutlineColor, resolved.hoverOutlineColor);
+  }
+
   public updateObjectName = (uuid: string, newName: string) => this.entityManager.updateObjectName(uuid, newName);
+
+  /**
+   * ✨ NUEVO: Sincroniza las `properties` del objeto 3D (ej. masa o fricción); la física las lee al iniciar la simulación.
+   * Los materiales editados y las propiedades de las luces, los vídeos y los sonidos se aplican al momento.
+   */
+  public updateObjectProperties(uuid: string, properties: SceneObjectResponse['properties']): void {
+    const object = this.entityManager.getObjectByUuid(uuid);
+    if (!object) return;
+    object.userData['properties'] = properties || {};
+    this.materialManager.applyOverrides(object, properties);
+    if (object instanceof THREE.Light) this.lightManager.applyLightProperties(object, object.userData['apiType'], properties);
+    if (object.userData['apiType'] === 'video') this.videoManager.applySettings(uuid, properties);
+    if (object.userData['apiType'] === 'sound') this.audioManager.applySettings(uuid, properties);
+  }
+
+  /**
+   * ✨ NUEVO: Controles de reproducción de las pantallas de vídeo. Una pantalla en reproducción
+   * se pausa sola mientras está fuera de la vista y se reanuda al volver.
+   */
+  public watchVideoState = (uuid: string): Observable<VideoPlaybackState | null> => this.videoManager.watchState(uuid);
+  public setVideoPlaying = (uuid: string, playing: boolean): void => this.videoManager.setPlaying(uuid, playing);
+  public restartVideo = (uuid: string): void => this.videoManager.restart(uuid);
+
+  /**
+   * ✨ NUEVO: Sonido de la escena. Silenciar afecta a todas las fuentes a la vez (el oyente de la cámara).
+   */
+  public playSound = (uuid: string): void => this.audioManager.play(uuid);
+  public setAudioMuted = (muted: boolean): void => this.audioManager.setMuted(muted);
+
+  /**
+   * ✨ NUEVO: Mallas con material editable del objeto (una en las primitivas, una por sub-malla en los GLB).
+   * Vacío si el objeto no existe o su modelo aún no ha terminado de cargar.
+   */
+  public getMaterialSlots(uuid: string): MaterialSlot[] {
+    const object = this.entityManager.getObjectByUuid(uuid);
+    return object ? this.materialManager.getSlots(object) : [];
+  }
   public setGroupVisibility = (uuids: string[], visible: boolean): void => this.entityManager.setGroupVisibility(uuids, visible);
   public setGroupBrightness = (uuids: string[], brightness: number): void => this.entityManager.setGroupBrightness(uuids, brightness);
-  public addObjectToScene = (objData: SceneObjectResponse) => this.entityManager.createObjectFromData(objData);
+  public addObjectToScene = (objData: SceneObjectResponse): void => {
+    if (this.isIndividualObject(objData)) {
+      const object = this.entityManager.createObjectFromData(objData);
+      if (object) this.physicsManager.addObject(object);
+    } else {
+      this.entityManager.addCelestialInstance(objData);
+    }
+  };
+
+  /**
+   * ✨ NUEVO: Quita objetos de la escena (borrado suave). Si estaban seleccionados, salen antes de la selección.
+   */
+  public removeObjectsFromScene(uuids: string[]): void {
+    const remaining = this.selectedUuids.filter(uuid => !uuids.includes(uuid));
+    if (remaining.length !== this.selectedUuids.length) this.setSelectionByUuids(remaining);
+
+    uuids.forEach(uuid => {
+      this.physicsManager.removeObject(uuid);
+      this.videoManager.removeVideo(uuid);
+      this.audioManager.removeSound(uuid);
+      this.entityManager.removeObjectByUuid(uuid);
+    });
+    this.dynamicCelestialModels = this.dynamicCelestialModels.filter(model => !uuids.includes(model.uuid));
+  }
+
+  /**
+   * ✨ NUEVO: Exporta la escena actual a GLB (sin objetos del editor), con las instancias celestiales horneadas.
+   * @param sceneObjects Datos de la API; si se pasan, sus `properties` y `galaxyData` se guardan como `extras`.
+   */
+  public exportSceneToGlb(sceneObjects?: SceneObjectResponse[]): Promise<ArrayBuffer> {
+    return this.gltfExportManager.exportGlb(this.sceneManager.scene, {
+      includeExtras: !!sceneObjects,
+      sceneObjects,
+      celestialScaleBoost: DEEP_SPACE_SCALE_BOOST
+    });
+  }
+
+  /**
+   * ✨ NUEVO: Captura la vista de la cámara activa como PNG, sin ayudantes, rejilla ni contornos de selección.
+   * La captura es síncrona: el bucle de animación vuelve a pintar la vista normal en el siguiente fotograma.
+   */
+  public captureScreenshot(options: ScreenshotOptions): Promise<Blob> {
+    const previousClearAlpha = this.sceneManager.renderer.getClearAlpha();
+    const restoreEditorView = this.hideEditorOverlays();
+    if (options.transparentBackground) this.sceneManager.renderer.setClearAlpha(0);
+
+    let canvas: HTMLCanvasElement;
+    try {
+      canvas = this.screenshotManager.capture(options, () => this.renderSceneWithSelectiveBloom(options.transparentBackground));
+    } finally {
+      this.sceneManager.renderer.setClearAlpha(previousClearAlpha);
+      restoreEditorView();
+    }
+
+    return new Promise((resolve, reject) => canvas.toBlob(blob => {
+      if (blob) resolve(blob);
+      else reject(new Error('No se pudo codificar la captura como PNG.'));
+    }, 'image/png'));
+  }
+
+  /**
+   * ✨ NUEVO: Graba la vista en WebM, sin ayudantes ni contornos de selección. Con un recorrido, lo reproduce
+   * desde el principio al empezar a grabar; su duración la decide quien llama (normalmente, la del recorrido).
+   * Al terminar la grabación (o al detenerla antes) se detiene también ese recorrido.
+   */
+  public startRecording(options: RecordingOptions, path?: CameraPathResponse): Promise<Blob> {
+    if (path) this.playCameraPath(path);
+    const restoreEditorView = this.hideEditorOverlays();
+    return this.videoRecorder.start(options, delta => this.updateAndRender(delta))
+      .finally(() => {
+        if (path) this.stopCameraPath();
+        restoreEditorView();
+      });
+  }
+
+  public stopRecording(): void {
+    this.videoRecorder.stop();
+  }
+
+  public isRecordingSupported(): boolean {
+    return this.videoRecorder.isSupported();
+  }
+
+  /**
+   * Oculta ayudantes, rejilla y contornos de selección para capturar o grabar la vista.
+   * Devuelve la función que los vuelve a mostrar como estaban.
+   */
+  private hideEditorOverlays(): () => void {
+    const outlinePasses = this.selectionManager.getPasses().map(pass => ({ pass, enabled: pass.enabled }));
+    if (!this.isPlayMode) this.setEditorObjectsVisible(false);
+    this.interactionHelperManager.setHelpersVisible(false);
+    outlinePasses.forEach(({ pass }) => pass.enabled = false);
+    return () => {
+      outlinePasses.forEach(({ pass, enabled }) => pass.enabled = enabled);
+      this.interactionHelperManager.setHelpersVisible(true);
+      if (!this.isPlayMode) this.setEditorObjectsVisible(true);
+    };
+  }
+
+  public getCanvasSize(): { width: number; height: number } {
+    const size = this.sceneManager.renderer.getSize(new THREE.Vector2());
+    return { width: size.x, height: size.y };
+  }
+
   public getSceneEntities = (): Observable<SceneEntity[]> => this.entityManager.getSceneEntities();
   public getGizmoAttachedObject = (): THREE.Object3D | undefined => this.selectedObject;
   
@@ -567,9 +955,10 @@ export class EngineService implements OnDestroy {
 
   public updateObjectTransform = (uuid: string, path: 'position' | 'rotation' | 'scale', value: { x: number; y: number; z: number; }) => {
     const standardObject = this.entityManager.getObjectByUuid(uuid);
-    if (standardObject && standardObject.name !== 'SelectionProxy') {
+    if (standardObject && !['SelectionProxy', 'GroupSelectionProxy'].includes(standardObject.name)) {
       standardObject[path].set(value.x, value.y, value.z);
       if (path === 'position') this.interactionHelperManager.updateHelperPositions(standardObject);
+      if (this.groupTransformManager.hasMember(uuid)) this.groupTransformManager.recomputeOffsets();
       return;
     }
 
@@ -586,40 +975,34 @@ export class EngineService implements OnDestroy {
       }
 
       data.originalMatrix.compose(data.position, tempQuaternion, tempScale);
-      mesh.setMatrixAt(instanceIndex, data.originalMatrix);
-      mesh.instanceMatrix.needsUpdate = true;
+      this.celestialInstances.writeInstance(mesh, instanceIndex, data);
 
       const selectionProxy = this.sceneManager.scene.getObjectByName('SelectionProxy');
       if (selectionProxy && selectionProxy.uuid === uuid) {
         selectionProxy.position.copy(data.position);
         selectionProxy.scale.copy(data.scale).multiplyScalar(DEEP_SPACE_SCALE_BOOST);
       }
+      if (this.groupTransformManager.hasMember(uuid)) this.groupTransformManager.recomputeOffsets();
     }
   };
 
   private handleTransformEnd = () => {
     if (!this.selectedObject) return;
 
-    if (this.selectedObject.name === 'SelectionProxy') {
+    if (this.groupTransformManager.isActive()) {
+      this.groupTransformManager.update();
+    } else if (this.selectedObject.name === 'SelectionProxy') {
       const instanceInfo = this.entityManager._findCelestialInstance(this.selectedObject.uuid);
       if (instanceInfo) {
         const { mesh, instanceIndex, data } = instanceInfo;
         data.originalMatrix.compose(this.selectedObject.position, this.selectedObject.quaternion, this.selectedObject.scale);
         data.position.copy(this.selectedObject.position);
-        mesh.setMatrixAt(instanceIndex, data.originalMatrix);
-        mesh.instanceMatrix.needsUpdate = true;
+        this.celestialInstances.writeInstance(mesh, instanceIndex, data);
       }
     }
 
     this.transformEndSubject.next();
   };
 
-  private updateCameraFrustum(): void {
-    const camera = this.sceneManager.activeCamera;
-    camera.updateMatrixWorld();
-    this.projScreenMatrix.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
-    this.frustum.setFromProjectionMatrix(this.projScreenMatrix);
-  }
-
   private onControlsChange = () => this.interactionHelperManager.updateScale();
 }
\ No newline at end of file
@@ -9,6 +9,7 @@ export const CELESTIAL_MESH_PREFIX = 'CelestialObjects_';
  */
 export const UNSELECTABLE_NAMES = [
   'Luz Ambiental',
+  'GlobalDirectionalLight',
   'EditorGrid',
   'SelectionProxy',
   'HoverProxy',
@@ -0,0 +1,157 @@
+import * as THREE from 'three';
+import { InstanceOctree, OctreeItem } from './instance-octree';
+
+/** Generador congruencial con semilla, para que los casos aleatorios sean siempre los mismos. */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+function createItems(count: number, random: () => number, extent = 1000): OctreeItem[] {
+  return Array.from({ length: count }, (_, id) => ({
+    id,
+    center: new THREE.Vector3((random() - 0.5) * extent, (random() - 0.5) * extent, (random() - 0.5) * extent),
+    radius: 0.5 + random() * 10
+  }));
+}
+
+const sortIds = (ids: number[]) => [...ids].sort((a, b) => a - b);
+
+function bruteRadius(items: OctreeItem[], center: THREE.Vector3, radius: number): number[] {
+  return items.filter(item => item.center.distanceTo(center) <= radius + item.radius).map(item => item.id);
+}
+
+function bruteFrustum(items: OctreeItem[], frustum: THREE.Frustum): number[] {
+  return items.filter(item => frustum.intersectsSphere(new THREE.Sphere(item.center, item.radius))).map(item => item.id);
+}
+
+function bruteRaycast(items: OctreeItem[], ray: THREE.Ray, far: number): { id: number; distance: number }[] {
+  const point = new THREE.Vector3();
+  return items
+    .filter(item => ray.intersectSphere(new THREE.Sphere(item.center, item.radius), point) && ray.origin.distanceTo(point) <= far)
+    .map(item => ({ id: item.id, distance: ray.origin.distanceTo(ray.intersectSphere(new THREE.Sphere(item.center, item.radius), point)!) }))
+    .sort((a, b) => a.distance - b.distance);
+}
+
+function bruteNearest(items: OctreeItem[], point: THREE.Vector3, k: number): { id: number; distance: number }[] {
+  return items
+    .map(item => ({ id: item.id, distance: item.center.distanceTo(point) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, k);
+}
+
+describe('InstanceOctree', () => {
+  let random: () => number;
+  let items: OctreeItem[];
+  let octree: InstanceOctree;
+
+  beforeEach(() => {
+    random = createRandom(42);
+    items = createItems(500, random);
+    octree = new InstanceOctree();
+    octree.build(items);
+  });
+
+  it('should index every item on build', () => {
+    expect(octree.size).toBe(items.length);
+    expect(sortIds(octree.queryRadius(new THREE.Vector3(), 1e6))).toEqual(items.map(item => item.id));
+  });
+
+  it('should answer radius queries like a brute-force scan', () => {
+    for (let i = 0; i < 20; i++) {
+      const center = createItems(1, random)[0].center;
+      const radius = random() * 200;
+      expect(sortIds(octree.queryRadius(center, radius))).toEqual(bruteRadius(items, center, radius));
+    }
+  });
+
+  it('should answer frustum queries like a brute-force scan', () => {
+    const camera = new THREE.PerspectiveCamera(50, 1.5, 1, 800);
+    for (let i = 0; i < 10; i++) {
+      camera.position.copy(createItems(1, random)[0].center);
+      camera.lookAt(createItems(1, random)[0].center);
+      camera.updateMatrixWorld();
+      const frustum = new THREE.Frustum().setFromProjectionMatrix(
+        new THREE.Matrix4().multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse)
+      );
+      expect(sortIds(octree.queryFrustum(frustum))).toEqual(bruteFrustum(items, frustum));
+    }
+  });
+
+  it('should return the same ray hits as a brute-force scan, nearest first', () => {
+    for (let i = 0; i < 20; i++) {
+      const origin = createItems(1, random)[0].center;
+      const direction = createItems(1, random)[0].center.sub(origin).normalize();
+      const ray = new THREE.Ray(origin, direction);
+      const far = i % 2 === 0 ? Infinity : 400;
+
+      const hits = octree.raycast(ray, far);
+      const expected = bruteRaycast(items, ray, far);
+      expect(hits.map(hit => hit.id)).toEqual(expected.map(hit => hit.id));
+      hits.forEach((hit, index) => expect(hit.distance).toBeCloseTo(expected[index].distance, 6));
+    }
+  });
+
+  it('should return the k nearest items like a brute-force scan', () => {
+    [1, 5, 32].forEach(k => {
+      const point = createItems(1, random)[0].center;
+      const nearest = octree.queryNearest(point, k);
+      const expected = bruteNearest(items, point, k);
+      expect(nearest.map(hit => hit.distance)).toEqual(expected.map(hit => hit.distance));
+      expect(nearest.map(hit => hit.id)).toEqual(expected.map(hit => hit.id));
+    });
+  });
+
+  it('should return no neighbours for k = 0 or an empty index', () => {
+    expect(octree.queryNearest(new THREE.Vector3(), 0)).toEqual([]);
+    expect(new InstanceOctree().queryNearest(new THREE.Vector3(), 3)).toEqual([]);
+  });
+
+  it('should keep matching the brute-force scan after inserts, moves and removals', () => {
+    const added = createItems(50, random).map(item => ({ ...item, id: item.id + items.length }));
+    added.forEach(item => octree.set(item.id, item.center, item.radius));
+    items.push(...added);
+
+    // Movimientos dentro de la raíz y uno muy lejos, que obliga a reconstruirla.
+    for (let i = 0; i < 100; i++) {
+      const item = items[Math.floor(random() * items.length)];
+      item.center = createItems(1, random)[0].center;
+      item.radius = 0.5 + random() * 10;
+      octree.set(item.id, item.center, item.radius);
+    }
+    const farItem = items[0];
+    farItem.center = new THREE.Vector3(1e7, -1e7, 5e6);
+    octree.set(farItem.id, farItem.center, farItem.radius);
+
+    for (let i = 0; i < 60; i++) {
+      const [removed] = items.splice(Math.floor(random() * items.length), 1);
+      octree.remove(removed.id);
+    }
+
+    expect(octree.size).toBe(items.length);
+    expect(sortIds(octree.queryRadius(new THREE.Vector3(), 1e9))).toEqual(sortIds(items.map(item => item.id)));
+    for (let i = 0; i < 10; i++) {
+      const center = createItems(1, random)[0].center;
+      const radius = random() * 300;
+      expect(sortIds(octree.queryRadius(center, radius))).toEqual(sortIds(bruteRadius(items, center, radius)));
+    }
+    expect(octree.queryNearest(farItem.center, 1)[0].id).toBe(farItem.id);
+    const point = createItems(1, random)[0].center;
+    expect(octree.queryNearest(point, 10).map(hit => hit.id)).toEqual(bruteNearest(items, point, 10).map(hit => hit.id));
+  });
+
+  it('should not copy positions by reference', () => {
+    const center = new THREE.Vector3(1, 2, 3);
+    octree.set(1000, center, 1);
+    center.set(5000, 5000, 5000);
+    expect(octree.queryRadius(new THREE.Vector3(1, 2, 3), 0)).toContain(1000);
+  });
+
+  it('should ignore removals of unknown ids', () => {
+    octree.remove(-1);
+    expect(octree.size).toBe(items.length);
+  });
+});
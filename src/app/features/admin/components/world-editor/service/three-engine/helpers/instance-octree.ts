@@ -0,0 +1,251 @@
+// src/app/features/admin/components/world-editor/service/three-engine/helpers/instance-octree.ts
+
+import * as THREE from 'three';
+
+/**
+ * @interface OctreeItem
+ * @description Un elemento del índice: su identificador (el índice de la instancia) y la esfera que ocupa.
+ */
+export interface OctreeItem {
+  id: number;
+  center: THREE.Vector3;
+  radius: number;
+}
+
+/**
+ * @interface OctreeRayHit
+ * @description Elemento atravesado por un rayo, con el punto donde el rayo entra en su esfera.
+ */
+export interface OctreeRayHit {
+  id: number;
+  distance: number;
+  point: THREE.Vector3;
+}
+
+interface OctreeEntry extends OctreeItem {
+  node: OctreeNode | null;
+}
+
+interface OctreeNode {
+  box: THREE.Box3;
+  depth: number;
+  entries: OctreeEntry[];
+  children: OctreeNode[] | null;
+}
+
+const MAX_ENTRIES_PER_NODE = 16;
+const MAX_DEPTH = 24;
+/** Margen con el que se reconstruye la raíz cuando un elemento queda fuera, para no reconstruir a cada paso. */
+const ROOT_GROWTH_FACTOR = 2;
+
+/**
+ * @class InstanceOctree
+ * @description
+ * ✨ NUEVO: Octree de esferas para las instancias de un `InstancedMesh`. Cada elemento vive en el nodo más
+ * profundo que lo contiene entero, así que un nodo descartado descarta también todo lo que cuelga de él.
+ * Responde a consultas de rayo, frustum, radio y k vecinos más cercanos.
+ */
+export class InstanceOctree {
+  private root: OctreeNode | null = null;
+  private entries = new Map<number, OctreeEntry>();
+  private tempSphere = new THREE.Sphere();
+  private tempPoint = new THREE.Vector3();
+
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  /** Vacía el índice y lo vuelve a llenar; la raíz se ajusta a la caja de todos los elementos. */
+  public build(items: OctreeItem[]): void {
+    this.entries.clear();
+    this.root = null;
+    const box = new THREE.Box3();
+    items.forEach(item => this.expandBySphere(box, item));
+    if (box.isEmpty()) return;
+
+    this.root = this.createNode(this.toCube(box, 1), 0);
+    items.forEach(item => this.insert({ id: item.id, center: item.center.clone(), radius: item.radius, node: null }));
+  }
+
+  /** Añade un elemento o lo recoloca si ya estaba. No hace nada si no se ha movido. */
+  public set(id: number, center: THREE.Vector3, radius: number): void {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      this.insert({ id, center: center.clone(), radius, node: null });
+      return;
+    }
+    if (entry.center.equals(center) && entry.radius === radius) return;
+
+    this.detach(entry);
+    entry.center.copy(center);
+    entry.radius = radius;
+    this.insert(entry);
+  }
+
+  public remove(id: number): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    this.detach(entry);
+    this.entries.delete(id);
+  }
+
+  /** Elementos cuya esfera atraviesa el rayo antes de `far`, del más cercano al más lejano. */
+  public raycast(ray: THREE.Ray, far = Infinity): OctreeRayHit[] {
+    const hits: OctreeRayHit[] = [];
+    this.traverse(box => ray.intersectsBox(box), entry => {
+      this.tempSphere.set(entry.center, entry.radius);
+      if (!ray.intersectSphere(this.tempSphere, this.tempPoint)) return;
+      const distance = ray.origin.distanceTo(this.tempPoint);
+      if (distance <= far) hits.push({ id: entry.id, distance, point: this.tempPoint.clone() });
+    });
+    return hits.sort((a, b) => a.distance - b.distance);
+  }
+
+  /** Elementos cuya esfera toca el frustum. */
+  public queryFrustum(frustum: THREE.Frustum): number[] {
+    const ids: number[] = [];
+    this.traverse(box => frustum.intersectsBox(box), entry => {
+      this.tempSphere.set(entry.center, entry.radius);
+      if (frustum.intersectsSphere(this.tempSphere)) ids.push(entry.id);
+    });
+    return ids;
+  }
+
+  /** Elementos cuya esfera toca la esfera de centro `center` y radio `radius`. */
+  public queryRadius(center: THREE.Vector3, radius: number): number[] {
+    const ids: number[] = [];
+    this.traverse(box => box.distanceToPoint(center) <= radius, entry => {
+      if (entry.center.distanceTo(center) <= radius + entry.radius) ids.push(entry.id);
+    });
+    return ids;
+  }
+
+  /**
+   * Los `k` elementos con el centro más cerca de `point`, del más cercano al más lejano.
+   * Recorre los nodos por distancia y se detiene cuando el siguiente ya no puede mejorar el resultado.
+   */
+  public queryNearest(point: THREE.Vector3, k: number): { id: number; distance: number }[] {
+    const nearest: { id: number; distance: number }[] = [];
+    if (!this.root || k <= 0) return nearest;
+
+    const queue: { node: OctreeNode; distance: number }[] = [{ node: this.root, distance: this.root.box.distanceToPoint(point) }];
+    while (queue.length > 0) {
+      const { node, distance } = queue.shift()!;
+      if (nearest.length === k && distance > nearest[k - 1].distance) break;
+
+      node.entries.forEach(entry => {
+        const entryDistance = entry.center.distanceTo(point);
+        if (nearest.length === k && entryDistance >= nearest[k - 1].distance) return;
+        this.insertSorted(nearest, { id: entry.id, distance: entryDistance });
+        if (nearest.length > k) nearest.pop();
+      });
+      node.children?.forEach(child => this.insertSorted(queue, { node: child, distance: child.box.distanceToPoint(point) }));
+    }
+    return nearest;
+  }
+
+  /**
+   * @param canRebuild Si el elemento no cabe en la raíz, se reconstruye el árbol más grande. Al reinsertar
+   * tras esa reconstrucción (donde solo fallaría por redondeo) el elemento se queda en la raíz.
+   */
+  private insert(entry: OctreeEntry, canRebuild = true): void {
+    this.entries.set(entry.id, entry);
+    if (!this.root || (canRebuild && !this.containsSphere(this.root.box, entry))) {
+      this.rebuildAround();
+      return;
+    }
+
+    let node = this.root;
+    while (node.children) {
+      const child = node.children.find(c => this.containsSphere(c.box, entry));
+      if (!child) break;
+      node = child;
+    }
+    node.entries.push(entry);
+    entry.node = node;
+    if (!node.children && node.entries.length > MAX_ENTRIES_PER_NODE && node.depth < MAX_DEPTH) this.split(node);
+  }
+
+  private rebuildAround(): void {
+    const box = new THREE.Box3();
+    this.entries.forEach(entry => this.expandBySphere(box, entry));
+    const entries = [...this.entries.values()];
+    this.root = this.createNode(this.toCube(box, ROOT_GROWTH_FACTOR), 0);
+    entries.forEach(entry => {
+      entry.node = null;
+      this.insert(entry, false);
+    });
+  }
+
+  private split(node: OctreeNode): void {
+    const { min, max } = node.box;
+    const center = node.box.getCenter(new THREE.Vector3());
+    node.children = [];
+    for (let i = 0; i < 8; i++) {
+      const childMin = new THREE.Vector3(i & 1 ? center.x : min.x, i & 2 ? center.y : min.y, i & 4 ? center.z : min.z);
+      const childMax = new THREE.Vector3(i & 1 ? max.x : center.x, i & 2 ? max.y : center.y, i & 4 ? max.z : center.z);
+      node.children.push(this.createNode(new THREE.Box3(childMin, childMax), node.depth + 1));
+    }
+
+    const entries = node.entries;
+    node.entries = [];
+    entries.forEach(entry => {
+      const child = node.children!.find(c => this.containsSphere(c.box, entry));
+      const target = child ?? node;
+      target.entries.push(entry);
+      entry.node = target;
+    });
+  }
+
+  private detach(entry: OctreeEntry): void {
+    const entries = entry.node?.entries;
+    if (entries) {
+      const index = entries.indexOf(entry);
+      if (index !== -1) {
+        entries[index] = entries[entries.length - 1];
+        entries.pop();
+      }
+    }
+    entry.node = null;
+  }
+
+  private traverse(nodeTest: (box: THREE.Box3) => boolean, visit: (entry: OctreeEntry) => void): void {
+    const stack = this.root ? [this.root] : [];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (!nodeTest(node.box)) continue;
+      node.entries.forEach(visit);
+      if (node.children) stack.push(...node.children);
+    }
+  }
+
+  private createNode(box: THREE.Box3, depth: number): OctreeNode {
+    return { box, depth, entries: [], children: null };
+  }
+
+  private containsSphere(box: THREE.Box3, item: OctreeItem): boolean {
+    const { center, radius } = item;
+    return center.x - radius >= box.min.x && center.x + radius <= box.max.x
+      && center.y - radius >= box.min.y && center.y + radius <= box.max.y
+      && center.z - radius >= box.min.z && center.z + radius <= box.max.z;
+  }
+
+  private expandBySphere(box: THREE.Box3, item: OctreeItem): void {
+    box.expandByPoint(this.tempPoint.copy(item.center).addScalar(-item.radius));
+    box.expandByPoint(this.tempPoint.copy(item.center).addScalar(item.radius));
+  }
+
+  /** Cubo con el mismo centro que la caja y lado `scale` veces su mayor dimensión (nunca nulo). */
+  private toCube(box: THREE.Box3, scale: number): THREE.Box3 {
+    const center = box.getCenter(new THREE.Vector3());
+    const size = box.getSize(new THREE.Vector3());
+    const halfSide = Math.max(size.x, size.y, size.z, 1) * scale / 2;
+    return new THREE.Box3(center.clone().addScalar(-halfSide), center.clone().addScalar(halfSide));
+  }
+
+  private insertSorted<T extends { distance: number }>(list: T[], item: T): void {
+    let index = list.length;
+    while (index > 0 && list[index - 1].distance > item.distance) index--;
+    list.splice(index, 0, item);
+  }
+}
@@ -0,0 +1,124 @@
+// src/app/features/admin/components/world-editor/service/three-engine/interactions/box-selection.manager.service.ts
+
+import { Injectable } from '@angular/core';
+import * as THREE from 'three';
+import { Observable, Subject } from 'rxjs';
+
+/**
+ * @interface BoxSelection
+ * @description Rectángulo de selección en coordenadas normalizadas del dispositivo (-1 a +1).
+ */
+export interface BoxSelection {
+  min: THREE.Vector2;
+  max: THREE.Vector2;
+  /** `true` si se mantuvo Shift/Ctrl: la caja se suma a la selección actual. */
+  additive: boolean;
+}
+
+/** Distancia mínima (px) para considerar que el usuario está dibujando una caja y no haciendo clic. */
+const MIN_BOX_SIZE_PX = 4;
+
+/**
+ * @class BoxSelectionManagerService
+ * @description
+ * Dibuja el rectángulo elástico ("rubber band") sobre el canvas en la vista ortográfica
+ * y emite el área seleccionada al soltar el ratón.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class BoxSelectionManagerService {
+
+  public onBoxSelect$: Observable<BoxSelection>;
+
+  private canvas!: HTMLCanvasElement;
+  private overlay: HTMLDivElement | null = null;
+  private startPoint = new THREE.Vector2();
+  private endPoint = new THREE.Vector2();
+  private additive = false;
+  private boxSelectSubject = new Subject<BoxSelection>();
+
+  constructor() {
+    this.onBoxSelect$ = this.boxSelectSubject.asObservable();
+  }
+
+  public init(canvas: HTMLCanvasElement): void {
+    this.canvas = canvas;
+  }
+
+  public isActive(): boolean {
+    return this.overlay !== null;
+  }
+
+  /**
+   * Empieza a dibujar la caja desde la posición del evento.
+   */
+  public start(event: MouseEvent): void {
+    if (!this.canvas || this.overlay) return;
+
+    const rect = this.canvas.getBoundingClientRect();
+    this.startPoint.set(event.clientX - rect.left, event.clientY - rect.top);
+    this.endPoint.copy(this.startPoint);
+    this.additive = event.shiftKey || event.ctrlKey || event.metaKey;
+
+    this.overlay = document.createElement('div');
+    Object.assign(this.overlay.style, {
+      position: 'absolute',
+      border: '1px dashed #ffff00',
+      background: 'rgba(255, 255, 0, 0.08)',
+      pointerEvents: 'none',
+      zIndex: '10',
+      display: 'none'
+    });
+    this.canvas.parentElement?.appendChild(this.overlay);
+
+    window.addEventListener('mousemove', this.onMouseMove);
+    window.addEventListener('mouseup', this.onMouseUp);
+  }
+
+  private onMouseMove = (event: MouseEvent): void => {
+    if (!this.overlay) return;
+    const rect = this.canvas.getBoundingClientRect();
+    this.endPoint.set(
+      THREE.MathUtils.clamp(event.clientX - rect.left, 0, rect.width),
+      THREE.MathUtils.clamp(event.clientY - rect.top, 0, rect.height)
+    );
+
+    const left = Math.min(this.startPoint.x, this.endPoint.x);
+    const top = Math.min(this.startPoint.y, this.endPoint.y);
+    Object.assign(this.overlay.style, {
+      display: this.isBigEnough() ? 'block' : 'none',
+      left: `${this.canvas.offsetLeft + left}px`,
+      top: `${this.canvas.offsetTop + top}px`,
+      width: `${Math.abs(this.endPoint.x - this.startPoint.x)}px`,
+      height: `${Math.abs(this.endPoint.y - this.startPoint.y)}px`
+    });
+  };
+
+  private onMouseUp = (): void => {
+    window.removeEventListener('mousemove', this.onMouseMove);
+    window.removeEventListener('mouseup', this.onMouseUp);
+    this.overlay?.remove();
+    this.overlay = null;
+
+    if (!this.isBigEnough()) return;
+
+    const rect = this.canvas.getBoundingClientRect();
+    const toNdc = (point: THREE.Vector2) => new THREE.Vector2(
+      (point.x / rect.width) * 2 - 1,
+      -(point.y / rect.height) * 2 + 1
+    );
+    const a = toNdc(this.startPoint), b = toNdc(this.endPoint);
+
+    this.boxSelectSubject.next({
+      min: new THREE.Vector2(Math.min(a.x, b.x), Math.min(a.y, b.y)),
+      max: new THREE.Vector2(Math.max(a.x, b.x), Math.max(a.y, b.y)),
+      additive: this.additive
+    });
+  };
+
+  private isBigEnough(): boolean {
+    return Math.abs(this.endPoint.x - this.startPoint.x) >= MIN_BOX_SIZE_PX
+      && Math.abs(this.endPoint.y - this.startPoint.y) >= MIN_BOX_SIZE_PX;
+  }
+}
@@ -0,0 +1,170 @@
+// src/app/features/admin/components/world-editor/service/three-engine/interactions/group-transform.manager.service.ts
+
+import { Injectable } from '@angular/core';
+import * as THREE from 'three';
+import { CelestialInstanceData } from '../managers/object-manager.service';
+import { CelestialInstancesManagerService } from '../managers/celestial-instances.manager.service';
+
+export const GROUP_PIVOT_NAME = 'SelectionGroupPivot';
+
+/**
+ * @interface GroupMember
+ * @description Un miembro de la selección múltiple: un objeto estándar o una instancia de un `InstancedMesh`.
+ */
+export interface GroupMember {
+  uuid: string;
+  object?: THREE.Object3D;
+  instance?: { mesh: THREE.InstancedMesh, instanceIndex: number, data: CelestialInstanceData };
+  /** Proxy visual (aro de selección) de una instancia, que debe seguir a la instancia al transformar. */
+  proxy?: THREE.Object3D | null;
+}
+
+/**
+ * @interface ObjectTransform
+ * @description Transformación final de un objeto, lista para persistir en el backend.
+ */
+export interface ObjectTransform {
+  uuid: string;
+  position: { x: number; y: number; z: number };
+  rotation: { x: number; y: number; z: number };
+  scale: { x: number; y: number; z: number };
+}
+
+/**
+ * @class GroupTransformManagerService
+ * @description
+ * Gestiona las transformaciones de grupo de una selección múltiple.
+ * Crea un pivote compartido en el centroide de la selección; el gizmo y el arrastre mueven
+ * ese pivote y este servicio propaga la transformación a cada miembro, incluidas las
+ * instancias celestiales, manteniendo su desplazamiento relativo al pivote.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class GroupTransformManagerService {
+
+  private scene!: THREE.Scene;
+  private pivot: THREE.Object3D | null = null;
+  private members: GroupMember[] = [];
+  private offsets: THREE.Matrix4[] = [];
+  private lastPivotMatrix = new THREE.Matrix4();
+
+  private tempMatrix = new THREE.Matrix4();
+  private tempPosition = new THREE.Vector3();
+  private tempQuaternion = new THREE.Quaternion();
+  private tempScale = new THREE.Vector3();
+  private tempEuler = new THREE.Euler();
+
+  constructor(private celestialInstances: CelestialInstancesManagerService) { }
+
+  public init(scene: THREE.Scene): void {
+    this.scene = scene;
+  }
+
+  /**
+   * Crea el pivote compartido para los miembros dados y calcula sus desplazamientos.
+   * @returns El pivote, que actúa como objeto seleccionado para el gizmo y el arrastre.
+   */
+  public setMembers(members: GroupMember[]): THREE.Object3D {
+    this.clear();
+    this.members = members;
+
+    const centroid = new THREE.Vector3();
+    members.forEach(member => centroid.add(this.tempPosition.setFromMatrixPosition(this._getMemberMatrix(member))));
+    if (members.length > 0) centroid.divideScalar(members.length);
+
+    this.pivot = new THREE.Object3D();
+    this.pivot.name = GROUP_PIVOT_NAME;
+    this.pivot.position.copy(centroid);
+    this.scene.add(this.pivot);
+
+    this.recomputeOffsets();
+    return this.pivot;
+  }
+
+  /**
+   * Recalcula los desplazamientos de los miembros respecto al pivote actual.
+   * Debe llamarse si un miembro cambia por otra vía (ej. deshacer o edición numérica).
+   */
+  public recomputeOffsets(): void {
+    if (!this.pivot) return;
+    this.pivot.updateMatrixWorld(true);
+    const inversePivot = this.tempMatrix.copy(this.pivot.matrixWorld).invert();
+    this.offsets = this.members.map(member => {
+      if (member.instance) member.proxy?.position.copy(member.instance.data.position);
+      return new THREE.Matrix4().multiplyMatrices(inversePivot, this._getMemberMatrix(member));
+    });
+    this.lastPivotMatrix.copy(this.pivot.matrixWorld);
+  }
+
+  /**
+   * Propaga la transformación del pivote a los miembros si el pivote ha cambiado desde el último frame.
+   */
+  public update(): void {
+    if (!this.pivot) return;
+    this.pivot.updateMatrixWorld(true);
+    if (this.pivot.matrixWorld.equals(this.lastPivotMatrix)) return;
+    this.lastPivotMatrix.copy(this.pivot.matrixWorld);
+
+    this.members.forEach((member, i) => {
+      this.tempMatrix.multiplyMatrices(this.pivot!.matrixWorld, this.offsets[i]);
+      this.tempMatrix.decompose(this.tempPosition, this.tempQuaternion, this.tempScale);
+
+      if (member.object) {
+        member.object.position.copy(this.tempPosition);
+        member.object.quaternion.copy(this.tempQuaternion);
+        member.object.scale.copy(this.tempScale);
+      } else if (member.instance) {
+        const { mesh, instanceIndex, data } = member.instance;
+        data.position.copy(this.tempPosition);
+        data.scale.copy(this.tempScale);
+        data.originalMatrix.copy(this.tempMatrix);
+        this.celestialInstances.writeInstance(mesh, instanceIndex, data);
+        member.proxy?.position.copy(this.tempPosition);
+      }
+    });
+  }
+
+  public getMemberTransforms(): ObjectTransform[] {
+    return this.members.map(member => {
+      const matrix = this._getMemberMatrix(member);
+      matrix.decompose(this.tempPosition, this.tempQuaternion, this.tempScale);
+      this.tempEuler.setFromQuaternion(this.tempQuaternion);
+      return {
+        uuid: member.uuid,
+        position: { x: this.tempPosition.x, y: this.tempPosition.y, z: this.tempPosition.z },
+        rotation: { x: this.tempEuler.x, y: this.tempEuler.y, z: this.tempEuler.z },
+        scale: { x: this.tempScale.x, y: this.tempScale.y, z: this.tempScale.z },
+      };
+    });
+  }
+
+  public hasMember(uuid: string): boolean {
+    return this.members.some(member => member.uuid === uuid);
+  }
+
+  public isActive(): boolean {
+    return this.pivot !== null;
+  }
+
+  public getPivot(): THREE.Object3D | null {
+    return this.pivot;
+  }
+
+  public clear(): void {
+    if (this.pivot) {
+      this.scene.remove(this.pivot);
+      this.pivot = null;
+    }
+    this.members = [];
+    this.offsets = [];
+  }
+
+  private _getMemberMatrix(member: GroupMember): THREE.Matrix4 {
+    if (member.object) {
+      member.object.updateMatrixWorld(true);
+      return member.object.matrixWorld.clone();
+    }
+    return member.instance ? member.instance.data.originalMatrix.clone() : new THREE.Matrix4();
+  }
+}
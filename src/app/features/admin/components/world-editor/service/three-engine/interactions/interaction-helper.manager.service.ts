@@ -182,6 +182,11 @@ export class InteractionHelperManagerService {
     this.isSpecialObject = false;
   }
   
+  /** ✨ NUEVO: Oculta o muestra los helpers sin destruirlos (ej. durante una captura de pantalla). */
+  public setHelpersVisible(visible: boolean): void {
+    if (this.centerPivotHelper) this.centerPivotHelper.visible = visible;
+  }
+
   // ====================================================================
   // LÓGICA DE ACTUALIZACIÓN
   // ====================================================================
@@ -12,6 +12,10 @@ import { EntityManagerService } from '../managers/entity-manager.service';
 import { CameraManagerService } from '../managers/camera-manager.service';
 import { EngineService, IntersectedObjectInfo } from '../core/engine.service';
 import { EventManagerService } from './event-manager.service';
+import { BoxSelectionManagerService } from './box-selection.manager.service';
+
+/** Objetos del editor que el rayo de hover nunca debe señalar. */
+const NON_PICKABLE_NAMES = ['SelectionProxy', 'GroupSelectionProxy', 'HoverProxy', 'EditorGrid', 'FocusPivot'];
 
 /**
  * @class InteractionService
@@ -35,11 +39,13 @@ export class InteractionService {
   private dragInteractionManager!: DragInteractionManagerService;
   private engine!: EngineService;
   private eventManager!: EventManagerService;
+  private boxSelectionManager!: BoxSelectionManagerService;
 
   private preselectedObject: IntersectedObjectInfo | null = null;
   private selectedObject?: THREE.Object3D;
   private axisLock: 'x' | 'y' | 'z' | null = null;
   private axisLockStateSubject = new BehaviorSubject<'x' | 'y' | 'z' | null>(null);
+  private isEditingLocked = false;
 
   private raycaster = new THREE.Raycaster();
   private centerScreen = new THREE.Vector2(0, 0);
@@ -57,7 +63,8 @@ export class InteractionService {
     interactionHelperManager: InteractionHelperManagerService,
     dragInteractionManager: DragInteractionManagerService,
     engine: EngineService,
-    eventManager: EventManagerService
+    eventManager: EventManagerService,
+    boxSelectionManager: BoxSelectionManagerService
   }): void {
     this.sceneManager = dependencies.sceneManager;
     this.cameraManager = dependencies.cameraManager;
@@ -68,6 +75,7 @@ export class InteractionService {
     this.dragInteractionManager = dependencies.dragInteractionManager;
     this.engine = dependencies.engine;
     this.eventManager = dependencies.eventManager;
+    this.boxSelectionManager = dependencies.boxSelectionManager;
   }
 
   public update(): void {
@@ -82,9 +90,11 @@ export class InteractionService {
    * Lógica de pre-selección (hover). Lanza un rayo para detectar sobre qué objeto está el cursor.
    * En vista 3D, el rayo sale del centro de la pantalla (mira).
    * En vista 2D, el rayo sale de la posición actual del ratón.
+   * ✨ NUEVO: Los helpers y proxies se descartan antes de lanzar el rayo, y los `InstancedMesh` celestiales
+   * responden consultando su índice espacial en vez de probar cada instancia.
    */
   private updateHoverEffect(): void {
-    if (this.controlsManager.getCurrentToolMode() !== 'select') {
+    if (this.controlsManager.getCurrentToolMode() !== 'select' || this.boxSelectionManager.isActive()) {
       if (this.preselectedObject) {
         this.selectionManager.setHoveredObjects([]);
         this.preselectedObject = null;
@@ -101,13 +111,10 @@ export class InteractionService {
 
     this.raycaster.setFromCamera(rayOrigin, this.sceneManager.activeCamera);
 
-    const intersects = this.raycaster.intersectObjects(this.sceneManager.scene.children, true);
+    const pickableRoots = this.sceneManager.scene.children.filter(child => child.visible && this.isPickable(child));
+    const intersects = this.raycaster.intersectObjects(pickableRoots, true);
 
-    const firstValidHit = intersects.find(hit =>
-        !hit.object.name.endsWith('_helper') &&
-        hit.object.visible &&
-        !['SelectionProxy', 'HoverProxy', 'EditorGrid', 'FocusPivot'].includes(hit.object.name)
-    );
+    const firstValidHit = intersects.find(hit => hit.object.visible && this.isPickable(hit.object));
 
     if (firstValidHit) {
       let selectableObject = firstValidHit.object;
@@ -135,7 +142,21 @@ export class InteractionService {
     }
   }
 
+  private isPickable(object: THREE.Object3D): boolean {
+    return !object.name.endsWith('_helper') && !NON_PICKABLE_NAMES.includes(object.name);
+  }
+
+  /**
+   * ✨ NUEVO: Con la edición bloqueada (modo juego o simulación física) solo se puede inspeccionar un objeto:
+   * sin herramientas de transformación, selección múltiple, caja de selección ni bloqueo de ejes.
+   */
+  public setEditingLocked(locked: boolean): void {
+    this.isEditingLocked = locked;
+    this.setToolMode('select');
+  }
+
   public setToolMode(mode: ToolMode): void {
+    if (this.isEditingLocked) mode = 'select';
     this.controlsManager.setTransformMode(mode);
     this.interactionHelperManager.cleanupHelpers(this.selectedObject);
     this.dragInteractionManager.stopListening();
@@ -158,8 +179,14 @@ export class InteractionService {
     }
   }
 
+  /**
+   * Clic izquierdo: selecciona el objeto bajo el cursor. Con Shift/Ctrl/Cmd lo añade o quita
+   * de la selección múltiple. En la vista 2D, arrastrar sobre el vacío dibuja una caja de selección.
+   */
   public handleMouseDown(e: MouseEvent): void {
-    if (e.button === 0 && this.preselectedObject) {
+    if (e.button !== 0) return;
+
+    if (this.preselectedObject) {
       e.preventDefault();
       const hoveredUuid = this.preselectedObject.uuid;
 
@@ -167,13 +194,27 @@ export class InteractionService {
       this.entityManager.removeHoverProxy();
       this.preselectedObject = null;
 
+      if (!this.isEditingLocked && (e.shiftKey || e.ctrlKey || e.metaKey)) {
+        this.engine.toggleSelectionByUuid(hoveredUuid);
+        return;
+      }
+
       const newUuid = this.selectedObject?.uuid === hoveredUuid ? null : hoveredUuid;
 
       this.engine.setActiveSelectionByUuid(newUuid);
+      return;
+    }
+
+    const isOrthographic = this.cameraManager.cameraMode$.getValue() === 'orthographic';
+    if (isOrthographic && !this.isEditingLocked && this.controlsManager.getCurrentToolMode() === 'select') {
+      e.preventDefault();
+      this.boxSelectionManager.start(e);
     }
   }
 
   public handleKeyDown(e: KeyboardEvent): void {
+    // Los atajos con Ctrl/Cmd (ej. Ctrl+Z) pertenecen al editor, no al bloqueo de ejes.
+    if (e.ctrlKey || e.metaKey || this.isEditingLocked) return;
     const key = e.key.toLowerCase();
 
     if (this.controlsManager.getCurrentToolMode() === 'move' && ['x', 'y', 'z'].includes(key)) {
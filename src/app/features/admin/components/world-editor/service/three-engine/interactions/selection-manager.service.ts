@@ -45,6 +45,15 @@ export class SelectionManagerService {
     this.updateOutlineParameters('perspective');
   }
 
+  /** ✨ NUEVO: Colores del contorno del objeto seleccionado y del que está bajo el cursor. */
+  public setOutlineColors(selectionColor: string, hoverColor: string): void {
+    if (!this.hoverOutlinePass || !this.selectOutlinePass) return;
+    this.selectOutlinePass.visibleEdgeColor.set(selectionColor);
+    this.selectOutlinePass.hiddenEdgeColor.set(selectionColor);
+    this.hoverOutlinePass.visibleEdgeColor.set(hoverColor);
+    this.hoverOutlinePass.hiddenEdgeColor.set(hoverColor);
+  }
+
   public getPasses(): OutlinePass[] {
     return [this.hoverOutlinePass, this.selectOutlinePass];
   }
@@ -64,8 +73,7 @@ export class SelectionManagerService {
   public setHoveredObjects(objects: THREE.Object3D[]): void {
     if (!this.hoverOutlinePass) return;
 
-    const currentlySelectedUuid = this.selectOutlinePass.selectedObjects[0]?.uuid;
-    const isHoveringSelected = objects.length > 0 && objects[0].uuid === currentlySelectedUuid;
+    const isHoveringSelected = objects.length > 0 && this.isObjectSelected(objects[0].uuid);
 
     if (objects.length > 0 && !isHoveringSelected) {
       this.hoverOutlinePass.selectedObjects = objects;
@@ -101,12 +109,12 @@ export class SelectionManagerService {
    * ✨ NUEVO MÉTODO PÚBLICO ✨
    * Comprueba si un objeto con un UUID específico está actualmente seleccionado.
    * @param uuid - El UUID del objeto a comprobar.
-   * @returns `true` si el objeto está en la lista de selección, `false` en caso contrario.
+   * @returns `true` si el objeto está en la lista de selección (incluida la selección múltiple), `false` en caso contrario.
    */
   public isObjectSelected(uuid: string): boolean {
       if (!this.selectOutlinePass || this.selectOutlinePass.selectedObjects.length === 0) {
           return false;
       }
-      return this.selectOutlinePass.selectedObjects[0].uuid === uuid;
+      return this.selectOutlinePass.selectedObjects.some(object => object.uuid === uuid);
   }
 }
\ No newline at end of file
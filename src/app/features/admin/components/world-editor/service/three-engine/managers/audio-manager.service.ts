@@ -0,0 +1,285 @@
+// src/app/features/admin/components/world-editor/service/three-engine/managers/audio-manager.service.ts
+
+import { Injectable } from '@angular/core';
+import * as THREE from 'three';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { SceneObjectResponse } from '../../../../../services/admin.service';
+
+/**
+ * @interface SoundSettings
+ * @description Propiedades de una fuente de sonido, leídas de sus `properties`.
+ * Las distancias no aplican en modo ambiental: el sonido se oye igual en toda la escena.
+ */
+export interface SoundSettings {
+  volume: number;
+  refDistance: number;
+  maxDistance: number;
+  rolloffFactor: number;
+  loop: boolean;
+  ambient: boolean;
+}
+
+/**
+ * Lee las propiedades de un sonido con sus valores por defecto.
+ * Se usa el modelo de distancia lineal: a `maxDistance` el sonido ya no se oye, como muestra la esfera del editor.
+ */
+export function getSoundSettings(properties: Record<string, any> | null | undefined): SoundSettings {
+  const props = properties ?? {};
+  const refDistance = toNumber(props['refDistance'], 1);
+  return {
+    volume: THREE.MathUtils.clamp(toNumber(props['volume'], 1), 0, 1),
+    refDistance,
+    maxDistance: Math.max(toNumber(props['maxDistance'], 20), refDistance),
+    rolloffFactor: THREE.MathUtils.clamp(toNumber(props['rolloffFactor'], 1), 0, 1),
+    loop: props['loop'] !== false,
+    ambient: props['ambient'] === true
+  };
+}
+
+function toNumber(value: unknown, fallback: number): number {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+type SoundHelper = THREE.Group & { dispose: () => void };
+
+interface SoundEntry {
+  group: THREE.Group;
+  audio: THREE.Audio | THREE.PositionalAudio;
+  buffer: AudioBuffer | null;
+  settings: SoundSettings;
+  helper: SoundHelper;
+}
+
+const ICON_SCREEN_SIZE = 0.04;
+const RANGE_COLOR = 0x4fc3f7;
+
+/**
+ * ✨ NUEVO: Fuentes de sonido de la escena. Cada objeto `sound` es un grupo con un `PositionalAudio`
+ * (o un `Audio` en modo ambiental) que se oye desde un único `AudioListener` colgado de la cámara activa.
+ * Su ayudante muestra un icono y una esfera con el alcance (`maxDistance`).
+ */
+@Injectable({ providedIn: 'root' })
+export class AudioManagerService {
+
+  private listener: THREE.AudioListener | null = null;
+  private entries = new Map<string, SoundEntry>();
+  private loader = new THREE.AudioLoader();
+  private iconTexture: THREE.CanvasTexture | null = null;
+  private tempPosition = new THREE.Vector3();
+  /** Reanuda el AudioContext con la primera interacción; se guarda para poder quitarlo al destruir el motor. */
+  private resumeOnInteraction: (() => void) | null = null;
+
+  private isMutedSubject = new BehaviorSubject<boolean>(false);
+  public isMuted$: Observable<boolean> = this.isMutedSubject.asObservable();
+
+  /**
+   * Crea el grupo del sonido y su ayudante (sin añadirlos a la escena) y empieza a cargar el audio.
+   * Los sonidos en bucle empiezan a sonar al cargar; los demás suenan una vez.
+   */
+  public createSound(objData: SceneObjectResponse, url: string | null): THREE.Group {
+    const uuid = objData.id.toString();
+    const settings = getSoundSettings(objData.properties);
+    const group = new THREE.Group();
+    const helper = this.createHelper();
+    helper.name = `${objData.name}_helper`;
+    group.userData['helper'] = helper;
+
+    const entry: SoundEntry = { group, audio: this.createAudio(settings), buffer: null, settings, helper };
+    group.add(entry.audio);
+    this.entries.set(uuid, entry);
+    this.applyAudioSettings(entry);
+
+    if (!url) {
+      console.warn(`[AudioManager] El sonido '${objData.name}' no tiene un asset de audio.`);
+      return group;
+    }
+    this.loader.load(url, buffer => {
+      if (this.entries.get(uuid) !== entry) return;
+      entry.buffer = buffer;
+      entry.audio.setBuffer(buffer);
+      entry.audio.play();
+    }, undefined, err => console.error(`[AudioManager] No se pudo cargar el sonido '${url}':`, err));
+    return group;
+  }
+
+  /**
+   * Aplica las `properties` editadas. Cambiar el modo ambiental sustituye la fuente de audio.
+   */
+  public applySettings(uuid: string, properties: Record<string, any> | null | undefined): void {
+    const entry = this.entries.get(uuid);
+    if (!entry) return;
+    const wasAmbient = entry.settings.ambient;
+    entry.settings = getSoundSettings(properties);
+
+    if (wasAmbient !== entry.settings.ambient) {
+      const wasPlaying = entry.audio.isPlaying;
+      this.disposeAudio(entry.audio);
+      entry.audio = this.createAudio(entry.settings);
+      entry.group.add(entry.audio);
+      if (entry.buffer) {
+        entry.audio.setBuffer(entry.buffer);
+        if (wasPlaying) entry.audio.play();
+      }
+    }
+    this.applyAudioSettings(entry);
+  }
+
+  /** Reproduce el sonido desde el principio (ej. para probar un sonido que no está en bucle). */
+  public play(uuid: string): void {
+    const entry = this.entries.get(uuid);
+    if (!entry?.buffer) return;
+    if (entry.audio.isPlaying) entry.audio.stop();
+    entry.audio.play();
+  }
+
+  public setMuted(muted: boolean): void {
+    this.listener?.setMasterVolume(muted ? 0 : 1);
+    this.isMutedSubject.next(muted);
+  }
+
+  /**
+   * Mantiene el oyente en la cámara activa y los ayudantes sobre sus sonidos.
+   */
+  public update(camera: THREE.Camera): void {
+    if (this.listener && this.listener.parent !== camera) {
+      this.listener.removeFromParent();
+      camera.add(this.listener);
+    }
+    this.entries.forEach(entry => {
+      entry.group.getWorldPosition(this.tempPosition);
+      entry.helper.position.copy(this.tempPosition);
+    });
+  }
+
+  public removeSound(uuid: string): void {
+    const entry = this.entries.get(uuid);
+    if (!entry) return;
+    this.disposeAudio(entry.audio);
+    this.entries.delete(uuid);
+  }
+
+  public clear(): void {
+    Array.from(this.entries.keys()).forEach(uuid => this.removeSound(uuid));
+  }
+
+  /**
+   * Libera el audio al destruir el motor: quita el oyente de la cámara y cierra su AudioContext.
+   * `clear` no lo hace porque se usa al cambiar de escena, y un contexto nuevo volvería a nacer suspendido.
+   */
+  public dispose(): void {
+    this.clear();
+    this.removeResumeListeners();
+    if (!this.listener) return;
+    this.listener.removeFromParent();
+    this.listener.context.close().catch(err => console.warn('[AudioManager] No se pudo cerrar el AudioContext:', err));
+    this.listener = null;
+  }
+
+  /**
+   * El oyente (y con él el AudioContext) se crea con el primer sonido. El navegador lo deja suspendido
+   * hasta que el usuario interactúa con la página; se reanuda con el primer clic o tecla.
+   */
+  private getListener(): THREE.AudioListener {
+    if (this.listener) return this.listener;
+    this.listener = new THREE.AudioListener();
+    this.listener.setMasterVolume(this.isMutedSubject.getValue() ? 0 : 1);
+
+    const context = this.listener.context;
+    if (context.state === 'suspended') {
+      this.resumeOnInteraction = () => {
+        context.resume().catch(err => console.warn('[AudioManager] No se pudo activar el audio:', err));
+        this.removeResumeListeners();
+      };
+      document.addEventListener('pointerdown', this.resumeOnInteraction);
+      document.addEventListener('keydown', this.resumeOnInteraction);
+    }
+    return this.listener;
+  }
+
+  private removeResumeListeners(): void {
+    if (!this.resumeOnInteraction) return;
+    document.removeEventListener('pointerdown', this.resumeOnInteraction);
+    document.removeEventListener('keydown', this.resumeOnInteraction);
+    this.resumeOnInteraction = null;
+  }
+
+  private createAudio(settings: SoundSettings): THREE.Audio | THREE.PositionalAudio {
+    const listener = this.getListener();
+    if (settings.ambient) return new THREE.Audio<GainNode>(listener);
+    return new THREE.PositionalAudio(listener);
+  }
+
+  private applyAudioSettings(entry: SoundEntry): void {
+    const { audio, settings, helper } = entry;
+    audio.setVolume(settings.volume);
+    audio.setLoop(settings.loop);
+    if (audio instanceof THREE.PositionalAudio) {
+      audio.setDistanceModel('linear');
+      audio.setRefDistance(settings.refDistance);
+      audio.setMaxDistance(settings.maxDistance);
+      audio.setRolloffFactor(settings.rolloffFactor);
+    }
+
+    const range = helper.getObjectByName('SoundRange');
+    if (range) {
+      range.visible = !settings.ambient;
+      range.scale.setScalar(settings.maxDistance);
+    }
+  }
+
+  private disposeAudio(audio: THREE.Audio | THREE.PositionalAudio): void {
+    if (audio.isPlaying) audio.stop();
+    audio.disconnect();
+    audio.removeFromParent();
+  }
+
+  /**
+   * Icono (siempre del mismo tamaño en pantalla) y esfera de alcance. No intersectan con el raycaster:
+   * la esfera envolvería a los objetos cercanos e impediría seleccionarlos.
+   */
+  private createHelper(): SoundHelper {
+    const helper = new THREE.Group() as SoundHelper;
+
+    const icon = new THREE.Sprite(new THREE.SpriteMaterial({
+      map: this.getIconTexture(), sizeAttenuation: false, depthTest: false, toneMapped: false
+    }));
+    icon.scale.setScalar(ICON_SCREEN_SIZE);
+    icon.renderOrder = 1;
+
+    const range = new THREE.Mesh(
+      new THREE.SphereGeometry(1, 24, 12),
+      new THREE.MeshBasicMaterial({ color: RANGE_COLOR, wireframe: true, transparent: true, opacity: 0.2, depthWrite: false, fog: false })
+    );
+    range.name = 'SoundRange';
+
+    [icon, range].forEach(child => {
+      child.raycast = () => {};
+      helper.add(child);
+    });
+    helper.dispose = () => {
+      icon.material.dispose();
+      range.geometry.dispose();
+      range.material.dispose();
+    };
+    return helper;
+  }
+
+  private getIconTexture(): THREE.CanvasTexture {
+    if (this.iconTexture) return this.iconTexture;
+    const canvas = document.createElement('canvas');
+    canvas.width = 64; canvas.height = 64;
+    const context = canvas.getContext('2d')!;
+    context.fillStyle = 'rgba(20, 20, 20, 0.75)';
+    context.beginPath();
+    context.arc(32, 32, 30, 0, Math.PI * 2);
+    context.fill();
+    context.font = '36px sans-serif';
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillText('🔊', 32, 34);
+    this.iconTexture = new THREE.CanvasTexture(canvas);
+    this.iconTexture.colorSpace = THREE.SRGBColorSpace;
+    return this.iconTexture;
+  }
+}
@@ -243,6 +243,17 @@ export class CameraManagerService {
     controls.update();
   }
 
+  /**
+   * ✨ NUEVO: Corta el viaje o la órbita en curso (ej. al empezar un recorrido de cámara).
+   */
+  public cancelAnimation(): void {
+    this.isCameraAnimating = false;
+    this.isCameraOrbiting = false;
+    this.cameraAnimationTarget = null;
+    this.cameraInitialState = null;
+    this.orbitTarget = null;
+  }
+
   public focusOnObject(uuid: string): void {
     if (this.isCameraAnimating) this.isCameraAnimating = false;
     if (this.isCameraOrbiting) this.isCameraOrbiting = false;
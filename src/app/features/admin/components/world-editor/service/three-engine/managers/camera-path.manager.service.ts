@@ -0,0 +1,203 @@
+// src/app/features/admin/components/world-editor/service/three-engine/managers/camera-path.manager.service.ts
+
+import { Injectable } from '@angular/core';
+import * as THREE from 'three';
+import { gsap } from 'gsap';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { CameraPathKeyframe, CameraPathResponse } from '../../../../../services/admin.service';
+import { SceneManagerService } from './scene-manager.service';
+import { ControlsManagerService } from '../interactions/controls-manager.service';
+
+/** Curvas de gsap que se ofrecen en el editor de recorridos. */
+export const CAMERA_PATH_EASINGS = ['none', 'sine.inOut', 'power1.inOut', 'power2.inOut', 'power3.inOut', 'expo.inOut'];
+export const DEFAULT_CAMERA_PATH_EASING = 'power1.inOut';
+
+/**
+ * @interface CameraPathPlayback
+ * @description Estado de la reproducción en curso, para la cabeza de lectura del timeline.
+ */
+export interface CameraPathPlayback {
+  pathId: number;
+  time: number;
+  duration: number;
+}
+
+interface CameraPathSampler {
+  keyframes: CameraPathKeyframe[];
+  positionCurve: THREE.CatmullRomCurve3 | null;
+  targetCurve: THREE.CatmullRomCurve3 | null;
+}
+
+/**
+ * Duración de un recorrido: el tiempo de su último keyframe.
+ */
+export function getCameraPathDuration(keyframes: CameraPathKeyframe[]): number {
+  return keyframes.length > 0 ? Math.max(...keyframes.map(k => k.time)) : 0;
+}
+
+/**
+ * ✨ NUEVO: Reproduce recorridos de cámara por keyframes. Posición y objetivo siguen una spline Catmull-Rom
+ * que pasa por todos los keyframes; el FOV se interpola por tramos. La curva de gsap del recorrido
+ * se aplica al tiempo total, así que el recorrido arranca y frena suavemente.
+ * Avanza con el `delta` del bucle del motor, no con el ticker de gsap.
+ */
+@Injectable({ providedIn: 'root' })
+export class CameraPathManagerService {
+
+  public playback$: Observable<CameraPathPlayback | null>;
+
+  private playbackSubject = new BehaviorSubject<CameraPathPlayback | null>(null);
+  private activePath: CameraPathResponse | null = null;
+  private sampler: CameraPathSampler | null = null;
+  private ease: gsap.EaseFunction = t => t;
+  private playhead = 0;
+  private duration = 0;
+  private originalFov: number | null = null;
+  private onComplete?: () => void;
+
+  private tempPosition = new THREE.Vector3();
+  private tempTarget = new THREE.Vector3();
+
+  constructor(
+    private sceneManager: SceneManagerService,
+    private controlsManager: ControlsManagerService
+  ) {
+    this.playback$ = this.playbackSubject.asObservable();
+  }
+
+  public get isPlaying(): boolean {
+    return this.activePath !== null;
+  }
+
+  public play(path: CameraPathResponse, onComplete?: () => void): void {
+    this.stop();
+    if (path.keyframes.length === 0) {
+      console.warn(`[CameraPathManager] El recorrido '${path.name}' no tiene keyframes.`);
+      return;
+    }
+
+    this.activePath = path;
+    this.sampler = this.createSampler(path.keyframes);
+    this.ease = gsap.parseEase(path.easing || DEFAULT_CAMERA_PATH_EASING) ?? (t => t);
+    this.duration = getCameraPathDuration(path.keyframes);
+    this.playhead = 0;
+    this.onComplete = onComplete;
+    this.originalFov = this.sceneManager.editorCamera.fov;
+
+    const controls = this.controlsManager.getControls();
+    controls.enabled = false;
+    this.controlsManager.disableNavigation();
+    this.applyTime(0);
+    console.log(`[CameraPathManager] Reproduciendo '${path.name}' (${this.duration.toFixed(1)} s).`);
+  }
+
+  public stop(): void {
+    if (!this.activePath) return;
+    const onComplete = this.onComplete;
+    this.activePath = null;
+    this.sampler = null;
+    this.onComplete = undefined;
+    this.playbackSubject.next(null);
+
+    const camera = this.sceneManager.editorCamera;
+    if (this.originalFov !== null && camera.fov !== this.originalFov) {
+      camera.fov = this.originalFov;
+      camera.updateProjectionMatrix();
+    }
+    this.originalFov = null;
+
+    const controls = this.controlsManager.getControls();
+    controls.enabled = true;
+    controls.update();
+    this.controlsManager.enableNavigation();
+    onComplete?.();
+  }
+
+  /**
+   * Avanza la reproducción. Devuelve `true` mientras el recorrido controla la cámara.
+   */
+  public update(delta: number): boolean {
+    if (!this.activePath) return false;
+    this.playhead = Math.min(this.playhead + delta, this.duration);
+    this.applyTime(this.playhead);
+    if (this.playhead >= this.duration) this.stop();
+    return true;
+  }
+
+  /**
+   * Coloca la cámara en un instante del recorrido sin reproducirlo (ej. al arrastrar la cabeza del timeline).
+   * Sin curva de easing: el tiempo del timeline es el tiempo de los keyframes.
+   */
+  public seek(keyframes: CameraPathKeyframe[], time: number): void {
+    if (keyframes.length === 0) return;
+    const sampler = this.createSampler(keyframes);
+    this.applySample(sampler, time);
+  }
+
+  private applyTime(time: number): void {
+    if (!this.sampler || !this.activePath) return;
+    const easedTime = this.duration > 0 ? this.ease(time / this.duration) * this.duration : 0;
+    this.applySample(this.sampler, easedTime);
+    this.playbackSubject.next({ pathId: this.activePath.id, time, duration: this.duration });
+  }
+
+  private applySample(sampler: CameraPathSampler, time: number): void {
+    const fov = this.sample(sampler, time, this.tempPosition, this.tempTarget);
+    // Los recorridos siempre usan la cámara del editor en perspectiva (ver `EngineService.playCameraPath`).
+    const camera = this.sceneManager.editorCamera;
+    const controls = this.controlsManager.getControls();
+
+    camera.position.copy(this.tempPosition);
+    controls.target.copy(this.tempTarget);
+    camera.lookAt(this.tempTarget);
+    if (camera.fov !== fov) {
+      camera.fov = fov;
+      camera.updateProjectionMatrix();
+    }
+  }
+
+  private createSampler(keyframes: CameraPathKeyframe[]): CameraPathSampler {
+    const sorted = [...keyframes].sort((a, b) => a.time - b.time);
+    if (sorted.length < 2) return { keyframes: sorted, positionCurve: null, targetCurve: null };
+    const toVector = (p: { x: number; y: number; z: number }) => new THREE.Vector3(p.x, p.y, p.z);
+    return {
+      keyframes: sorted,
+      positionCurve: new THREE.CatmullRomCurve3(sorted.map(k => toVector(k.position)), false, 'centripetal'),
+      targetCurve: new THREE.CatmullRomCurve3(sorted.map(k => toVector(k.target)), false, 'centripetal')
+    };
+  }
+
+  /**
+   * Muestrea el recorrido en `time`. Cada keyframe `i` está en `i / (n - 1)` de la curva,
+   * de modo que los tramos se recorren en el tiempo marcado por sus keyframes.
+   * @returns El FOV en ese instante.
+   */
+  private sample(sampler: CameraPathSampler, time: number, outPosition: THREE.Vector3, outTarget: THREE.Vector3): number {
+    const { keyframes, positionCurve, targetCurve } = sampler;
+    const first = keyframes[0];
+    const last = keyframes[keyframes.length - 1];
+
+    if (!positionCurve || !targetCurve || time <= first.time) {
+      outPosition.set(first.position.x, first.position.y, first.position.z);
+      outTarget.set(first.target.x, first.target.y, first.target.z);
+      return first.fov;
+    }
+    if (time >= last.time) {
+      outPosition.set(last.position.x, last.position.y, last.position.z);
+      outTarget.set(last.target.x, last.target.y, last.target.z);
+      return last.fov;
+    }
+
+    let index = 0;
+    while (index < keyframes.length - 2 && time >= keyframes[index + 1].time) index++;
+    const from = keyframes[index];
+    const to = keyframes[index + 1];
+    const segmentDuration = to.time - from.time;
+    const local = segmentDuration > 0 ? (time - from.time) / segmentDuration : 1;
+    const u = (index + local) / (keyframes.length - 1);
+
+    positionCurve.getPoint(u, outPosition);
+    targetCurve.getPoint(u, outTarget);
+    return THREE.MathUtils.lerp(from.fov, to.fov, local);
+  }
+}
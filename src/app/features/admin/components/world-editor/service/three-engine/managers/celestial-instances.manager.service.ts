@@ -0,0 +1,445 @@
+// src/app/features/admin/components/world-editor/service/three-engine/managers/celestial-instances.manager.service.ts
+
+import { Injectable } from '@angular/core';
+import * as THREE from 'three';
+import { CelestialInstanceData } from './object-manager.service';
+import { DEEP_SPACE_SCALE_BOOST } from '../core/engine.service';
+import { InstanceOctree } from '../helpers/instance-octree';
+
+const BASE_VISIBILITY_DISTANCE = 1000000000;
+const MAX_PERCEPTUAL_DISTANCE = 10000000000000;
+const PERSPECTIVE_VISIBILITY_MULTIPLIER = 0.08;
+const FOG_START_DISTANCE_MULTIPLIER = 0.01;
+const FOG_DENSITY = 0.95;
+const ORTHO_ZOOM_BLOOM_DAMPENING_FACTOR = 12.0;
+const MAX_INTENSITY = 8.0;
+const ORTHO_MAX_INTENSITY = 1.5;
+/** Por debajo de esta intensidad la instancia no se pinta ni se puede señalar. */
+const MIN_VISIBLE_INTENSITY = 0.001;
+const FADE_IN_SPEED = 3.0;
+const FADE_OUT_SPEED = 7.0;
+/** Una instancia visible no se apaga hasta alejarse este múltiplo de su distancia de visibilidad. */
+const VISIBILITY_HYSTERESIS_FACTOR = 15.05;
+/** Pasado este tiempo cualquier desvanecimiento ha terminado; acota los inicios que se suben a la GPU. */
+const FADE_SETTLED_SECONDS = 60;
+
+/** Luminosidad, intensidad emisiva, intensidad emisiva base y brillo del grupo. */
+const EMISSION_ATTRIBUTE = 'celestialEmission';
+/** Oculta por el usuario y dominante (0 o 1). */
+const FLAGS_ATTRIBUTE = 'celestialFlags';
+/** Inicio del desvanecimiento (en `celestialTime`) y si va hacia visible (0 o 1). */
+const FADE_ATTRIBUTE = 'celestialFade';
+/** Lo que la posición pierde al guardarse en float32 en `instanceMatrix`. */
+const POSITION_LOW_ATTRIBUTE = 'celestialPositionLow';
+const MATRIX_ITEM_SIZE = 16;
+
+const glslFloat = (value: number) => value.toExponential();
+/** Parte de un número que no cabe en float32: sumada a `Math.fround(value)` lo recompone. */
+const float32Residual = (value: number) => value - Math.fround(value);
+
+const VERTEX_PARS = /* glsl */`
+attribute vec4 ${EMISSION_ATTRIBUTE};
+attribute vec2 ${FLAGS_ATTRIBUTE};
+attribute vec2 ${FADE_ATTRIBUTE};
+attribute vec3 ${POSITION_LOW_ATTRIBUTE};
+uniform vec3 celestialOriginHigh;
+uniform vec3 celestialOriginLow;
+uniform bool celestialOrthographic;
+uniform float celestialBloomDampening;
+uniform float celestialTime;
+varying float vCelestialIntensity;
+
+float celestialFadeFactor() {
+  float elapsed = max( celestialTime - ${FADE_ATTRIBUTE}.x, 0.0 );
+  return ${FADE_ATTRIBUTE}.y > 0.5 ? 1.0 - exp( -${glslFloat(FADE_IN_SPEED)} * elapsed ) : exp( -${glslFloat(FADE_OUT_SPEED)} * elapsed );
+}
+
+float celestialIntensity( float cameraDistance, float maxScale ) {
+  float emissive = ${EMISSION_ATTRIBUTE}.y;
+  float baseEmissive = ${EMISSION_ATTRIBUTE}.z;
+  float brightness = ${EMISSION_ATTRIBUTE}.w;
+
+  if ( celestialOrthographic ) {
+    float orthoIntensity = ${FLAGS_ATTRIBUTE}.y > 0.5 ? emissive : ( emissive + baseEmissive ) * 0.5;
+    return min( orthoIntensity, ${glslFloat(ORTHO_MAX_INTENSITY)} ) * celestialBloomDampening * brightness;
+  }
+
+  float visibilityDistance = min( ${glslFloat(BASE_VISIBILITY_DISTANCE)} * ${EMISSION_ATTRIBUTE}.x, ${glslFloat(MAX_PERCEPTUAL_DISTANCE)} ) * ${glslFloat(PERSPECTIVE_VISIBILITY_MULTIPLIER)};
+  float falloff = clamp( ( cameraDistance - maxScale * 80.0 ) / ( maxScale * 10.0 - maxScale * 80.0 ), 0.0, 1.0 );
+  float proximityFade = smoothstep( maxScale * 1.5, maxScale * 3.0, cameraDistance );
+  float intensity = min( mix( emissive, baseEmissive, falloff ), ${glslFloat(MAX_INTENSITY)} ) * celestialBloomDampening * brightness * proximityFade;
+
+  float fogStart = visibilityDistance * ${glslFloat(FOG_START_DISTANCE_MULTIPLIER)};
+  if ( cameraDistance > fogStart ) {
+    intensity *= 1.0 - ( cameraDistance - fogStart ) / ( visibilityDistance - fogStart ) * ${glslFloat(FOG_DENSITY)};
+  }
+  return intensity;
+}
+`;
+
+/**
+ * Sustituye a `project_vertex`: la instancia se orienta hacia la cámara (en ortográfica queda en el plano XY,
+ * como antes) y los vértices de las instancias apagadas u ocultas se sacan del volumen de recorte.
+ *
+ * La posición se lleva al origen flotante aquí, restando primero las partes altas (cercanas entre sí, así que
+ * float32 las resta casi sin error) y después las bajas. Por eso se usa `viewMatrix` y no `modelViewMatrix`:
+ * la malla no tiene transformación propia.
+ */
+const VERTEX_PROJECT = /* glsl */`
+vec3 instanceCenter = ( instanceMatrix[ 3 ].xyz - celestialOriginHigh ) + ( ${POSITION_LOW_ATTRIBUTE} - celestialOriginLow );
+vec3 instanceScale = vec3( length( instanceMatrix[ 0 ].xyz ), length( instanceMatrix[ 1 ].xyz ), length( instanceMatrix[ 2 ].xyz ) );
+vec2 billboardOffset = transformed.xy * instanceScale.xy * CELESTIAL_SCALE_BOOST;
+vec4 centerPosition = viewMatrix * vec4( instanceCenter, 1.0 );
+vec4 mvPosition = centerPosition;
+if ( celestialOrthographic ) {
+  mvPosition = viewMatrix * vec4( instanceCenter + vec3( billboardOffset, 0.0 ), 1.0 );
+} else {
+  mvPosition.xy += billboardOffset;
+}
+
+float maxScale = max( instanceScale.x, max( instanceScale.y, instanceScale.z ) );
+vCelestialIntensity = ${FLAGS_ATTRIBUTE}.x > 0.5 ? 0.0 : max( celestialIntensity( length( centerPosition.xyz ), maxScale ), 0.0 ) * celestialFadeFactor();
+gl_Position = vCelestialIntensity > ${glslFloat(MIN_VISIBLE_INTENSITY)} ? projectionMatrix * mvPosition : vec4( 0.0, 0.0, 2.0, 1.0 );
+`;
+
+const FRAGMENT_PARS = /* glsl */`
+varying float vCelestialIntensity;
+`;
+
+/**
+ * @class CelestialInstancesManagerService
+ * @description
+ * ✨ NUEVO: Los `CelestialObjects_*` calculan en la GPU su orientación hacia la cámara y su intensidad
+ * (distancia de visibilidad, niebla, atenuación con la distancia y desvanecimiento de cerca). Cada instancia
+ * lleva sus datos en atributos (`instanceColor`, `celestialEmission`, `celestialFlags`) que solo se reescriben
+ * cuando cambian; por fotograma se actualizan los uniforms compartidos por todos los materiales.
+ *
+ * El fundido al aparecer y desaparecer también lo hace la GPU: `celestialFade` guarda cuándo empezó y hacia dónde
+ * va, y el shader lo avanza con `celestialTime`. La CPU solo revisa si cada instancia entra o sale del
+ * frustum o de su distancia de visibilidad (con histéresis) y reescribe ese atributo cuando cambia.
+ *
+ * La CPU conserva una copia del cálculo (`getInstanceIntensity`) para lo que necesita saber si una instancia
+ * se ve: señalarla con el ratón o contar las visibles.
+ *
+ * ✨ NUEVO: Las posiciones absolutas no caben en float32: `instanceMatrix` lleva su parte float32 y
+ * `celestialPositionLow` el resto, y el shader les resta el origen flotante (`setRenderOrigin`) partido igual.
+ * Re-centrar el origen solo cambia dos uniforms; las mallas se quedan en el origen de la escena.
+ *
+ * ✨ NUEVO: Cada malla tiene además un índice espacial (`InstanceOctree`) con la esfera de cada instancia, que
+ * se mantiene al día en `writeInstance` y `removeInstance`. La visibilidad, el raycast, el recuento de visibles y
+ * el despeje de etiquetas (`findInstancesInRadius`) lo consultan en vez de recorrer todas las instancias.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CelestialInstancesManagerService {
+
+  private uniforms = {
+    celestialOriginHigh: { value: new THREE.Vector3() },
+    celestialOriginLow: { value: new THREE.Vector3() },
+    celestialOrthographic: { value: false },
+    celestialBloomDampening: { value: 1.0 },
+    celestialTime: { value: 0 }
+  };
+  private spatialIndexes = new WeakMap<THREE.InstancedMesh, InstanceOctree>();
+  /** Índices de las instancias encendidas (`isVisible`) de cada malla: las únicas fuera del frustum que hay que revisar. */
+  private visibleInstances = new WeakMap<THREE.InstancedMesh, Set<number>>();
+  /** Mallas con instancias reescritas desde su última revisión de visibilidad. */
+  private staleMeshes = new WeakSet<THREE.InstancedMesh>();
+  private lastProjScreenMatrix = new THREE.Matrix4();
+  private hasCameraChanged = true;
+  private cameraPosition = new THREE.Vector3();
+  private frustum = new THREE.Frustum();
+  private projScreenMatrix = new THREE.Matrix4();
+  private tempMatrix = new THREE.Matrix4();
+  private tempSphere = new THREE.Sphere();
+  private identityQuaternion = new THREE.Quaternion();
+
+  /**
+   * Prepara un `InstancedMesh` recién creado: atributos del tamaño de su capacidad, material con el shader
+   * de instancias y raycast por esfera. Su geometría debe ser solo suya, porque los atributos viven en ella.
+   */
+  public setupInstancedMesh(mesh: THREE.InstancedMesh): void {
+    const capacity = mesh.instanceMatrix.count;
+    mesh.geometry.setAttribute(EMISSION_ATTRIBUTE, new THREE.InstancedBufferAttribute(new Float32Array(capacity * 4), 4));
+    mesh.geometry.setAttribute(FLAGS_ATTRIBUTE, new THREE.InstancedBufferAttribute(new Float32Array(capacity * 2), 2));
+    mesh.geometry.setAttribute(FADE_ATTRIBUTE, new THREE.InstancedBufferAttribute(new Float32Array(capacity * 2), 2));
+    mesh.geometry.setAttribute(POSITION_LOW_ATTRIBUTE, new THREE.InstancedBufferAttribute(new Float32Array(capacity * 3), 3));
+    mesh.instanceColor = new THREE.InstancedBufferAttribute(new Float32Array(capacity * 3), 3);
+    this.patchMaterial(mesh.material as THREE.MeshBasicMaterial);
+    mesh.raycast = (raycaster, intersects) => this.raycastInstances(mesh, raycaster, intersects);
+    this.writeAllInstances(mesh);
+    this.buildSpatialIndex(mesh);
+    const allData: CelestialInstanceData[] = mesh.userData['celestialData'] ?? [];
+    this.visibleInstances.set(mesh, new Set(allData.flatMap((data, index) => data.isVisible ? [index] : [])));
+    this.staleMeshes.add(mesh);
+  }
+
+  /**
+   * Vuelca los datos de una instancia a sus atributos y sube a la GPU solo ese tramo.
+   * Se llama cada vez que cambia su posición, escala, brillo o visibilidad.
+   */
+  public writeInstance(mesh: THREE.InstancedMesh, index: number, data: CelestialInstanceData): void {
+    this.writeAttributes(mesh, index, data);
+    this.spatialIndexes.get(mesh)?.set(index, data.position, this.getInstanceRadius(mesh, data));
+    this.trackVisibility(mesh, index, data);
+    this.staleMeshes.add(mesh);
+    const attributes: [THREE.BufferAttribute, number][] = [
+      [mesh.instanceMatrix, MATRIX_ITEM_SIZE],
+      [mesh.instanceColor!, 3],
+      [mesh.geometry.getAttribute(EMISSION_ATTRIBUTE) as THREE.BufferAttribute, 4],
+      [mesh.geometry.getAttribute(FLAGS_ATTRIBUTE) as THREE.BufferAttribute, 2],
+      [mesh.geometry.getAttribute(FADE_ATTRIBUTE) as THREE.BufferAttribute, 2],
+      [mesh.geometry.getAttribute(POSITION_LOW_ATTRIBUTE) as THREE.BufferAttribute, 3]
+    ];
+    attributes.forEach(([attribute, itemSize]) => {
+      attribute.addUpdateRange(index * itemSize, itemSize);
+      attribute.needsUpdate = true;
+    });
+  }
+
+  /**
+   * Quita una instancia: la última ocupa su hueco (en los datos, los atributos y el índice) y se reduce `count`.
+   */
+  public removeInstance(mesh: THREE.InstancedMesh, index: number): void {
+    const allData: CelestialInstanceData[] = mesh.userData['celestialData'];
+    const lastIndex = allData.length - 1;
+    if (index !== lastIndex) {
+      allData[index] = allData[lastIndex];
+      this.writeInstance(mesh, index, allData[index]);
+    }
+    allData.pop();
+    mesh.count = allData.length;
+    this.spatialIndexes.get(mesh)?.remove(lastIndex);
+    this.visibleInstances.get(mesh)?.delete(lastIndex);
+  }
+
+  /**
+   * ✨ NUEVO: Origen que el shader resta a cada instancia, partido en su parte float32 y el resto.
+   * Debe coincidir con el desplazamiento de la escena mientras se pinta, y ser (0, 0, 0) fuera de él.
+   */
+  public setRenderOrigin(origin: THREE.Vector3): void {
+    this.uniforms.celestialOriginHigh.value.set(Math.fround(origin.x), Math.fround(origin.y), Math.fround(origin.z));
+    this.uniforms.celestialOriginLow.value.set(float32Residual(origin.x), float32Residual(origin.y), float32Residual(origin.z));
+  }
+
+  /** Vuelca todas las instancias (al crear la malla o tras cambios masivos) y ajusta `count`. */
+  public writeAllInstances(mesh: THREE.InstancedMesh): void {
+    const allData: CelestialInstanceData[] = mesh.userData['celestialData'] ?? [];
+    allData.forEach((data, index) => this.writeAttributes(mesh, index, data));
+    mesh.count = allData.length;
+
+    [mesh.instanceMatrix, mesh.instanceColor!, mesh.geometry.getAttribute(EMISSION_ATTRIBUTE), mesh.geometry.getAttribute(FLAGS_ATTRIBUTE),
+      mesh.geometry.getAttribute(FADE_ATTRIBUTE), mesh.geometry.getAttribute(POSITION_LOW_ATTRIBUTE)]
+      .forEach(attribute => {
+        (attribute as THREE.BufferAttribute).clearUpdateRanges();
+        attribute.needsUpdate = true;
+      });
+  }
+
+  /**
+   * Actualiza los uniforms con la cámara del fotograma, su frustum para la visibilidad y avanza el reloj de los fundidos.
+   * En ortográfica, al alejar el zoom se atenúa el brillo para que el bloom no sature la vista.
+   * @param baseOrthoMatrixElement Escala de la proyección ortográfica al fijar la vista (0 si no hay referencia).
+   * @param delta Segundos desde el fotograma anterior (los fijos de la grabación, si se está grabando).
+   */
+  public update(camera: THREE.Camera, isOrthographic: boolean, baseOrthoMatrixElement: number, delta: number): void {
+    let bloomDampening = 1.0;
+    if (isOrthographic && baseOrthoMatrixElement > 0) {
+      const zoomRatio = baseOrthoMatrixElement / camera.projectionMatrix.elements[0];
+      bloomDampening = Math.min(1.0, ORTHO_ZOOM_BLOOM_DAMPENING_FACTOR / zoomRatio);
+    }
+    this.uniforms.celestialOrthographic.value = isOrthographic;
+    this.uniforms.celestialBloomDampening.value = bloomDampening;
+    this.uniforms.celestialTime.value += delta;
+    this.cameraPosition.copy(camera.position);
+    camera.updateMatrixWorld();
+    this.projScreenMatrix.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
+    this.frustum.setFromProjectionMatrix(this.projScreenMatrix);
+    this.hasCameraChanged = !this.projScreenMatrix.equals(this.lastProjScreenMatrix);
+    this.lastProjScreenMatrix.copy(this.projScreenMatrix);
+  }
+
+  /**
+   * ✨ NUEVO: Empieza el fundido de las instancias que entran o salen del encuadre o de su distancia de visibilidad.
+   * Solo se revisan las que el índice espacial sitúa en el frustum y las que estaban encendidas (las que acaban
+   * de salir de él), y solo cuando la cámara o las instancias de la malla han cambiado. Solo se sube lo que cambia.
+   * Debe llamarse después de `update`.
+   */
+  public updateVisibility(mesh: THREE.InstancedMesh): void {
+    const allData: CelestialInstanceData[] = mesh.userData['celestialData'] ?? [];
+    const spatialIndex = this.spatialIndexes.get(mesh);
+    const visible = this.visibleInstances.get(mesh);
+    if (allData.length === 0 || !spatialIndex || !visible) return;
+    if (!this.hasCameraChanged && !this.staleMeshes.has(mesh)) return;
+    this.staleMeshes.delete(mesh);
+
+    const fadeAttribute = mesh.geometry.getAttribute(FADE_ATTRIBUTE) as THREE.BufferAttribute;
+    const candidates = new Set([...spatialIndex.queryFrustum(this.frustum), ...visible]);
+    candidates.forEach(index => {
+      const data = allData[index];
+      if (!data || data.isManuallyHidden) return;
+
+      const isVisible = this.isInstanceVisible(mesh, data);
+      if (isVisible === data.isVisible) return;
+      this.startFade(data, isVisible);
+      this.trackVisibility(mesh, index, data);
+      this.writeFade(fadeAttribute, index, data);
+      fadeAttribute.addUpdateRange(index * 2, 2);
+      fadeAttribute.needsUpdate = true;
+    });
+  }
+
+  /**
+   * Copia en la CPU de la intensidad que calcula el shader, con la cámara del último `update`.
+   */
+  public getInstanceIntensity(data: CelestialInstanceData): number {
+    if (data.isManuallyHidden) return 0;
+    const fade = this.getFadeFactor(data);
+    if (fade === 0) return 0;
+    const bloomDampening = this.uniforms.celestialBloomDampening.value;
+    let intensity: number;
+
+    if (this.uniforms.celestialOrthographic.value) {
+      const orthoIntensity = data.isDominant ? data.emissiveIntensity : (data.emissiveIntensity + data.baseEmissiveIntensity) / 2;
+      intensity = Math.min(orthoIntensity, ORTHO_MAX_INTENSITY) * bloomDampening * data.brightness;
+    } else {
+      const distance = data.position.distanceTo(this.cameraPosition);
+      const maxScale = Math.max(data.scale.x, data.scale.y, data.scale.z);
+      const visibilityDistance = Math.min(BASE_VISIBILITY_DISTANCE * data.luminosity, MAX_PERCEPTUAL_DISTANCE) * PERSPECTIVE_VISIBILITY_MULTIPLIER;
+
+      const falloff = THREE.MathUtils.clamp(THREE.MathUtils.inverseLerp(maxScale * 80.0, maxScale * 10.0, distance), 0.0, 1.0);
+      const proximityFade = THREE.MathUtils.smoothstep(distance, maxScale * 1.5, maxScale * 3.0);
+      intensity = Math.min(THREE.MathUtils.lerp(data.emissiveIntensity, data.baseEmissiveIntensity, falloff), MAX_INTENSITY) * bloomDampening * data.brightness * proximityFade;
+
+      const fogStart = visibilityDistance * FOG_START_DISTANCE_MULTIPLIER;
+      if (distance > fogStart) {
+        intensity *= 1.0 - THREE.MathUtils.inverseLerp(fogStart, visibilityDistance, distance) * FOG_DENSITY;
+      }
+    }
+    intensity = Math.max(intensity, 0) * fade;
+    return intensity > MIN_VISIBLE_INTENSITY ? intensity : 0;
+  }
+
+  /** Instancias de la malla que se ven desde la cámara: dentro del frustum (según el índice) y encendidas. */
+  public countVisibleInstances(mesh: THREE.InstancedMesh, camera: THREE.Camera): number {
+    const allData: CelestialInstanceData[] = mesh.userData['celestialData'] ?? [];
+    camera.updateMatrixWorld();
+    this.projScreenMatrix.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
+    this.frustum.setFromProjectionMatrix(this.projScreenMatrix);
+
+    const ids = this.spatialIndexes.get(mesh)?.queryFrustum(this.frustum) ?? [];
+    return ids.reduce((count, id) => count + (this.getInstanceIntensity(allData[id]) > 0 ? 1 : 0), 0);
+  }
+
+  /** ✨ NUEVO: Instancias de la malla cuya esfera toca la esfera dada. */
+  public findInstancesInRadius(mesh: THREE.InstancedMesh, center: THREE.Vector3, radius: number): number[] {
+    return this.spatialIndexes.get(mesh)?.queryRadius(center, radius) ?? [];
+  }
+
+  private writeAttributes(mesh: THREE.InstancedMesh, index: number, data: CelestialInstanceData): void {
+    this.writeMatrix(mesh, index, data);
+    mesh.setColorAt(index, data.originalColor);
+    (mesh.geometry.getAttribute(EMISSION_ATTRIBUTE) as THREE.BufferAttribute)
+      .setXYZW(index, data.luminosity, data.emissiveIntensity, data.baseEmissiveIntensity, data.brightness);
+    (mesh.geometry.getAttribute(FLAGS_ATTRIBUTE) as THREE.BufferAttribute)
+      .setXY(index, data.isManuallyHidden ? 1 : 0, data.isDominant ? 1 : 0);
+    this.writeFade(mesh.geometry.getAttribute(FADE_ATTRIBUTE) as THREE.BufferAttribute, index, data);
+  }
+
+  /** Un fundido terminado hace mucho se sube como recién terminado: float32 no admite `-Infinity` con garantías. */
+  private writeFade(attribute: THREE.BufferAttribute, index: number, data: CelestialInstanceData): void {
+    const fadeStartTime = Math.max(data.fadeStartTime, this.uniforms.celestialTime.value - FADE_SETTLED_SECONDS);
+    attribute.setXY(index, fadeStartTime, data.isVisible ? 1 : 0);
+  }
+
+  private trackVisibility(mesh: THREE.InstancedMesh, index: number, data: CelestialInstanceData): void {
+    const visible = this.visibleInstances.get(mesh);
+    if (!visible) return;
+    if (data.isVisible) visible.add(index);
+    else visible.delete(index);
+  }
+
+  /** Copia en la CPU de `celestialFadeFactor`. */
+  private getFadeFactor(data: CelestialInstanceData): number {
+    const elapsed = Math.max(this.uniforms.celestialTime.value - data.fadeStartTime, 0);
+    return data.isVisible ? 1 - Math.exp(-FADE_IN_SPEED * elapsed) : Math.exp(-FADE_OUT_SPEED * elapsed);
+  }
+
+  /**
+   * Cambia el sentido del fundido sin saltos: el inicio se adelanta o se retrasa para que la nueva curva
+   * parta del valor que tenía la anterior en este momento.
+   */
+  private startFade(data: CelestialInstanceData, isVisible: boolean): void {
+    const current = this.getFadeFactor(data);
+    const now = this.uniforms.celestialTime.value;
+    data.isVisible = isVisible;
+    data.fadeStartTime = isVisible ? now + Math.log(1 - current) / FADE_IN_SPEED : now + Math.log(current) / FADE_OUT_SPEED;
+  }
+
+  /**
+   * Fuera del frustum la instancia se apaga, para que al girar la cámara las que entran aparezcan con su fundido.
+   * Dentro, en ortográfica todo está a la vista; en perspectiva, la distancia con histéresis mientras sea visible.
+   */
+  private isInstanceVisible(mesh: THREE.InstancedMesh, data: CelestialInstanceData): boolean {
+    this.tempSphere.set(data.position, this.getInstanceRadius(mesh, data));
+    if (!this.frustum.intersectsSphere(this.tempSphere)) return false;
+    if (this.uniforms.celestialOrthographic.value) return true;
+    const visibilityDistance = Math.min(BASE_VISIBILITY_DISTANCE * data.luminosity, MAX_PERCEPTUAL_DISTANCE) * PERSPECTIVE_VISIBILITY_MULTIPLIER;
+    const limit = data.isVisible ? visibilityDistance * VISIBILITY_HYSTERESIS_FACTOR : visibilityDistance;
+    return data.position.distanceToSquared(this.cameraPosition) <= limit * limit;
+  }
+
+  /**
+   * La rotación no se usa (el shader orienta la instancia) y la escala es la de los datos, sin el aumento.
+   * La matriz guarda la posición absoluta redondeada a float32; lo que se pierde va a `celestialPositionLow`.
+   */
+  private writeMatrix(mesh: THREE.InstancedMesh, index: number, data: CelestialInstanceData): void {
+    const { x, y, z } = data.position;
+    this.tempMatrix.compose(data.position, this.identityQuaternion, data.scale);
+    mesh.setMatrixAt(index, this.tempMatrix);
+    (mesh.geometry.getAttribute(POSITION_LOW_ATTRIBUTE) as THREE.BufferAttribute)
+      .setXYZ(index, float32Residual(x), float32Residual(y), float32Residual(z));
+  }
+
+  private patchMaterial(material: THREE.MeshBasicMaterial): void {
+    material.onBeforeCompile = shader => {
+      Object.assign(shader.uniforms, this.uniforms);
+      shader.vertexShader = shader.vertexShader
+        .replace('#include <common>', `#include <common>\n#define CELESTIAL_SCALE_BOOST ${glslFloat(DEEP_SPACE_SCALE_BOOST)}\n${VERTEX_PARS}`)
+        .replace('#include <project_vertex>', VERTEX_PROJECT);
+      shader.fragmentShader = shader.fragmentShader
+        .replace('#include <common>', `#include <common>\n${FRAGMENT_PARS}`)
+        .replace('#include <color_fragment>', '#include <color_fragment>\n\tdiffuseColor.rgb *= vCelestialIntensity;');
+    };
+    material.customProgramCacheKey = () => 'celestial-instances';
+    material.needsUpdate = true;
+  }
+
+  /**
+   * Las instancias se pintan orientadas a la cámara, así que se prueban como esferas (las del índice)
+   * en vez de con la geometría. Solo cuentan las que se ven.
+   */
+  private raycastInstances(mesh: THREE.InstancedMesh, raycaster: THREE.Raycaster, intersects: THREE.Intersection[]): void {
+    const allData: CelestialInstanceData[] = mesh.userData['celestialData'] ?? [];
+    const hits = this.spatialIndexes.get(mesh)?.raycast(raycaster.ray, raycaster.far) ?? [];
+
+    hits.forEach(hit => {
+      if (hit.distance < raycaster.near || this.getInstanceIntensity(allData[hit.id]) === 0) return;
+      intersects.push({ distance: hit.distance, point: hit.point, object: mesh, instanceId: hit.id });
+    });
+  }
+
+  private buildSpatialIndex(mesh: THREE.InstancedMesh): void {
+    const allData: CelestialInstanceData[] = mesh.userData['celestialData'] ?? [];
+    const index = new InstanceOctree();
+    index.build(allData.map((data, id) => ({ id, center: data.position, radius: this.getInstanceRadius(mesh, data) })));
+    this.spatialIndexes.set(mesh, index);
+  }
+
+  /** Radio de la instancia tal como se pinta: el de la geometría por su mayor escala y el aumento. */
+  private getInstanceRadius(mesh: THREE.InstancedMesh, data: CelestialInstanceData): number {
+    if (!mesh.geometry.boundingSphere) mesh.geometry.computeBoundingSphere();
+    return mesh.geometry.boundingSphere!.radius * Math.max(data.scale.x, data.scale.y, data.scale.z) * DEEP_SPACE_SCALE_BOOST;
+  }
+}
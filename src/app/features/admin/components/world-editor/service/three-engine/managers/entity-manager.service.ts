@@ -6,6 +6,7 @@ import { CelestialInstanceData, ObjectManagerService } from './object-manager.se
 import { SceneObjectResponse } from '../../../../../services/admin.service';
 import { SelectionManagerService } from '../interactions/selection-manager.service';
 import { LabelManagerService } from './label-manager.service';
+import { CelestialInstancesManagerService } from './celestial-instances.manager.service';
 
 /**
  * @interface SceneEntity
@@ -46,14 +47,15 @@ export class EntityManagerService {
   private gltfLoader!: GLTFLoader;
   private sceneEntities = new BehaviorSubject<SceneEntity[]>([]);
   private hoverProxy: THREE.Mesh | null = null;
-  private unselectableNames = ['Luz Ambiental', 'FocusPivot', 'EditorGrid', 'SelectionProxy', 'HoverProxy'];
-  private zeroMatrix = new THREE.Matrix4().makeScale(0, 0, 0);
+  private unselectableNames = ['Luz Ambiental', 'GlobalDirectionalLight', 'FocusPivot', 'EditorGrid', 'SelectionProxy', 'GroupSelectionProxy', 'HoverProxy', 'SelectionGroupPivot'];
+  private groupSelectionProxies: THREE.Mesh[] = [];
   private lastHoveredUuid: string | null = null;
 
   constructor(
     public objectManager: ObjectManagerService,
     private selectionManager: SelectionManagerService,
-    private labelManager: LabelManagerService
+    private labelManager: LabelManagerService,
+    private celestialInstances: CelestialInstancesManagerService
   ) { }
 
   public init(scene: THREE.Scene): void {
@@ -65,7 +67,7 @@ export class EntityManagerService {
   public publishSceneEntities(): void {
     const entities: SceneEntity[] = [];
     this.scene.children.forEach(object => {
-      if (!object.name.endsWith('_helper') && !this.unselectableNames.includes(object.name) && !object.name.startsWith(CELESTIAL_MESH_PREFIX)) {
+      if (this.isSelectableEntity(object)) {
         const apiType = object.userData['apiType'] as SceneEntity['type'] | undefined;
         const objectType = object.type === 'Group' ? 'Model' : apiType;
         const finalType = objectType || (object instanceof THREE.PerspectiveCamera ? 'camera' : (object instanceof THREE.Light ? 'directionalLight' : 'Model'));
@@ -127,8 +129,8 @@ export class EntityManagerService {
 
     const celestialInstance = this._findCelestialInstance(uuid);
     if (celestialInstance) {
-      const { data, mesh } = celestialInstance;
-      const selectionProxy = this.objectManager.createSelectionProxy(mesh.geometry);
+      const { data } = celestialInstance;
+      const selectionProxy = this.objectManager.createSelectionProxy(this.objectManager.getCelestialProxyGeometry());
       selectionProxy.position.copy(data.position);
       // ✨ LÓGICA CORREGIDA: Se aplica el multiplicador aumentado para que el aro amarillo rodee el objeto.
       selectionProxy.scale.copy(data.scale)
@@ -145,9 +147,63 @@ export class EntityManagerService {
     this.selectionManager.setSelectedObjects([]);
   }
 
+  /**
+   * ✨ NUEVO: Crea un aro de selección para una instancia celestial dentro de una selección múltiple.
+   * A diferencia del `SelectionProxy`, puede haber varios a la vez.
+   */
+  public createGroupSelectionProxy(instance: { mesh: THREE.InstancedMesh, data: CelestialInstanceData }): THREE.Mesh {
+    const proxy = this.objectManager.createSelectionProxy(this.objectManager.getCelestialProxyGeometry());
+    proxy.name = 'GroupSelectionProxy';
+    proxy.position.copy(instance.data.position);
+    proxy.scale.copy(instance.data.scale)
+      .multiplyScalar(PROXY_SCALE_MULTIPLIER)
+      .multiplyScalar(DEEP_SPACE_SCALE_BOOST);
+    proxy.uuid = instance.data.originalUuid;
+
+    this.scene.add(proxy);
+    this.groupSelectionProxies.push(proxy);
+    return proxy;
+  }
+
+  public clearGroupSelectionProxies(): void {
+    this.groupSelectionProxies.forEach(proxy => {
+      this.scene.remove(proxy);
+      (proxy.material as THREE.Material).dispose();
+    });
+    this.groupSelectionProxies = [];
+  }
+
+  /**
+   * ✨ NUEVO: Devuelve los UUIDs de las entidades cuya posición proyectada cae dentro de un rectángulo
+   * de pantalla (en coordenadas normalizadas, -1 a 1). Usado por la selección por caja.
+   */
+  public getUuidsInScreenRect(camera: THREE.Camera, min: THREE.Vector2, max: THREE.Vector2): string[] {
+    const uuids: string[] = [];
+    const projected = new THREE.Vector3();
+    const isInside = (position: THREE.Vector3): boolean => {
+      projected.copy(position).project(camera);
+      return projected.x >= min.x && projected.x <= max.x && projected.y >= min.y && projected.y <= max.y && projected.z >= -1 && projected.z <= 1;
+    };
+
+    this.scene.children.forEach(object => {
+      if (object.name.startsWith(CELESTIAL_MESH_PREFIX)) {
+        const allInstanceData: CelestialInstanceData[] = object.userData["celestialData"] ?? [];
+        allInstanceData.forEach(data => {
+          if (!data.isManuallyHidden && isInside(data.position)) uuids.push(data.originalUuid);
+        });
+        return;
+      }
+      // Solo los objetos persistidos (con tipo de la API) son seleccionables por caja.
+      if (!object.visible || !object.userData['apiType'] || !this.isSelectableEntity(object)) return;
+      if (isInside(object.getWorldPosition(new THREE.Vector3()))) uuids.push(object.uuid);
+    });
+
+    return uuids;
+  }
+
   public createOrUpdateHoverProxy(instancedMesh: THREE.InstancedMesh, instanceId: number): THREE.Mesh {
     if (!this.hoverProxy) {
-      const newProxy = this.objectManager.createHoverProxy(instancedMesh.geometry);
+      const newProxy = this.objectManager.createHoverProxy(this.objectManager.getCelestialProxyGeometry());
       newProxy.name = 'HoverProxy';
       this.scene.add(newProxy);
       this.hoverProxy = newProxy;
@@ -208,7 +264,6 @@ export class EntityManagerService {
 
   public setGroupVisibility(uuids: string[], visible: boolean): void {
     if (!this.scene) return;
-    const meshesToUpdate = new Set<THREE.InstancedMesh>();
 
     uuids.forEach(uuid => {
       const standardObject = this.scene.getObjectByProperty('uuid', uuid);
@@ -220,13 +275,9 @@ export class EntityManagerService {
       const instanceInfo = this._findCelestialInstance(uuid);
       if (instanceInfo) {
         instanceInfo.data.isManuallyHidden = !visible;
-        const matrixToApply = visible ? instanceInfo.data.originalMatrix : this.zeroMatrix;
-        instanceInfo.mesh.setMatrixAt(instanceInfo.instanceIndex, matrixToApply);
-        meshesToUpdate.add(instanceInfo.mesh);
+        this.celestialInstances.writeInstance(instanceInfo.mesh, instanceInfo.instanceIndex, instanceInfo.data);
       }
     });
-
-    meshesToUpdate.forEach(mesh => mesh.instanceMatrix.needsUpdate = true);
   }
 
   public setGroupBrightness(uuids: string[], brightness: number): void {
@@ -237,7 +288,12 @@ export class EntityManagerService {
         standardObject.traverse(child => {
           if (child instanceof THREE.Mesh) {
             const materials = Array.isArray(child.material) ? child.material : [child.material];
-            materials.forEach(mat => { mat.transparent = brightness < 1.0; mat.opacity = brightness; });
+            materials.forEach(mat => {
+              // Respeta la opacidad elegida en el editor de materiales (`baseOpacity`).
+              const baseOpacity = mat.userData['baseOpacity'] ?? 1.0;
+              mat.transparent = brightness < 1.0 || baseOpacity < 1.0;
+              mat.opacity = baseOpacity * brightness;
+            });
           }
         });
         return;
@@ -245,6 +301,7 @@ export class EntityManagerService {
       const instanceInfo = this._findCelestialInstance(uuid);
       if (instanceInfo) {
         instanceInfo.data.brightness = brightness;
+        this.celestialInstances.writeInstance(instanceInfo.mesh, instanceInfo.instanceIndex, instanceInfo.data);
       }
     });
   }
@@ -259,12 +316,19 @@ export class EntityManagerService {
     this.scene.children.forEach(object => {
       if (object.name.startsWith(CELESTIAL_MESH_PREFIX)) {
         const allInstanceData = (object as THREE.InstancedMesh).userData["celestialData"] as CelestialInstanceData[] | undefined;
-        if (allInstanceData) { allInstanceData.forEach(data => data.brightness = 1.0); }
+        if (allInstanceData) {
+          allInstanceData.forEach(data => data.brightness = 1.0);
+          this.celestialInstances.writeAllInstances(object as THREE.InstancedMesh);
+        }
       } else if (!this.unselectableNames.includes(object.name)) {
         object.traverse(child => {
           if (child instanceof THREE.Mesh) {
             const materials = Array.isArray(child.material) ? child.material : [child.material];
-            materials.forEach(mat => { if (mat.transparent) { mat.transparent = false; mat.opacity = 1.0; } });
+            materials.forEach(mat => {
+              const baseOpacity = mat.userData['baseOpacity'];
+              if (baseOpacity !== undefined) { mat.opacity = baseOpacity; mat.transparent = baseOpacity < 1.0; }
+              else if (mat.transparent) { mat.transparent = false; mat.opacity = 1.0; }
+            });
           }
         });
       }
@@ -325,6 +389,51 @@ export class EntityManagerService {
     return obj;
   }
 
+  /**
+   * ✨ NUEVO: Añade un objeto celestial instanciado (ej. al duplicarlo o restaurarlo de la papelera).
+   */
+  public addCelestialInstance(objData: SceneObjectResponse): void {
+    this.objectManager.addCelestialInstance(this.scene, objData, this.gltfLoader);
+    this.publishSceneEntities();
+  }
+
+  /**
+   * ✨ NUEVO: Elimina un objeto de la escena junto con su helper y su etiqueta.
+   * Si es una instancia de un `CelestialObjects_*`, la última instancia ocupa su hueco
+   * y se reduce el `count` del InstancedMesh.
+   */
+  public removeObjectByUuid(uuid: string): void {
+    if (!this.scene) return;
+    if (this.lastHoveredUuid === uuid || this.hoverProxy?.uuid === uuid) this.removeHoverProxy();
+
+    const object = this.getObjectByUuid(uuid);
+    if (object && !this.unselectableNames.includes(object.name)) {
+      const helper = object.userData['helper'] as (THREE.Object3D & { dispose?: () => void }) | undefined;
+      if (helper) {
+        this.scene.remove(helper);
+        helper.dispose?.();
+      }
+      object.parent?.remove(object);
+      object.traverse(child => {
+        if (child instanceof THREE.Mesh) {
+          if (!this.objectManager.isSharedGeometry(child.geometry)) child.geometry?.dispose();
+          const materials = Array.isArray(child.material) ? child.material : [child.material];
+          materials.forEach(m => m?.dispose());
+        }
+      });
+    } else {
+      const instanceInfo = this._findCelestialInstance(uuid);
+      if (instanceInfo) this.celestialInstances.removeInstance(instanceInfo.mesh, instanceInfo.instanceIndex);
+    }
+
+    this.labelManager.unregisterObject(uuid);
+    this.publishSceneEntities();
+  }
+
+  private isSelectableEntity(object: THREE.Object3D): boolean {
+    return !object.name.endsWith('_helper') && !this.unselectableNames.includes(object.name) && !object.name.startsWith(CELESTIAL_MESH_PREFIX);
+  }
+
   public getLoadingManager(): THREE.LoadingManager { return this.gltfLoader.manager; }
   public getGltfLoader(): GLTFLoader { return this.gltfLoader; }
   public getSceneEntities(): Observable<SceneEntity[]> { return this.sceneEntities.asObservable(); }
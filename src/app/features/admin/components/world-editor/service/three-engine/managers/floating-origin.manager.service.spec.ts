@@ -0,0 +1,70 @@
+import * as THREE from 'three';
+import { CelestialInstancesManagerService } from './celestial-instances.manager.service';
+import { FloatingOriginManagerService } from './floating-origin.manager.service';
+
+const worldPosition = (object: THREE.Object3D) => new THREE.Vector3().setFromMatrixPosition(object.matrixWorld);
+
+describe('FloatingOriginManagerService', () => {
+  let scene: THREE.Scene;
+  let camera: THREE.PerspectiveCamera;
+  let floatingOrigin: FloatingOriginManagerService;
+  let helpers: { helper: THREE.Object3D; target: THREE.Object3D }[];
+
+  beforeEach(() => {
+    const celestialInstances = jasmine.createSpyObj<CelestialInstancesManagerService>('CelestialInstancesManagerService', ['setRenderOrigin']);
+    floatingOrigin = new FloatingOriginManagerService(celestialInstances);
+    scene = new THREE.Scene();
+    floatingOrigin.init(scene);
+
+    camera = new THREE.PerspectiveCamera(50, 1, 0.1, 1000);
+    camera.position.set(5e6, -2e6, 3e6);
+
+    const cameraObject = new THREE.PerspectiveCamera(50, 16 / 9, 0.1, 100);
+    cameraObject.position.set(5e6 + 20, -2e6, 3e6 - 40);
+    const pointLight = new THREE.PointLight();
+    pointLight.position.set(5e6 - 15, -2e6 + 5, 3e6);
+    const directionalLight = new THREE.DirectionalLight();
+    directionalLight.position.set(5e6, -2e6 + 30, 3e6 + 10);
+    const hemisphereLight = new THREE.HemisphereLight();
+    hemisphereLight.position.set(5e6 + 8, -2e6 - 8, 3e6);
+
+    scene.add(camera, cameraObject, pointLight, directionalLight, hemisphereLight);
+    scene.updateMatrixWorld();
+    helpers = [
+      { helper: new THREE.CameraHelper(cameraObject), target: cameraObject },
+      { helper: new THREE.PointLightHelper(pointLight), target: pointLight },
+      { helper: new THREE.DirectionalLightHelper(directionalLight), target: directionalLight },
+      { helper: new THREE.HemisphereLightHelper(hemisphereLight, 1), target: hemisphereLight }
+    ];
+    helpers.forEach(({ helper }) => scene.add(helper));
+
+    floatingOrigin.update(camera);
+  });
+
+  it('should rebase the origin on the camera once it moves away', () => {
+    expect(floatingOrigin.getOrigin().equals(camera.position)).toBeTrue();
+  });
+
+  it('should keep camera and light helpers on their objects while rendering after a rebase', () => {
+    floatingOrigin.beginRender(camera);
+    scene.updateMatrixWorld();
+
+    helpers.forEach(({ helper, target }) => {
+      const expected = worldPosition(target);
+      expect(expected.length()).toBeLessThan(100);
+      expect(worldPosition(helper).distanceTo(expected)).toBeLessThan(1e-6);
+    });
+    floatingOrigin.endRender();
+  });
+
+  it('should give helpers back their objects\' absolute matrix after rendering', () => {
+    floatingOrigin.beginRender(camera);
+    scene.updateMatrixWorld();
+    floatingOrigin.endRender();
+
+    helpers.forEach(({ helper, target }) => {
+      expect(helper.matrix).toBe(target.matrixWorld);
+      expect(worldPosition(helper).equals(worldPosition(target))).toBeTrue();
+    });
+  });
+});
@@ -0,0 +1,116 @@
+// src/app/features/admin/components/world-editor/service/three-engine/managers/floating-origin.manager.service.ts
+
+import { Injectable } from '@angular/core';
+import * as THREE from 'three';
+import { CelestialInstancesManagerService } from './celestial-instances.manager.service';
+
+/**
+ * Distancia de la cámara al origen flotante a partir de la cual se re-centra el mundo.
+ * A esta distancia un float32 todavía distingue milímetros. Re-centrar no reescribe ningún buffer.
+ */
+const REBASE_DISTANCE = 10000;
+
+/**
+ * @class FloatingOriginManagerService
+ * @description
+ * ✨ NUEVO: Origen flotante para las coordenadas astronómicas (1e10 y más). Fuera del render todo sigue en
+ * coordenadas absolutas en doble precisión (`SceneObjectResponse`, `CelestialInstanceData`, posiciones de los
+ * objetos y de las cámaras), así que cámaras, etiquetas, arrastre y guardado no saben nada del origen.
+ *
+ * Solo mientras se pinta se desplaza la escena para que el origen quede en (0, 0, 0): la GPU recibe posiciones
+ * pequeñas y desaparece el temblor de float32. El origen se re-centra en la cámara cuando esta se aleja más de
+ * `REBASE_DISTANCE`. Las instancias celestiales no se mueven con la escena: su shader resta el origen
+ * (`CelestialInstancesManagerService.setRenderOrigin`) con más precisión de la que da float32.
+ *
+ * Los ayudantes de cámaras y luces (`CameraHelper`, `PointLightHelper`...) usan como `matrix` la propia
+ * `matrixWorld` de su objetivo; como cuelgan de la escena, el desplazamiento se les aplicaría dos veces.
+ * Mientras se pinta usan una copia de la matriz absoluta de su objetivo.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class FloatingOriginManagerService {
+  private scene!: THREE.Scene;
+  private origin = new THREE.Vector3();
+  private shiftedCamera: THREE.Camera | null = null;
+  private shiftedTargets: THREE.Object3D[] = [];
+  private detachedHelpers: { helper: THREE.Object3D; target: THREE.Object3D }[] = [];
+  private helperMatrices = new WeakMap<THREE.Object3D, THREE.Matrix4>();
+  private tempCameraPosition = new THREE.Vector3();
+
+  constructor(private celestialInstances: CelestialInstancesManagerService) { }
+
+  public init(scene: THREE.Scene): void {
+    this.scene = scene;
+  }
+
+  public getOrigin(): THREE.Vector3 {
+    return this.origin.clone();
+  }
+
+  /** Re-centra el origen si la cámara se ha alejado. */
+  public update(camera: THREE.Camera): void {
+    camera.getWorldPosition(this.tempCameraPosition);
+    if (this.tempCameraPosition.distanceTo(this.origin) > REBASE_DISTANCE) {
+      this.origin.copy(this.tempCameraPosition);
+    }
+  }
+
+  /**
+   * Desplaza la escena (y la cámara si no cuelga de ella) para pintar con el origen en (0, 0, 0).
+   * Las instancias celestiales reciben el mismo desplazamiento como uniform. Debe cerrarse siempre con `endRender`.
+   */
+  public beginRender(camera: THREE.Camera): void {
+    // La copia se toma antes de desplazar la escena, con el objetivo en coordenadas absolutas.
+    this.scene.children.forEach(object => {
+      const target = this.getHelperTarget(object);
+      if (!target) return;
+      target.updateWorldMatrix(true, false);
+      const matrix = this.helperMatrices.get(object) ?? new THREE.Matrix4();
+      this.helperMatrices.set(object, matrix.copy(target.matrixWorld));
+      object.matrix = matrix;
+      this.detachedHelpers.push({ helper: object, target });
+    });
+
+    this.scene.position.copy(this.origin).negate();
+    this.celestialInstances.setRenderOrigin(this.origin);
+    if (!camera.parent) {
+      camera.position.sub(this.origin);
+      this.shiftedCamera = camera;
+    }
+    // El objetivo de una luz direccional no suele estar en la escena; sin moverlo, la luz cambiaría de dirección.
+    this.scene.children.forEach(object => {
+      if (object instanceof THREE.DirectionalLight && !object.target.parent) {
+        object.target.position.sub(this.origin);
+        object.target.updateMatrixWorld();
+        this.shiftedTargets.push(object.target);
+      }
+    });
+  }
+
+  /** Deshace el desplazamiento y recalcula las matrices para que rayos y cajas vuelvan a ser absolutos. */
+  public endRender(): void {
+    this.detachedHelpers.forEach(({ helper, target }) => helper.matrix = target.matrixWorld);
+    this.detachedHelpers = [];
+    this.scene.position.set(0, 0, 0);
+    this.celestialInstances.setRenderOrigin(this.scene.position);
+    this.scene.updateMatrixWorld();
+    if (this.shiftedCamera) {
+      this.shiftedCamera.position.add(this.origin);
+      this.shiftedCamera.updateMatrixWorld();
+      this.shiftedCamera = null;
+    }
+    this.shiftedTargets.forEach(target => {
+      target.position.add(this.origin);
+      target.updateMatrixWorld();
+    });
+    this.shiftedTargets = [];
+  }
+
+  /** Objetivo de un ayudante que comparte su `matrixWorld` como matriz propia; `null` para el resto. */
+  private getHelperTarget(object: THREE.Object3D): THREE.Object3D | null {
+    const { camera, light } = object as THREE.Object3D & { camera?: unknown; light?: unknown };
+    const target = camera ?? light;
+    return target instanceof THREE.Object3D && object.matrix === target.matrixWorld ? target : null;
+  }
+}
@@ -0,0 +1,160 @@
+// src/app/features/admin/components/world-editor/service/three-engine/managers/gltf-export.manager.service.ts
+
+import { Injectable } from '@angular/core';
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { SceneObjectResponse } from '../../../../../services/admin.service';
+import { CelestialInstanceData } from './object-manager.service';
+
+/**
+ * @interface GltfExportOptions
+ * @description Opciones de la exportación a GLB.
+ */
+export interface GltfExportOptions {
+  /** Incluye `properties` y `galaxyData` de cada objeto como `extras` de glTF. */
+  includeExtras: boolean;
+  /** Datos de la API, usados para rellenar los `extras` por id de objeto. */
+  sceneObjects?: SceneObjectResponse[];
+  /** Factor de escala visual aplicado a las instancias celestiales en el editor. */
+  celestialScaleBoost?: number;
+}
+
+const CELESTIAL_MESH_PREFIX = 'CelestialObjects_';
+
+/**
+ * @class GltfExportManagerService
+ * @description
+ * Exporta la escena del episodio a GLB con `GLTFExporter`. Solo incluye los objetos que vienen
+ * de la API (primitivas, modelos GLB, luces, cámaras y cuerpos WMTS) y "hornea" cada instancia
+ * de los `CelestialObjects_*` como una malla independiente. Los objetos del editor (proxies de
+ * selección, pivotes, helpers y etiquetas) nunca se exportan.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class GltfExportManagerService {
+
+  private exporter = new GLTFExporter();
+
+  public async exportGlb(scene: THREE.Scene, options: GltfExportOptions): Promise<ArrayBuffer> {
+    const exportScene = this.buildExportScene(scene, options);
+    const result = await this.exporter.parseAsync(exportScene, { binary: true, onlyVisible: true });
+    this.disposeBakedMaterials(exportScene);
+    return result as ArrayBuffer;
+  }
+
+  private buildExportScene(scene: THREE.Scene, options: GltfExportOptions): THREE.Scene {
+    const exportScene = new THREE.Scene();
+    exportScene.name = scene.name || 'Episode';
+    const dataById = new Map((options.sceneObjects ?? []).map(o => [o.id.toString(), o]));
+
+    scene.children.forEach(object => {
+      if (object.name.startsWith(CELESTIAL_MESH_PREFIX) && object instanceof THREE.InstancedMesh) {
+        exportScene.add(this.bakeCelestialInstances(object, dataById, options));
+        return;
+      }
+
+      // Solo los objetos persistidos (con tipo de la API) forman parte del episodio.
+      if (!object.userData['apiType'] || !object.visible) return;
+
+      const clone = this.cloneWithoutUserData(object);
+      clone.userData = this.buildExtras(dataById.get(object.uuid), options);
+      if (clone instanceof THREE.Mesh && clone.material instanceof THREE.MeshBasicMaterial && clone.material.map instanceof THREE.VideoTexture) {
+        this.replaceVideoMaterial(clone);
+      }
+      exportScene.add(clone);
+    });
+
+    return exportScene;
+  }
+
+  /**
+   * Convierte cada instancia visible en una malla con la geometría y el material de su InstancedMesh,
+   * con la posición y escala que se ven en el editor y sin la rotación de billboard.
+   */
+  private bakeCelestialInstances(mesh: THREE.InstancedMesh, dataById: Map<string, SceneObjectResponse>, options: GltfExportOptions): THREE.Group {
+    const group = new THREE.Group();
+    group.name = mesh.name;
+    const allData: CelestialInstanceData[] = mesh.userData['celestialData'] ?? [];
+    const baseMaterial = mesh.material as THREE.MeshBasicMaterial;
+    const materialsByColor = new Map<string, THREE.MeshBasicMaterial>();
+    const boost = options.celestialScaleBoost ?? 1;
+    const geometry = this.withoutInstanceAttributes(mesh.geometry);
+
+    allData.forEach(data => {
+      if (data.isManuallyHidden) return;
+
+      const colorKey = data.originalColor.getHexString();
+      let material = materialsByColor.get(colorKey);
+      if (!material) {
+        material = baseMaterial.clone();
+        material.color.copy(data.originalColor);
+        material.userData['isBakedExportMaterial'] = true;
+        materialsByColor.set(colorKey, material);
+      }
+
+      const instanceMesh = new THREE.Mesh(geometry, material);
+      instanceMesh.name = data.originalName;
+      instanceMesh.position.copy(data.position);
+      instanceMesh.scale.copy(data.scale).multiplyScalar(boost);
+      instanceMesh.userData = this.buildExtras(dataById.get(data.originalUuid), options);
+      group.add(instanceMesh);
+    });
+
+    return group;
+  }
+
+  /**
+   * La geometría de un `CelestialObjects_*` lleva los atributos por instancia de su shader, que no pintan nada
+   * en una malla suelta. Se comparten los demás atributos sin copiarlos.
+   */
+  private withoutInstanceAttributes(source: THREE.BufferGeometry): THREE.BufferGeometry {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setIndex(source.index);
+    Object.entries(source.attributes).forEach(([name, attribute]) => {
+      if (!(attribute instanceof THREE.InstancedBufferAttribute)) geometry.setAttribute(name, attribute);
+    });
+    return geometry;
+  }
+
+  /**
+   * GLTFExporter no admite texturas de vídeo: la pantalla se exporta como un panel liso con el mismo tamaño.
+   */
+  private replaceVideoMaterial(mesh: THREE.Mesh): void {
+    const material = new THREE.MeshBasicMaterial({ color: 0x000000, side: THREE.DoubleSide });
+    material.userData['isBakedExportMaterial'] = true;
+    mesh.material = material;
+  }
+
+  /**
+   * `Object3D.clone` copia `userData` con JSON, lo que falla con los helpers y mezcladores
+   * guardados ahí. Se vacía temporalmente durante la clonación.
+   */
+  private cloneWithoutUserData(object: THREE.Object3D): THREE.Object3D {
+    const savedUserData = new Map<THREE.Object3D, Record<string, any>>();
+    object.traverse(node => {
+      savedUserData.set(node, node.userData);
+      node.userData = {};
+    });
+
+    const clone = object.clone(true);
+    savedUserData.forEach((userData, node) => node.userData = userData);
+    return clone;
+  }
+
+  private buildExtras(data: SceneObjectResponse | undefined, options: GltfExportOptions): Record<string, any> {
+    if (!options.includeExtras || !data) return {};
+    const extras: Record<string, any> = { id: data.id, type: data.type };
+    if (data.properties) extras['properties'] = data.properties;
+    if (data.galaxyData) extras['galaxyData'] = data.galaxyData;
+    return extras;
+  }
+
+  private disposeBakedMaterials(exportScene: THREE.Scene): void {
+    exportScene.traverse(node => {
+      if (node instanceof THREE.Mesh && node.material?.userData?.['isBakedExportMaterial']) {
+        (node.material as THREE.Material).dispose();
+      }
+    });
+  }
+}
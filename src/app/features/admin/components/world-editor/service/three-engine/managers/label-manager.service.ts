@@ -4,6 +4,8 @@ import { Injectable } from '@angular/core';
 import * as THREE from 'three';
 import { CelestialInstanceData } from './object-manager.service';
 import { DEEP_SPACE_SCALE_BOOST } from '../core/engine.service';
+import { CelestialInstancesManagerService } from './celestial-instances.manager.service';
+import { CELESTIAL_MESH_PREFIX } from '../helpers/constants';
 
 // ====================================================================
 // --- ✨ CONSTANTES AJUSTADAS PARA 3 CATEGORÍAS DE OBJETOS ---
@@ -44,6 +46,8 @@ interface ManagedLabel {
   targetPosition: THREE.Vector3;
   targetRadius: number;
   sprite: THREE.Sprite | null;
+  // ✨ NUEVO: Datos de la instancia (solo objetos instanciados), para despejar etiquetas que se solapan.
+  instanceData?: CelestialInstanceData;
   // Banderas para diferenciar los tipos de objetos
   isNormalizedModel: boolean;
   isLargeCelestialBody: boolean;
@@ -57,6 +61,9 @@ export class LabelManagerService {
   private labelPool: THREE.Sprite[] = [];
   private tempBox = new THREE.Box3();
   private tempVec3 = new THREE.Vector3();
+  private cameraPosition = new THREE.Vector3();
+
+  constructor(private celestialInstances: CelestialInstancesManagerService) { }
 
   public init(scene: THREE.Scene): void {
     this.scene = scene;
@@ -101,6 +108,7 @@ export class LabelManagerService {
       targetPosition: instanceData.position.clone(),
       targetRadius: radius,
       sprite: null,
+      instanceData,
       isNormalizedModel: false,
       isLargeCelestialBody: false, // Los objetos instanciados no son cuerpos grandes.
     });
@@ -121,6 +129,21 @@ export class LabelManagerService {
     }
   }
 
+  /**
+   * ✨ NUEVO: Elimina el registro de un objeto (ej. al borrarlo de la escena) y devuelve su sprite al pool.
+   */
+  public unregisterObject(uuid: string): void {
+    this.hideLabel(uuid);
+    this.registeredLabels.delete(uuid);
+  }
+
+  /**
+   * ✨ NUEVO: Número de etiquetas con sprite en la escena (para el panel de rendimiento).
+   */
+  public getActiveLabelCount(): number {
+    return this.activeLabels.size;
+  }
+
   public hideAllLabels(): void {
     const allActiveLabels = [...this.activeLabels.values()];
     allActiveLabels.forEach(label => this._deactivateLabel(label));
@@ -170,6 +193,38 @@ export class LabelManagerService {
     });
   }
 
+  /**
+   * ✨ NUEVO: Despeja las etiquetas de objetos instanciados (ej. al seleccionar muchas galaxias a la vez).
+   * De la más cercana a la cámara a la más lejana, cada etiqueta visible oculta las de las instancias que el
+   * índice espacial encuentra a menos de media etiqueta de la suya.
+   */
+  public declutter(camera: THREE.Camera): void {
+    camera.getWorldPosition(this.cameraPosition);
+    const instancedLabels = [...this.activeLabels.values()]
+      .filter(label => label.sprite && label.instanceData)
+      .sort((a, b) => a.instanceData!.position.distanceToSquared(this.cameraPosition) - b.instanceData!.position.distanceToSquared(this.cameraPosition));
+    if (instancedLabels.length < 2) {
+      instancedLabels.forEach(label => label.sprite!.visible = true);
+      return;
+    }
+
+    const meshes = this.scene.children.filter((object): object is THREE.InstancedMesh => object instanceof THREE.InstancedMesh && object.name.startsWith(CELESTIAL_MESH_PREFIX));
+    const hiddenUuids = new Set<string>();
+    instancedLabels.forEach(label => {
+      const sprite = label.sprite!;
+      sprite.visible = !hiddenUuids.has(label.uuid);
+      if (!sprite.visible) return;
+
+      meshes.forEach(mesh => {
+        const allData: CelestialInstanceData[] = mesh.userData['celestialData'] ?? [];
+        this.celestialInstances.findInstancesInRadius(mesh, label.instanceData!.position, sprite.scale.x / 2).forEach(id => {
+          const uuid = allData[id]?.originalUuid;
+          if (uuid && uuid !== label.uuid && this.activeLabels.has(uuid)) hiddenUuids.add(uuid);
+        });
+      });
+    });
+  }
+
   public clear(): void {
     this.hideAllLabels();
     this.labelPool.forEach(sprite => {
@@ -2,7 +2,97 @@
 
 import { Injectable } from '@angular/core';
 import * as THREE from 'three';
+import { SceneEnvironmentSettings, SceneObjectResponse, SceneObjectType } from '../../../../../services/admin.service';
 
+/** Tipos de objeto de escena que son luces. */
+export const LIGHT_OBJECT_TYPES: readonly SceneObjectType[] = ['ambientLight', 'directionalLight', 'pointLight', 'spotLight', 'hemisphereLight'];
+
+export const GLOBAL_AMBIENT_LIGHT_NAME = 'Luz Ambiental';
+export const GLOBAL_DIRECTIONAL_LIGHT_NAME = 'GlobalDirectionalLight';
+
+/**
+ * Valores de las luces globales cuando la escena no guarda los suyos (ver `SceneEnvironmentSettings`).
+ * La luz ambiental sustituye a las dos que había antes ('Luz Ambiental' a 5.0 y 'GlobalAmbientLight' a 1.5),
+ * así que su intensidad es la suma para que los episodios sin ajustes se vean igual.
+ */
+export const DEFAULT_GLOBAL_LIGHTS = {
+  ambientColor: '#ffffff',
+  ambientIntensity: 6.5,
+  directionalColor: '#ffffff',
+  directionalIntensity: 0.5,
+  directionalPosition: { x: 5, y: 10, z: 7.5 },
+  directionalCastShadow: false
+};
+
+/**
+ * @interface LightSettings
+ * @description Propiedades editables de una luz, leídas de sus `properties`. No todas aplican a todos los tipos
+ * (ver `LIGHT_SETTING_KEYS`). `angle` se guarda en grados.
+ */
+export interface LightSettings {
+  color: string;
+  groundColor: string;
+  intensity: number;
+  distance: number;
+  decay: number;
+  angle: number;
+  penumbra: number;
+  castShadow: boolean;
+}
+
+/** Qué propiedades de `LightSettings` tiene cada tipo de luz, en el orden del panel. */
+export const LIGHT_SETTING_KEYS: Record<string, (keyof LightSettings)[]> = {
+  ambientLight: ['color', 'intensity'],
+  hemisphereLight: ['color', 'groundColor', 'intensity'],
+  directionalLight: ['color', 'intensity', 'castShadow'],
+  pointLight: ['color', 'intensity', 'distance', 'decay', 'castShadow'],
+  spotLight: ['color', 'intensity', 'distance', 'decay', 'angle', 'penumbra', 'castShadow']
+};
+
+const DEFAULT_INTENSITY: Record<string, number> = {
+  ambientLight: 0.5,
+  hemisphereLight: 1,
+  directionalLight: 1,
+  pointLight: 20,
+  spotLight: 50
+};
+const DEFAULT_SPOT_ANGLE = 30;
+const MAX_SPOT_ANGLE = 90;
+const SHADOW_MAP_SIZE = 1024;
+const AMBIENT_HELPER_RADIUS = 0.5;
+
+/**
+ * Lee las propiedades de una luz con sus valores por defecto.
+ */
+export function getLightSettings(type: string, properties: Record<string, any> | null | undefined): LightSettings {
+  const props = properties ?? {};
+  return {
+    color: toHexColor(props['color'], '#ffffff'),
+    groundColor: toHexColor(props['groundColor'], '#444444'),
+    intensity: toNumber(props['intensity'], DEFAULT_INTENSITY[type] ?? 1),
+    distance: toNumber(props['distance'], 0),
+    decay: toNumber(props['decay'], 2),
+    angle: THREE.MathUtils.clamp(toNumber(props['angle'], DEFAULT_SPOT_ANGLE), 1, MAX_SPOT_ANGLE),
+    penumbra: THREE.MathUtils.clamp(toNumber(props['penumbra'], 0.2), 0, 1),
+    castShadow: props['castShadow'] === true
+  };
+}
+
+function toHexColor(value: unknown, fallback: string): string {
+  return typeof value === 'string' && /^#([0-9a-f]{3}){1,2}$/i.test(value) ? value.toLowerCase() : fallback;
+}
+
+function toNumber(value: unknown, fallback: number): number {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+type LightHelper = THREE.Object3D & { update?: () => void; dispose?: () => void };
+
+/**
+ * ✨ NUEVO: Crea las luces de la escena (las globales y las que son objetos) y les aplica sus propiedades.
+ * Cada luz-objeto guarda su ayudante en `userData['helper']`, como las cámaras.
+ */
 @Injectable({
   providedIn: 'root'
 })
@@ -10,15 +100,128 @@ export class LightManagerService {
   constructor() { }
 
   /**
-   * Ahora solo añadimos una iluminación ambiental básica.
-   * Las demás luces las crearás tú con tus objetos de tipo 'directionalLight', 'pointLight', etc.
+   * Luces globales del editor: una ambiental y una direccional. No son objetos de la escena;
+   * sus valores vienen de los ajustes de entorno de la escena activa (`applyGlobalLightSettings`).
    */
   public addLightsToScene(scene: THREE.Scene): void {
-    const ambient = new THREE.AmbientLight(0xffffff, 0.8);
-    ambient.name = 'Luz Ambiental';
-    scene.add(ambient);
+    const ambient = new THREE.AmbientLight(DEFAULT_GLOBAL_LIGHTS.ambientColor, DEFAULT_GLOBAL_LIGHTS.ambientIntensity);
+    ambient.name = GLOBAL_AMBIENT_LIGHT_NAME;
+
+    const directional = new THREE.DirectionalLight(DEFAULT_GLOBAL_LIGHTS.directionalColor, DEFAULT_GLOBAL_LIGHTS.directionalIntensity);
+    directional.name = GLOBAL_DIRECTIONAL_LIGHT_NAME;
+    this.configureShadow(directional);
+
+    scene.add(ambient, directional);
+    this.applyGlobalLightSettings(scene, null);
+  }
+
+  public applyGlobalLightSettings(scene: THREE.Scene, settings: SceneEnvironmentSettings | null): void {
+    const ambient = scene.getObjectByName(GLOBAL_AMBIENT_LIGHT_NAME) as THREE.AmbientLight | undefined;
+    if (ambient) {
+      ambient.color.set(settings?.ambientColor ?? DEFAULT_GLOBAL_LIGHTS.ambientColor);
+      ambient.intensity = settings?.ambientIntensity ?? DEFAULT_GLOBAL_LIGHTS.ambientIntensity;
+    }
+
+    const directional = scene.getObjectByName(GLOBAL_DIRECTIONAL_LIGHT_NAME) as THREE.DirectionalLight | undefined;
+    if (directional) {
+      const position = settings?.directionalPosition ?? DEFAULT_GLOBAL_LIGHTS.directionalPosition;
+      directional.color.set(settings?.directionalColor ?? DEFAULT_GLOBAL_LIGHTS.directionalColor);
+      directional.intensity = settings?.directionalIntensity ?? DEFAULT_GLOBAL_LIGHTS.directionalIntensity;
+      directional.position.set(position.x, position.y, position.z);
+      directional.castShadow = settings?.directionalCastShadow ?? DEFAULT_GLOBAL_LIGHTS.directionalCastShadow;
+    }
+  }
+
+  /**
+   * Crea la luz de un objeto de escena y su ayudante, sin añadirlos a la escena.
+   */
+  public createLight(objData: SceneObjectResponse): THREE.Light | null {
+    const light = this.instantiateLight(objData.type);
+    if (!light) return null;
+
+    const helper = this.createHelper(light);
+    helper.name = `${objData.name}_helper`;
+    light.userData['helper'] = helper;
+    this.applyLightProperties(light, objData.type, objData.properties);
+    return light;
+  }
+
+  /**
+   * Aplica las `properties` (color, intensidad, alcance, cono, sombras…) a una luz ya creada y refresca su ayudante.
+   */
+  public applyLightProperties(light: THREE.Light, type: string, properties: Record<string, any> | null | undefined): void {
+    const settings = getLightSettings(type, properties);
+    light.color.set(settings.color);
+    light.intensity = settings.intensity;
+
+    if (light instanceof THREE.HemisphereLight) {
+      light.groundColor.set(settings.groundColor);
+    }
+    if (light instanceof THREE.PointLight || light instanceof THREE.SpotLight) {
+      light.distance = settings.distance;
+      light.decay = settings.decay;
+    }
+    if (light instanceof THREE.SpotLight) {
+      light.angle = THREE.MathUtils.degToRad(settings.angle);
+      light.penumbra = settings.penumbra;
+    }
+    if (light instanceof THREE.DirectionalLight || light instanceof THREE.PointLight || light instanceof THREE.SpotLight) {
+      light.castShadow = settings.castShadow;
+    }
+
+    const helper = light.userData['helper'] as LightHelper | undefined;
+    if (helper instanceof THREE.Mesh && helper.material instanceof THREE.MeshBasicMaterial) {
+      helper.material.color.copy(light.color);
+    }
+    helper?.update?.();
+  }
+
+  private instantiateLight(type: SceneObjectType): THREE.Light | null {
+    switch (type) {
+      case 'ambientLight':
+        return new THREE.AmbientLight();
+      case 'hemisphereLight':
+        return new THREE.HemisphereLight();
+      case 'directionalLight':
+        return this.configureShadow(new THREE.DirectionalLight());
+      case 'pointLight':
+        return this.configureShadow(new THREE.PointLight());
+      case 'spotLight': {
+        // El objetivo es hijo de la luz, un metro por delante: rotar la luz con el gizmo la orienta.
+        const spot = this.configureShadow(new THREE.SpotLight());
+        spot.target.position.set(0, 0, -1);
+        spot.add(spot.target);
+        return spot;
+      }
+      default:
+        console.warn(`[LightManager] Tipo de luz '${type}' no soportado.`);
+        return null;
+    }
+  }
+
+  private createHelper(light: THREE.Light): LightHelper {
+    if (light instanceof THREE.DirectionalLight) return new THREE.DirectionalLightHelper(light, 5, 0xffffff);
+    if (light instanceof THREE.SpotLight) return new THREE.SpotLightHelper(light);
+    if (light instanceof THREE.PointLight) return new THREE.PointLightHelper(light, 0.5);
+    if (light instanceof THREE.HemisphereLight) return new THREE.HemisphereLightHelper(light, 1);
+
+    // three.js no tiene ayudante para la luz ambiental: un octaedro de alambre que sigue a la luz.
+    const helper = new THREE.Mesh(
+      new THREE.OctahedronGeometry(AMBIENT_HELPER_RADIUS),
+      new THREE.MeshBasicMaterial({ wireframe: true, fog: false, toneMapped: false })
+    ) as LightHelper;
+    helper.matrix = light.matrixWorld;
+    helper.matrixAutoUpdate = false;
+    helper.dispose = () => {
+      (helper as THREE.Mesh).geometry.dispose();
+      ((helper as THREE.Mesh).material as THREE.Material).dispose();
+    };
+    return helper;
+  }
 
-    // ¡Luz direccional por defecto QUITADA!
-    // Si quieres poner otra por defecto, hazlo desde tu editor como un objeto más.
+  private configureShadow<T extends THREE.DirectionalLight | THREE.PointLight | THREE.SpotLight>(light: T): T {
+    light.shadow.mapSize.set(SHADOW_MAP_SIZE, SHADOW_MAP_SIZE);
+    light.shadow.bias = -0.0005;
+    return light;
   }
 }
@@ -0,0 +1,133 @@
+// src/app/features/admin/components/world-editor/service/three-engine/managers/material-manager.service.ts
+
+import { Injectable } from '@angular/core';
+import * as THREE from 'three';
+import { SceneObjectType } from '../../../../../services/admin.service';
+import { PHYSICS_PRIMITIVE_TYPES } from './physics-manager.service';
+
+/** Tipos de objeto cuyo material se puede editar: las primitivas y los modelos GLB. */
+export const MATERIAL_EDITABLE_TYPES: readonly SceneObjectType[] = [...PHYSICS_PRIMITIVE_TYPES, 'model'];
+
+/** Clave de `properties` donde se guardan los materiales editados, por ranura. */
+export const MATERIAL_OVERRIDES_KEY = 'materialOverrides';
+
+/**
+ * @interface MaterialSettings
+ * @description Parámetros PBR editables de un `MeshStandardMaterial`. Los colores van en hexadecimal (`#rrggbb`).
+ */
+export interface MaterialSettings {
+  color: string;
+  roughness: number;
+  metalness: number;
+  emissive: string;
+  emissiveIntensity: number;
+  opacity: number;
+  wireframe: boolean;
+}
+
+/**
+ * @interface MaterialSlot
+ * @description Una malla del objeto con material editable. En un GLB hay una por sub-malla;
+ * la `key` es su orden de recorrido, estable mientras no cambie el archivo del modelo.
+ */
+export interface MaterialSlot {
+  key: string;
+  name: string;
+  /** Valores del material original, antes de aplicar la edición guardada. */
+  original: MaterialSettings;
+  override: MaterialSettings | null;
+}
+
+/**
+ * Lee las ediciones de material guardadas en las `properties` de un objeto.
+ */
+export function getMaterialOverrides(properties: Record<string, any> | null | undefined): Record<string, MaterialSettings> {
+  const overrides = properties?.[MATERIAL_OVERRIDES_KEY];
+  return overrides && typeof overrides === 'object' ? overrides : {};
+}
+
+/**
+ * ✨ NUEVO: Aplica a las mallas de un objeto los materiales editados en el panel.
+ * La primera edición de una malla clona su material (los GLB suelen compartirlo entre sub-mallas)
+ * y guarda el original, que vuelve a su sitio si la edición se elimina.
+ */
+@Injectable({ providedIn: 'root' })
+export class MaterialManagerService {
+
+  public getSlots(object: THREE.Object3D): MaterialSlot[] {
+    const overrides = getMaterialOverrides(object.userData['properties']);
+    const isModel = object.userData['apiType'] === 'model';
+    const slots: MaterialSlot[] = [];
+    this.forEachSlot(object, (mesh, original, key) => {
+      slots.push({
+        key,
+        name: isModel ? (mesh.name || original.name || `Malla ${slots.length + 1}`) : 'Material',
+        original: this.readSettings(original),
+        override: overrides[key] ?? null
+      });
+    });
+    return slots;
+  }
+
+  /**
+   * Sincroniza los materiales del objeto con `properties.materialOverrides`. Se llama al crear el objeto
+   * y cada vez que cambian sus propiedades (edición, deshacer/rehacer).
+   */
+  public applyOverrides(object: THREE.Object3D, properties: Record<string, any> | null | undefined): void {
+    const overrides = getMaterialOverrides(properties);
+    this.forEachSlot(object, (mesh, original, key) => {
+      const override = overrides[key];
+      if (override) {
+        if (mesh.material === original) mesh.material = original.clone();
+        this.writeSettings(mesh.material as THREE.MeshStandardMaterial, original, override);
+        mesh.userData['originalMaterial'] = original;
+        mesh.userData['hasMaterialOverride'] = true;
+      } else if (mesh.userData['originalMaterial']) {
+        (mesh.material as THREE.Material).dispose();
+        mesh.material = original;
+        delete mesh.userData['originalMaterial'];
+        delete mesh.userData['hasMaterialOverride'];
+      }
+    });
+  }
+
+  private forEachSlot(object: THREE.Object3D, callback: (mesh: THREE.Mesh, original: THREE.MeshStandardMaterial, key: string) => void): void {
+    let index = 0;
+    object.traverse(child => {
+      if (!(child instanceof THREE.Mesh) || Array.isArray(child.material)) return;
+      const original = (child.userData['originalMaterial'] ?? child.material) as THREE.MeshStandardMaterial;
+      if (!original?.isMeshStandardMaterial) return;
+      callback(child, original, String(index++));
+    });
+  }
+
+  private readSettings(material: THREE.MeshStandardMaterial): MaterialSettings {
+    return {
+      color: `#${material.color.getHexString()}`,
+      roughness: material.roughness,
+      metalness: material.metalness,
+      emissive: `#${material.emissive.getHexString()}`,
+      emissiveIntensity: material.emissiveIntensity,
+      opacity: material.userData['baseOpacity'] ?? material.opacity,
+      wireframe: material.wireframe
+    };
+  }
+
+  private writeSettings(material: THREE.MeshStandardMaterial, original: THREE.MeshStandardMaterial, settings: MaterialSettings): void {
+    material.color.set(settings.color);
+    material.roughness = THREE.MathUtils.clamp(settings.roughness, 0, 1);
+    material.metalness = THREE.MathUtils.clamp(settings.metalness, 0, 1);
+    material.emissive.set(settings.emissive);
+    material.emissiveIntensity = Math.max(0, settings.emissiveIntensity);
+    // `baseOpacity` es la opacidad de referencia para el atenuado de grupos de `EntityManagerService`.
+    material.userData['baseOpacity'] = THREE.MathUtils.clamp(settings.opacity, 0, 1);
+    material.opacity = material.userData['baseOpacity'];
+    const transparent = original.transparent || material.opacity < 1;
+    // Solo estos dos cambian el programa del shader; el resto son uniforms y no hace falta recompilar.
+    if (material.transparent !== transparent || material.wireframe !== settings.wireframe) {
+      material.transparent = transparent;
+      material.wireframe = settings.wireframe;
+      material.needsUpdate = true;
+    }
+  }
+}
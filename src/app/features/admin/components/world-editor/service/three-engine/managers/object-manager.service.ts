@@ -6,6 +6,12 @@ import { GLTFLoader, GLTF } from 'three/examples/jsm/loaders/GLTFLoader.js';
 import { environment } from '../../../../../../../../environments/environment';
 import { SceneObjectResponse, AssetResponse } from '../../../../../services/admin.service';
 import { LabelManagerService } from './label-manager.service';
+import { WMTS_BASE_LEVEL, WmtsLodManagerService } from './wmts-lod.manager.service';
+import { MaterialManagerService } from './material-manager.service';
+import { LightManagerService } from './light-manager.service';
+import { VideoManagerService } from './video-manager.service';
+import { AudioManagerService } from './audio-manager.service';
+import { CelestialInstancesManagerService } from './celestial-instances.manager.service';
 import { SimplifyModifier } from 'three/examples/jsm/modifiers/SimplifyModifier.js';
 
 /**
@@ -17,6 +23,8 @@ export const BLOOM_LAYER = 1;
 /**
  * @interface CelestialInstanceData
  * @description Almacena la información de una sola instancia dentro de un `InstancedMesh`.
+ * `position` es la posición absoluta (en doble precisión) y la que se guarda; la matriz de la instancia
+ * lleva su redondeo a float32 y el shader le resta el origen flotante (`FloatingOriginManagerService`).
  */
 export interface CelestialInstanceData {
   originalColor: THREE.Color;
@@ -32,7 +40,9 @@ export interface CelestialInstanceData {
   type: string;
   isManuallyHidden: boolean;
   brightness: number;
-  currentIntensity: number;
+  /** ✨ NUEVO: Hacia dónde va el fundido (dentro o fuera de su distancia de visibilidad) y cuándo empezó, en segundos del reloj de las instancias. */
+  isVisible: boolean;
+  fadeStartTime: number;
 }
 
 /**
@@ -66,7 +76,15 @@ export class ObjectManagerService {
   private sharedPlaneGeometry = new THREE.PlaneGeometry(1, 1);
   private sharedCircleGeometry = new THREE.CircleGeometry(12.0, 32);
 
-  constructor(private labelManager: LabelManagerService) { }
+  constructor(
+    private labelManager: LabelManagerService,
+    private wmtsLodManager: WmtsLodManagerService,
+    private materialManager: MaterialManagerService,
+    private lightManager: LightManagerService,
+    private videoManager: VideoManagerService,
+    private audioManager: AudioManagerService,
+    private celestialInstances: CelestialInstancesManagerService
+  ) { }
 
   public createObjectFromData(scene: THREE.Scene, objData: SceneObjectResponse, loader: GLTFLoader): THREE.Object3D | null {
     let createdObject: THREE.Object3D | null = null;
@@ -87,8 +105,14 @@ export class ObjectManagerService {
           case 'camera':
             createdObject = this.createCamera(scene, objData);
             break;
-          case 'directionalLight':
-            createdObject = this.createDirectionalLight(scene, objData);
+          case 'ambientLight': case 'directionalLight': case 'pointLight': case 'spotLight': case 'hemisphereLight':
+            createdObject = this.createLight(scene, objData);
+            break;
+          case 'video':
+            createdObject = this.createVideoScreen(scene, objData);
+            break;
+          case 'sound':
+            createdObject = this.createSound(scene, objData);
             break;
           default:
             console.warn(`[ObjectManager] Tipo '${objData.type}' no es un objeto individual y será ignorado en este método.`);
@@ -111,9 +135,7 @@ export class ObjectManagerService {
     const defaultGroup: SceneObjectResponse[] = [];
 
     for (const obj of objectsData) {
-      const assetPath = (obj.asset?.type === 'texture_png' || obj.asset?.type === 'texture_jpg') 
-        ? obj.asset.path 
-        : null;
+      const assetPath = this._getInstanceTexturePath(obj);
       
       if (assetPath) {
         if (!groupedByTexture.has(assetPath)) {
@@ -134,6 +156,62 @@ export class ObjectManagerService {
     });
   }
 
+  /**
+   * ✨ NUEVO: Añade un único objeto celestial a su `InstancedMesh` (por textura o el de brillo por defecto).
+   * Si la malla no existe se crea, y si está llena se reconstruye con más capacidad.
+   * Usado al duplicar o restaurar objetos sin repoblar toda la escena.
+   */
+  public addCelestialInstance(scene: THREE.Scene, objData: SceneObjectResponse, loader: GLTFLoader): void {
+    if (!objData.galaxyData) {
+      console.warn(`[ObjectManager] '${objData.name}' no tiene galaxyData y no se puede instanciar.`);
+      return;
+    }
+
+    const texturePath = this._getInstanceTexturePath(objData);
+    const meshName = texturePath ? this._getTexturedMeshName(texturePath) : 'CelestialObjects_Default';
+    let instancedMesh = scene.getObjectByName(meshName) as THREE.InstancedMesh | undefined;
+
+    if (!instancedMesh) {
+      this.createCelestialObjectsInstanced(scene, [objData], loader);
+      return;
+    }
+
+    const celestialData: CelestialInstanceData[] = instancedMesh.userData['celestialData'];
+    if (celestialData.length >= instancedMesh.instanceMatrix.count) {
+      instancedMesh = this._growInstancedMesh(scene, instancedMesh, celestialData.length * 2);
+    }
+
+    const instanceData = this._buildInstanceData(objData);
+    celestialData.push(instanceData);
+    instancedMesh.count = celestialData.length;
+    this.celestialInstances.writeInstance(instancedMesh, celestialData.length - 1, instanceData);
+    this.labelManager.registerInstancedObject(instanceData);
+  }
+
+  private _growInstancedMesh(scene: THREE.Scene, oldMesh: THREE.InstancedMesh, capacity: number): THREE.InstancedMesh {
+    const newMesh = new THREE.InstancedMesh(this.sharedCircleGeometry.clone(), oldMesh.material, capacity);
+    newMesh.name = oldMesh.name;
+    newMesh.frustumCulled = oldMesh.frustumCulled;
+    newMesh.layers.mask = oldMesh.layers.mask;
+    newMesh.renderOrder = oldMesh.renderOrder;
+    newMesh.userData = oldMesh.userData;
+    this.celestialInstances.setupInstancedMesh(newMesh);
+
+    scene.remove(oldMesh);
+    oldMesh.geometry.dispose();
+    oldMesh.dispose();
+    scene.add(newMesh);
+    return newMesh;
+  }
+
+  private _getInstanceTexturePath(objData: SceneObjectResponse): string | null {
+    return (objData.asset?.type === 'texture_png' || objData.asset?.type === 'texture_jpg') ? objData.asset.path : null;
+  }
+
+  private _getTexturedMeshName(texturePath: string): string {
+    return `CelestialObjects_Texture_${texturePath.replace(/[^a-zA-Z0-9]/g, '_')}`;
+  }
+
   private _createWmtsCelestialBody(scene: THREE.Scene, objData: SceneObjectResponse): THREE.Mesh | null {
     if (!objData.asset) { 
         console.error(`[ObjectManager] Objeto '${objData.name}' no tiene 'asset' y no se puede crear como cuerpo WMTS.`);
@@ -168,6 +246,8 @@ export class ObjectManagerService {
 
     planetMesh.frustumCulled = false;
     planetMesh.layers.enable(BLOOM_LAYER);
+    // ✨ NUEVO: Las teselas de más detalle se cargan bajo demanda según la distancia de la cámara.
+    this.wmtsLodManager.register(planetMesh, objData.asset.path);
 
     console.log(`[ObjectManager] 🔵 Creando cuerpo WMTS '${objData.name}' con radio directo de la escala: ${radius}`);
 
@@ -202,18 +282,15 @@ export class ObjectManagerService {
 
     const texturePromise = new Promise<THREE.Texture>(async (resolve, reject) => {
       try {
-        const templateUrl = asset.path;
-        const zoomLevel = 2;
+        // Solo la textura base de todo el planeta; el detalle lo aporta WmtsLodManagerService por teselas.
+        const zoomLevel = WMTS_BASE_LEVEL;
         const numCols = Math.pow(2, zoomLevel + 1);
         const numRows = Math.pow(2, zoomLevel);
         
         const tileUrls: { url: string, row: number, col: number }[] = [];
         for (let row = 0; row < numRows; row++) {
             for (let col = 0; col < numCols; col++) {
-                const url = templateUrl
-                    .replace('{TileMatrix}', String(zoomLevel))
-                    .replace('{TileRow}', String(row))
-                    .replace('{TileCol}', String(col));
+                const url = this.wmtsLodManager.getTileUrl(asset.path, zoomLevel, row, col);
                 tileUrls.push({ url, row, col });
             }
         }
@@ -279,6 +356,7 @@ export class ObjectManagerService {
 
       this.applyTransformations(model, objData);
       this._processGltfMaterials(model, objData);
+      this.materialManager.applyOverrides(model, objData.properties);
       this._setupAnimations(gltf, model);
 
       this.labelManager.registerObject(model);
@@ -368,7 +446,7 @@ export class ObjectManagerService {
     }
   }
 
-  private _createTexturedInstancedMesh(scene: THREE.Scene, objectsData: SceneObjectResponse[], texturePath: string): void {
+  private _getCachedTexture(texturePath: string): THREE.Texture {
     const textureUrl = `${this.backendUrl}${texturePath}`;
     let texture = this.textureCache.get(textureUrl);
     if (!texture) {
@@ -376,9 +454,14 @@ export class ObjectManagerService {
       texture.colorSpace = THREE.SRGBColorSpace;
       this.textureCache.set(textureUrl, texture);
     }
+    return texture;
+  }
+
+  private _createTexturedInstancedMesh(scene: THREE.Scene, objectsData: SceneObjectResponse[], texturePath: string): void {
+    const texture = this._getCachedTexture(texturePath);
     const material = new THREE.MeshBasicMaterial({ map: texture, transparent: true, blending: THREE.AdditiveBlending, depthWrite: false, depthTest: true, side: THREE.DoubleSide, alphaTest: 0.01 });
-    const instancedMesh = new THREE.InstancedMesh(this.sharedCircleGeometry, material, objectsData.length);
-    instancedMesh.name = `CelestialObjects_Texture_${texturePath.replace(/[^a-zA-Z0-9]/g, '_')}`;
+    const instancedMesh = new THREE.InstancedMesh(this.sharedCircleGeometry.clone(), material, objectsData.length);
+    instancedMesh.name = this._getTexturedMeshName(texturePath);
     instancedMesh.frustumCulled = false;
     instancedMesh.layers.enable(BLOOM_LAYER);
     instancedMesh.renderOrder = 1;
@@ -388,7 +471,7 @@ export class ObjectManagerService {
 
   private _createDefaultGlowInstancedMesh(scene: THREE.Scene, objectsData: SceneObjectResponse[]): void {
     const material = new THREE.MeshBasicMaterial({ map: this._createGlowTexture(), transparent: true, blending: THREE.AdditiveBlending, depthWrite: false, depthTest: true, alphaTest: 0.01 });
-    const instancedMesh = new THREE.InstancedMesh(this.sharedCircleGeometry, material, objectsData.length);
+    const instancedMesh = new THREE.InstancedMesh(this.sharedCircleGeometry.clone(), material, objectsData.length);
     instancedMesh.name = 'CelestialObjects_Default';
     instancedMesh.frustumCulled = false;
     instancedMesh.layers.enable(BLOOM_LAYER);
@@ -397,34 +480,36 @@ export class ObjectManagerService {
     scene.add(instancedMesh);
   }
 
+  /**
+   * Cada malla celestial tiene su propia copia de la geometría: sus atributos por instancia viven en ella.
+   */
   private _populateInstanceData(instancedMesh: THREE.InstancedMesh, objectsData: SceneObjectResponse[]): void {
     const celestialData: CelestialInstanceData[] = [];
     instancedMesh.userData['celestialData'] = celestialData;
-    const matrix = new THREE.Matrix4(), position = new THREE.Vector3(), quaternion = new THREE.Quaternion(), scale = new THREE.Vector3();
-    for (let i = 0; i < objectsData.length; i++) {
-      const objData = objectsData[i];
-      const galaxyInfo = objData.galaxyData;
-      if (!galaxyInfo) { continue; }
-      const visualColor = new THREE.Color(sanitizeHexColor(galaxyInfo.emissiveColor));
-      position.set(objData.position.x, objData.position.y, objData.position.z);
-      quaternion.identity();
-      scale.set(objData.scale.x, objData.scale.y, objData.scale.z);
-      matrix.compose(position, quaternion, scale);
-      instancedMesh.setMatrixAt(i, matrix);
-      instancedMesh.setColorAt(i, new THREE.Color(0x000000));
-      const scaleLuminosity = Math.max(1.0, objData.scale.x / 600.0);
-      const snr = galaxyInfo.snr || 0;
-      const luminosityBoost = 1.0 + Math.log1p(snr / 50.0) * 2.0;
-      const instanceData: CelestialInstanceData = {
-        originalColor: visualColor.clone(), emissiveIntensity: THREE.MathUtils.clamp(galaxyInfo.emissiveIntensity, 1.0, 5.0), baseEmissiveIntensity: 1.0,
-        position: position.clone(), scale: scale.clone(), originalMatrix: matrix.clone(), originalUuid: objData.id.toString(), originalName: objData.name,
-        luminosity: scaleLuminosity * luminosityBoost, isDominant: galaxyInfo.isDominant ?? false, type: objData.type, isManuallyHidden: false, brightness: 1.0, currentIntensity: 0.0
-      };
+    for (const objData of objectsData) {
+      if (!objData.galaxyData) { continue; }
+      const instanceData = this._buildInstanceData(objData);
       celestialData.push(instanceData);
       this.labelManager.registerInstancedObject(instanceData);
     }
-    instancedMesh.instanceMatrix.needsUpdate = true;
-    if (instancedMesh.instanceColor) instancedMesh.instanceColor.needsUpdate = true;
+    this.celestialInstances.setupInstancedMesh(instancedMesh);
+  }
+
+  private _buildInstanceData(objData: SceneObjectResponse): CelestialInstanceData {
+    const galaxyInfo = objData.galaxyData!;
+    const visualColor = new THREE.Color(sanitizeHexColor(galaxyInfo.emissiveColor));
+    const position = new THREE.Vector3(objData.position.x, objData.position.y, objData.position.z);
+    const scale = new THREE.Vector3(objData.scale.x, objData.scale.y, objData.scale.z);
+    const matrix = new THREE.Matrix4().compose(position, new THREE.Quaternion(), scale);
+    const scaleLuminosity = Math.max(1.0, objData.scale.x / 600.0);
+    const snr = galaxyInfo.snr || 0;
+    const luminosityBoost = 1.0 + Math.log1p(snr / 50.0) * 2.0;
+    return {
+      originalColor: visualColor, emissiveIntensity: THREE.MathUtils.clamp(galaxyInfo.emissiveIntensity, 1.0, 5.0), baseEmissiveIntensity: 1.0,
+      position, scale, originalMatrix: matrix, originalUuid: objData.id.toString(), originalName: objData.name,
+      luminosity: scaleLuminosity * luminosityBoost, isDominant: galaxyInfo.isDominant ?? false, type: objData.type, isManuallyHidden: false, brightness: 1.0,
+      isVisible: false, fadeStartTime: -Infinity
+    };
   }
 
   private createCamera(scene: THREE.Scene, objData: SceneObjectResponse): THREE.PerspectiveCamera {
@@ -438,17 +523,38 @@ export class ObjectManagerService {
     return camera;
   }
 
-  private createDirectionalLight(scene: THREE.Scene, objData: SceneObjectResponse): THREE.DirectionalLight {
-    const props = objData.properties || {};
-    const light = new THREE.DirectionalLight(new THREE.Color(sanitizeHexColor(props['color'])), props['intensity'] ?? 1.0);
+  private createLight(scene: THREE.Scene, objData: SceneObjectResponse): THREE.Light | null {
+    const light = this.lightManager.createLight(objData);
+    if (!light) return null;
     this.applyTransformations(light, objData);
-    const helper = new THREE.DirectionalLightHelper(light, 5, 0xffffff);
-    helper.name = `${objData.name}_helper`;
-    light.userData['helper'] = helper;
-    scene.add(light, helper);
+    scene.add(light, light.userData['helper']);
     return light;
   }
 
+  /**
+   * ✨ NUEVO: Pantalla de vídeo. Sin asset `video_mp4` no hay nada que reproducir: queda un plano gris como marcador.
+   */
+  private createVideoScreen(scene: THREE.Scene, objData: SceneObjectResponse): THREE.Mesh {
+    let mesh: THREE.Mesh;
+    if (objData.asset?.type === 'video_mp4') {
+      mesh = this.videoManager.createVideoScreen(objData.id.toString(), `${this.backendUrl}${objData.asset.path}`, objData.properties);
+    } else {
+      console.warn(`[ObjectManager] La pantalla de vídeo '${objData.name}' no tiene un asset de vídeo.`);
+      mesh = new THREE.Mesh(new THREE.PlaneGeometry(1, 1), new THREE.MeshBasicMaterial({ color: 0x333333, side: THREE.DoubleSide }));
+    }
+    this.applyTransformations(mesh, objData);
+    scene.add(mesh);
+    return mesh;
+  }
+
+  private createSound(scene: THREE.Scene, objData: SceneObjectResponse): THREE.Group {
+    const url = objData.asset?.type === 'sound_mp3' ? `${this.backendUrl}${objData.asset.path}` : null;
+    const group = this.audioManager.createSound(objData, url);
+    this.applyTransformations(group, objData);
+    scene.add(group, group.userData['helper']);
+    return group;
+  }
+
   private createStandardPrimitive(scene: THREE.Scene, objData: SceneObjectResponse): THREE.Mesh {
     const properties = objData.properties || {};
     const color = new THREE.Color(sanitizeHexColor(properties['color']));
@@ -462,8 +568,14 @@ export class ObjectManagerService {
     }
     const material = new THREE.MeshStandardMaterial({ color: color, roughness: 0.8, metalness: 0.2 });
     if (objData.type === 'floor') { material.side = THREE.DoubleSide; }
+    // ✨ NUEVO: Las primitivas con un asset de imagen (ej. arrastrado desde el panel de assets) lo usan como textura.
+    const texturePath = this._getInstanceTexturePath(objData);
+    if (texturePath) { material.map = this._getCachedTexture(texturePath); }
     const mesh = new THREE.Mesh(geometry, material);
+    mesh.castShadow = properties['castShadow'] === true;
+    mesh.receiveShadow = properties['receiveShadow'] === true;
     this.applyTransformations(mesh, objData);
+    this.materialManager.applyOverrides(mesh, objData.properties);
     scene.add(mesh);
     return mesh;
   }
@@ -482,6 +594,14 @@ export class ObjectManagerService {
     return proxyMesh;
   }
 
+  /**
+   * ✨ NUEVO: Geometría de las instancias celestiales para sus aros de selección y hover.
+   * Las mallas instanciadas tienen su propia copia (con los atributos por instancia), que no se comparte.
+   */
+  public getCelestialProxyGeometry(): THREE.BufferGeometry {
+    return this.sharedCircleGeometry;
+  }
+
   public isSharedGeometry(geometry: THREE.BufferGeometry): boolean {
     return geometry === this.sharedCircleGeometry || geometry === this.sharedPlaneGeometry;
   }
@@ -0,0 +1,214 @@
+// src/app/features/admin/components/world-editor/service/three-engine/managers/physics-manager.service.ts
+
+import { Injectable } from '@angular/core';
+import * as THREE from 'three';
+import * as CANNON from 'cannon';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { SceneObjectType } from '../../../../../services/admin.service';
+
+/** Primitivas de `ObjectManagerService.createStandardPrimitive` que tienen cuerpo físico. */
+export const PHYSICS_PRIMITIVE_TYPES: readonly SceneObjectType[] = ['cube', 'sphere', 'floor', 'cone', 'torus'];
+
+/**
+ * @interface PhysicsSettings
+ * @description Configuración física de un objeto, leída de sus `properties` (`mass`, `friction`, `restitution`, `isStatic`).
+ */
+export interface PhysicsSettings {
+  mass: number;
+  friction: number;
+  restitution: number;
+  isStatic: boolean;
+}
+
+const GRAVITY = -9.82;
+const FIXED_TIME_STEP = 1 / 60;
+/** Evita que un `delta` enorme (ej. al volver a la pestaña) dispare cientos de subpasos. */
+const MAX_SUB_STEPS = 5;
+const DEFAULT_MASS = 1;
+const DEFAULT_FRICTION = 0.4;
+const DEFAULT_RESTITUTION = 0.2;
+const MIN_EXTENT = 0.001;
+const FLOOR_HALF_THICKNESS = 0.05;
+/** `CANNON.Cylinder` no admite un radio 0; la punta del cono es un cilindro casi cerrado. */
+const CONE_TIP_RADIUS = 0.01;
+const CONE_SEGMENTS = 16;
+const TORUS_RADIUS = 0.4;
+const TORUS_TUBE = 0.1;
+const TORUS_SEGMENTS = 12;
+
+/**
+ * Lee la configuración física de las `properties` de un objeto, con valores por defecto.
+ * Los suelos son estáticos salvo que `isStatic` diga lo contrario; el resto, dinámicos.
+ */
+export function getPhysicsSettings(type: string, properties: Record<string, any> | null | undefined): PhysicsSettings {
+  const props = properties ?? {};
+  return {
+    mass: toNonNegativeNumber(props['mass'], DEFAULT_MASS),
+    friction: toNonNegativeNumber(props['friction'], DEFAULT_FRICTION),
+    restitution: toNonNegativeNumber(props['restitution'], DEFAULT_RESTITUTION),
+    isStatic: typeof props['isStatic'] === 'boolean' ? props['isStatic'] : type === 'floor'
+  };
+}
+
+function toNonNegativeNumber(value: unknown, fallback: number): number {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+interface PhysicsEntry {
+  object: THREE.Object3D;
+  body: CANNON.Body;
+  /** Transformación del objeto al iniciar la simulación (la guardada), para poder reiniciar. */
+  savedPosition: THREE.Vector3;
+  savedQuaternion: THREE.Quaternion;
+}
+
+/**
+ * ✨ NUEVO: Simulación de cuerpos rígidos con cannon para las primitivas de la escena.
+ * Mientras está activa, `step` copia la posición y rotación de cada cuerpo dinámico a su objeto;
+ * `reset` y `stop` devuelven los objetos a la transformación que tenían al empezar.
+ */
+@Injectable({ providedIn: 'root' })
+export class PhysicsManagerService {
+
+  public isRunning$: Observable<boolean>;
+
+  private isRunningSubject = new BehaviorSubject<boolean>(false);
+  private world: CANNON.World | null = null;
+  private entries = new Map<string, PhysicsEntry>();
+
+  constructor() {
+    this.isRunning$ = this.isRunningSubject.asObservable();
+  }
+
+  public get isRunning(): boolean {
+    return this.world !== null;
+  }
+
+  public start(scene: THREE.Scene): void {
+    if (this.world) return;
+    this.world = new CANNON.World();
+    this.world.gravity.set(0, GRAVITY, 0);
+    this.world.allowSleep = true;
+
+    scene.children.forEach(object => this.addObject(object));
+    this.isRunningSubject.next(true);
+    console.log(`[PhysicsManager] Simulación iniciada con ${this.entries.size} cuerpos.`);
+  }
+
+  public stop(): void {
+    if (!this.world) return;
+    this.restoreSavedTransforms();
+    this.entries.clear();
+    this.world = null;
+    this.isRunningSubject.next(false);
+    console.log('[PhysicsManager] Simulación detenida.');
+  }
+
+  /**
+   * Devuelve objetos y cuerpos a su transformación guardada, sin velocidad, y sigue simulando.
+   */
+  public reset(): void {
+    if (!this.world) return;
+    this.restoreSavedTransforms();
+    this.entries.forEach(({ body, savedPosition, savedQuaternion }) => {
+      body.position.set(savedPosition.x, savedPosition.y, savedPosition.z);
+      body.quaternion.set(savedQuaternion.x, savedQuaternion.y, savedQuaternion.z, savedQuaternion.w);
+      body.velocity.set(0, 0, 0);
+      body.angularVelocity.set(0, 0, 0);
+      body.wakeUp();
+    });
+  }
+
+  public step(delta: number): void {
+    if (!this.world) return;
+    this.world.step(FIXED_TIME_STEP, delta, MAX_SUB_STEPS);
+    this.entries.forEach(({ object, body }) => {
+      if (body.type === CANNON.Body.STATIC) return;
+      object.position.set(body.position.x, body.position.y, body.position.z);
+      object.quaternion.set(body.quaternion.x, body.quaternion.y, body.quaternion.z, body.quaternion.w);
+    });
+  }
+
+  /**
+   * Crea el cuerpo de un objeto añadido durante la simulación. Ignora lo que no sea una primitiva física.
+   */
+  public addObject(object: THREE.Object3D): void {
+    const type = object.userData['apiType'] as SceneObjectType | undefined;
+    if (!this.world || !type || !PHYSICS_PRIMITIVE_TYPES.includes(type) || this.entries.has(object.uuid)) return;
+
+    const settings = getPhysicsSettings(type, object.userData['properties']);
+    const material = new CANNON.Material(object.uuid);
+    material.friction = settings.friction;
+    material.restitution = settings.restitution;
+
+    const body = new CANNON.Body({
+      mass: settings.isStatic ? 0 : settings.mass,
+      material,
+      position: new CANNON.Vec3(object.position.x, object.position.y, object.position.z),
+      quaternion: new CANNON.Quaternion(object.quaternion.x, object.quaternion.y, object.quaternion.z, object.quaternion.w)
+    });
+    this.addShapes(body, type, object.scale);
+    this.world.addBody(body);
+
+    this.entries.set(object.uuid, {
+      object,
+      body,
+      savedPosition: object.position.clone(),
+      savedQuaternion: object.quaternion.clone()
+    });
+  }
+
+  public removeObject(uuid: string): void {
+    const entry = this.entries.get(uuid);
+    if (!entry || !this.world) return;
+    this.world.remove(entry.body);
+    this.entries.delete(uuid);
+  }
+
+  private restoreSavedTransforms(): void {
+    this.entries.forEach(({ object, savedPosition, savedQuaternion }) => {
+      object.position.copy(savedPosition);
+      object.quaternion.copy(savedQuaternion);
+    });
+  }
+
+  /**
+   * Aproxima la geometría de cada primitiva (ver `createStandardPrimitive`) con formas de cannon, ya escaladas.
+   */
+  private addShapes(body: CANNON.Body, type: SceneObjectType, scale: THREE.Vector3): void {
+    const sx = Math.max(Math.abs(scale.x), MIN_EXTENT);
+    const sy = Math.max(Math.abs(scale.y), MIN_EXTENT);
+    const sz = Math.max(Math.abs(scale.z), MIN_EXTENT);
+
+    switch (type) {
+      case 'cube':
+        body.addShape(new CANNON.Box(new CANNON.Vec3(sx / 2, sy / 2, sz / 2)));
+        break;
+      case 'floor':
+        // El PlaneGeometry está en el plano XY local; se le da grosor para que nada lo atraviese.
+        body.addShape(new CANNON.Box(new CANNON.Vec3(sx / 2, sy / 2, FLOOR_HALF_THICKNESS)));
+        break;
+      case 'cone': {
+        // El cilindro de cannon sigue el eje Z local y el cono de three.js el eje Y: se gira -90° en X.
+        const orientation = new CANNON.Quaternion();
+        orientation.setFromAxisAngle(new CANNON.Vec3(1, 0, 0), -Math.PI / 2);
+        const shape = new CANNON.Cylinder(CONE_TIP_RADIUS, 0.5 * Math.max(sx, sz), sy, CONE_SEGMENTS);
+        body.addShape(shape, new CANNON.Vec3(0, 0, 0), orientation);
+        break;
+      }
+      case 'torus': {
+        // cannon no tiene toro: anillo de esferas en el plano XY, que deja libre el agujero central.
+        const tubeRadius = TORUS_TUBE * Math.max(sx, sy, sz);
+        for (let i = 0; i < TORUS_SEGMENTS; i++) {
+          const angle = (i / TORUS_SEGMENTS) * Math.PI * 2;
+          const offset = new CANNON.Vec3(Math.cos(angle) * TORUS_RADIUS * sx, Math.sin(angle) * TORUS_RADIUS * sy, 0);
+          body.addShape(new CANNON.Sphere(tubeRadius), offset);
+        }
+        break;
+      }
+      default:
+        body.addShape(new CANNON.Sphere(0.5 * Math.max(sx, sy, sz)));
+    }
+  }
+}
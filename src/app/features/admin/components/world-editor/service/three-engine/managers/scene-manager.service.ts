@@ -7,10 +7,61 @@ import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer
 import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
 import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
 import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import { RoomEnvironment } from 'three/examples/jsm/environments/RoomEnvironment.js';
+import { HDRLoader } from 'three/examples/jsm/loaders/HDRLoader.js';
+import { EXRLoader } from 'three/examples/jsm/loaders/EXRLoader.js';
 import { CelestialInstanceData } from './object-manager.service';
+import { EpisodeRenderSettings, RenderToneMapping, SceneEnvironmentSettings } from '../../../../../services/admin.service';
+import { environment } from '../../../../../../../../environments/environment';
 
 const CELESTIAL_MESH_PREFIX = 'CelestialObjects_';
-const UNSELECTABLE_NAMES = ['Luz Ambiental', 'EditorGrid', 'SelectionProxy', 'HoverProxy', 'FocusPivot'];
+const UNSELECTABLE_NAMES = ['Luz Ambiental', 'GlobalDirectionalLight', 'EditorGrid', 'SelectionProxy', 'GroupSelectionProxy', 'HoverProxy', 'FocusPivot', 'SelectionGroupPivot'];
+
+/** Ajustes de renderizado de los episodios que no guardan los suyos. */
+export const DEFAULT_RENDER_SETTINGS: EpisodeRenderSettings = {
+  bloomStrength: 0.75,
+  bloomRadius: 0.65,
+  bloomThreshold: 0.85,
+  toneMapping: 'none',
+  exposure: 1,
+  pixelRatio: null,
+  selectionOutlineColor: '#ffff00',
+  hoverOutlineColor: '#00aaff'
+};
+
+/** Valores del fondo, la niebla y el entorno cuando la escena no guarda los suyos (ver `SceneEnvironmentSettings`). */
+export const DEFAULT_ENVIRONMENT_SETTINGS = {
+  skyIntensity: 1,
+  skyRotation: 0,
+  fogEnabled: false,
+  fogColor: '#000215',
+  fogNear: 1000,
+  fogFar: 100000,
+  environmentIntensity: 1
+};
+
+const TONE_MAPPINGS: Record<RenderToneMapping, THREE.ToneMapping> = {
+  none: THREE.NoToneMapping,
+  linear: THREE.LinearToneMapping,
+  reinhard: THREE.ReinhardToneMapping,
+  cineon: THREE.CineonToneMapping,
+  aces: THREE.ACESFilmicToneMapping,
+  agx: THREE.AgXToneMapping,
+  neutral: THREE.NeutralToneMapping
+};
+const MAX_AUTO_PIXEL_RATIO = 1.5;
+
+/** Origen de un cielo: una panorámica equirectangular (PNG/JPG/HDR/EXR) o las seis caras de un cubemap. */
+type SkyboxSource = { kind: 'equirect'; path: string } | { kind: 'cubemap'; paths: string[] };
+
+/** Un cielo cargado: la textura del fondo y su versión prefiltrada (PMREM) para la iluminación de los materiales. */
+interface Skybox {
+  background: THREE.Texture;
+  environment: THREE.Texture;
+}
+
+const CUBEMAP_FACE_COUNT = 6;
 
 
 @Injectable({ providedIn: 'root' })
@@ -26,11 +77,30 @@ export class SceneManagerService {
   public secondaryCamera!: THREE.PerspectiveCamera;
 
   public bloomPass!: UnrealBloomPass;
+  /**
+   * ✨ NUEVO: Último pase del compositor: aplica el mapeo de tonos y la exposición, que los pases intermedios no aplican.
+   * Se añade después de los contornos de selección (ver `EngineService.init`).
+   */
+  public outputPass!: OutputPass;
 
   public bloomComposer!: EffectComposer;
   private finalPass!: ShaderPass;
 
   private controls!: OrbitControls;
+  // ✨ NUEVO: Fondo por defecto (cielo nocturno) y color de fondo elegido por la escena activa.
+  private skyBackground: THREE.Texture | THREE.Color | null = null;
+  private backgroundColorOverride: string | null = null;
+  // ✨ NUEVO: Cielo elegido por la escena (panorámica o cubemap), los ya cargados y los que están cargando, por clave de origen.
+  private skyboxSource: SkyboxSource | null = null;
+  private skyboxes = new Map<string, Skybox>();
+  private loadingSkyboxKeys = new Set<string>();
+  private roomEnvironment: THREE.Texture | null = null;
+  private renderSettings: EpisodeRenderSettings = DEFAULT_RENDER_SETTINGS;
+  // ✨ NUEVO: Mientras una captura o una grabación fija el tamaño de dibujo, los cambios de tamaño de la ventana se ignoran.
+  private isDrawingSizeFixed = false;
+  private readonly backendUrl = environment.endpoint.endsWith('/')
+    ? environment.endpoint.slice(0, -1)
+    : environment.endpoint;
 
   private _createCameras(width: number, height: number): void {
     const nearPlane = 0.1;
@@ -75,18 +145,25 @@ export class SceneManagerService {
     this.renderer.setSize(width, height);
     this.renderer.setPixelRatio(1);
     this.renderer.toneMapping = THREE.NoToneMapping;
+    // ✨ NUEVO: Las luces con `castShadow` (y las primitivas que las reciben) necesitan el mapa de sombras activo.
+    this.renderer.shadowMap.enabled = true;
+    this.renderer.shadowMap.type = THREE.PCFSoftShadowMap;
     this.renderer.outputColorSpace = THREE.LinearSRGBColorSpace;
+    // ✨ NUEVO: El motor pone a cero `renderer.info` al empezar cada fotograma, para contar todas sus pasadas.
+    this.renderer.info.autoReset = false;
 
     // ✨ ¡CORRECTO! Esta línea está eliminada, lo que permite texturas de alta resolución.
     // this.renderer.capabilities.maxTextureSize = 2048; 
 
     const renderPass = new RenderPass(this.scene, this.activeCamera);
+    // ✨ NUEVO: Iluminación de entorno (reflejos de los materiales PBR). Su intensidad es un ajuste de la escena.
+    this.createRoomEnvironment();
 
     this.bloomPass = new UnrealBloomPass(
       new THREE.Vector2(width / 2, height / 2),
-      0.5,
-      0.75,
-      0.3
+      this.renderSettings.bloomStrength,
+      this.renderSettings.bloomRadius,
+      this.renderSettings.bloomThreshold
     );
 
     this.bloomComposer = new EffectComposer(this.renderer);
@@ -124,6 +201,7 @@ export class SceneManagerService {
     this.composer = new EffectComposer(this.renderer);
     this.composer.addPass(renderPass);
     this.composer.addPass(this.finalPass);
+    this.outputPass = new OutputPass();
 
     const pixelRatio = 1;
     this.bloomComposer.setSize(width * pixelRatio, height * pixelRatio);
@@ -168,6 +246,11 @@ export class SceneManagerService {
     const width = this.canvas.clientWidth;
     const height = this.canvas.clientHeight;
     this._createRendererAndComposer(width, height);
+    this.composer.addPass(this.outputPass);
+    this.applyRenderSettings(this.renderSettings);
+    // Los entornos prefiltrados pertenecían al renderer anterior.
+    this.skyboxes.clear();
+    this.updateBackground();
 
     this.loadSceneBackground().catch(console.error);
   }
@@ -185,10 +268,6 @@ export class SceneManagerService {
     this.scene = new THREE.Scene();
     this.scene.background = null;
 
-    const ambientLight = new THREE.AmbientLight(0xffffff, 5.0);
-    ambientLight.name = "Luz Ambiental";
-    this.scene.add(ambientLight);
-
     this._createCameras(width, height);
     this.activeCamera = this.editorCamera;
 
@@ -241,31 +320,189 @@ export class SceneManagerService {
           if (this.scene) {
             // En lugar de una esfera gigante, usamos la propiedad 'background' de la escena.
             // Es más eficiente y evita problemas de clipping al alejarse.
-            this.scene.background = texture;
-            this.scene.environment = texture;
-          }
-          if (this.bloomPass) {
-            this.bloomPass.threshold = 0.85;
-            this.bloomPass.strength = 0.75;
-            this.bloomPass.radius = 0.65;
+            this.skyBackground = texture;
+            this.updateBackground();
           }
           console.log('[SceneManager] Fondo cargado y optimizado correctamente');
           resolve();
         } catch (error) {
           console.error('[SceneManager] Error al procesar la textura:', error);
-          this.scene.background = new THREE.Color(0x000215);
+          this.skyBackground = new THREE.Color(0x000215);
+          this.updateBackground();
           reject(error);
         }
       };
       img.onerror = (error) => {
         console.error('[SceneManager] Error al cargar la imagen de fondo:', error);
-        this.scene.background = new THREE.Color(0x000215);
+        this.skyBackground = new THREE.Color(0x000215);
+        this.updateBackground();
         reject(error);
       };
       img.src = 'assets/textures/NightSky.jpg';
     });
   }
 
+  /**
+   * ✨ NUEVO: Aplica el fondo (cielo panorámico o cubemap, color o cielo nocturno), la niebla y la intensidad del entorno
+   * de una escena. Un cielo elegido por la escena ilumina también los materiales; si no hay, los ilumina el RoomEnvironment.
+   * Sin ajustes, vuelve al cielo nocturno sin niebla. Las luces globales de esos mismos ajustes las aplica `LightManagerService`.
+   */
+  public applyEnvironmentSettings(settings: SceneEnvironmentSettings | null): void {
+    if (!this.scene) return;
+    const defaults = DEFAULT_ENVIRONMENT_SETTINGS;
+    this.backgroundColorOverride = settings?.backgroundColor ?? null;
+    this.skyboxSource = this.getSkyboxSource(settings);
+    const skyRotation = THREE.MathUtils.degToRad(settings?.skyRotation ?? defaults.skyRotation);
+    this.scene.backgroundIntensity = settings?.skyIntensity ?? defaults.skyIntensity;
+    this.scene.backgroundRotation.set(0, skyRotation, 0);
+    this.scene.environmentRotation.set(0, skyRotation, 0);
+    this.scene.environmentIntensity = settings?.environmentIntensity ?? defaults.environmentIntensity;
+
+    const fogColor = settings?.fogColor ?? defaults.fogColor;
+    const fogNear = settings?.fogNear ?? defaults.fogNear;
+    const fogFar = Math.max(settings?.fogFar ?? defaults.fogFar, fogNear);
+    this.scene.fog = (settings?.fogEnabled ?? defaults.fogEnabled) ? new THREE.Fog(fogColor, fogNear, fogFar) : null;
+
+    this.updateBackground();
+  }
+
+  /**
+   * ✨ NUEVO: Aplica los ajustes de renderizado del episodio: bloom, mapeo de tonos, exposición y resolución.
+   * Los colores del contorno de selección los aplica `SelectionManagerService`.
+   */
+  public applyRenderSettings(settings: EpisodeRenderSettings): void {
+    this.renderSettings = settings;
+    if (!this.renderer) return;
+    this.bloomPass.strength = settings.bloomStrength;
+    this.bloomPass.radius = settings.bloomRadius;
+    this.bloomPass.threshold = settings.bloomThreshold;
+    this.renderer.toneMapping = TONE_MAPPINGS[settings.toneMapping] ?? THREE.NoToneMapping;
+    this.renderer.toneMappingExposure = settings.exposure;
+
+    const pixelRatio = this.getPixelRatio();
+    this.renderer.setPixelRatio(pixelRatio);
+    this.composer.setPixelRatio(pixelRatio);
+    this.bloomComposer.setPixelRatio(pixelRatio);
+  }
+
+  private getPixelRatio(): number {
+    return this.renderSettings.pixelRatio ?? Math.min(window.devicePixelRatio, MAX_AUTO_PIXEL_RATIO);
+  }
+
+  private createRoomEnvironment(): void {
+    const room = new RoomEnvironment();
+    const pmremGenerator = new THREE.PMREMGenerator(this.renderer);
+    this.roomEnvironment = pmremGenerator.fromScene(room).texture;
+    this.scene.environment = this.roomEnvironment;
+    room.dispose();
+    pmremGenerator.dispose();
+  }
+
+  private getSkyboxSource(settings: SceneEnvironmentSettings | null): SkyboxSource | null {
+    if (settings?.backgroundTexturePath) return { kind: 'equirect', path: settings.backgroundTexturePath };
+    const faces = settings?.backgroundCubemapPaths;
+    if (faces?.length === CUBEMAP_FACE_COUNT && faces.every(face => !!face)) return { kind: 'cubemap', paths: faces };
+    return null;
+  }
+
+  /**
+   * Prioridad del fondo: cielo de la escena, color de la escena y, si no hay ninguno, el cielo nocturno.
+   * Mientras un cielo carga se muestra el fondo por defecto. Los cielos que la escena ya no usa se liberan.
+   */
+  private updateBackground(): void {
+    if (!this.scene) return;
+    const source = this.skyboxSource;
+    const activeKey = source ? this.getSkyboxKey(source) : null;
+    this.disposeUnusedSkyboxes(activeKey);
+
+    const skybox = activeKey ? this.skyboxes.get(activeKey) : undefined;
+    if (skybox) {
+      this.scene.background = skybox.background;
+      this.scene.environment = skybox.environment;
+      return;
+    }
+
+    this.scene.background = this.backgroundColorOverride ? new THREE.Color(this.backgroundColorOverride) : this.skyBackground;
+    this.scene.environment = this.roomEnvironment;
+    if (source) this.loadSkybox(source);
+  }
+
+  private disposeUnusedSkyboxes(activeKey: string | null): void {
+    this.skyboxes.forEach((skybox, key) => {
+      if (key === activeKey) return;
+      this.disposeSkybox(skybox);
+      this.skyboxes.delete(key);
+    });
+  }
+
+  private disposeSkybox(skybox: Skybox): void {
+    skybox.background.dispose();
+    skybox.environment.dispose();
+  }
+
+  private getSkyboxKey(source: SkyboxSource): string {
+    return source.kind === 'equirect' ? source.path : source.paths.join('|');
+  }
+
+  /** Una sola descarga por cielo: los cambios de ajustes mientras carga no lanzan otra. */
+  private loadSkybox(source: SkyboxSource): void {
+    const key = this.getSkyboxKey(source);
+    if (this.loadingSkyboxKeys.has(key)) return;
+    this.loadingSkyboxKeys.add(key);
+
+    const isActiveKey = () => !!this.skyboxSource && this.getSkyboxKey(this.skyboxSource) === key;
+    const onLoad = (texture: THREE.Texture) => {
+      this.loadingSkyboxKeys.delete(key);
+      // La escena cambió de cielo mientras cargaba: no se prefiltra ni se guarda.
+      if (!isActiveKey()) {
+        texture.dispose();
+        return;
+      }
+      const pmremGenerator = new THREE.PMREMGenerator(this.renderer);
+      const environment = texture instanceof THREE.CubeTexture
+        ? pmremGenerator.fromCubemap(texture).texture
+        : pmremGenerator.fromEquirectangular(texture).texture;
+      pmremGenerator.dispose();
+      const previous = this.skyboxes.get(key);
+      if (previous) this.disposeSkybox(previous);
+      this.skyboxes.set(key, { background: texture, environment });
+      this.updateBackground();
+    };
+    const onError = (error: unknown) => {
+      this.loadingSkyboxKeys.delete(key);
+      console.error(`[SceneManager] Error al cargar el cielo '${key}':`, error);
+      if (!isActiveKey()) return;
+      this.skyboxSource = null;
+      this.updateBackground();
+    };
+
+    if (source.kind === 'cubemap') {
+      new THREE.CubeTextureLoader().load(source.paths.map(path => `${this.backendUrl}${path}`), texture => {
+        texture.colorSpace = THREE.SRGBColorSpace;
+        onLoad(texture);
+      }, undefined, onError);
+      return;
+    }
+
+    const url = `${this.backendUrl}${source.path}`;
+    const extension = source.path.split('.').pop()?.toLowerCase();
+    const withEquirectMapping = (texture: THREE.Texture) => {
+      texture.mapping = THREE.EquirectangularReflectionMapping;
+      onLoad(texture);
+    };
+    // Las panorámicas HDR/EXR son lineales; las PNG/JPG vienen en sRGB.
+    if (extension === 'hdr') {
+      new HDRLoader().load(url, withEquirectMapping, undefined, onError);
+    } else if (extension === 'exr') {
+      new EXRLoader().load(url, withEquirectMapping, undefined, onError);
+    } else {
+      new THREE.TextureLoader().load(url, texture => {
+        texture.colorSpace = THREE.SRGBColorSpace;
+        withEquirectMapping(texture);
+      }, undefined, onError);
+    }
+  }
+
   public setControls(controls: OrbitControls): void { this.controls = controls; }
   public getSceneBoundingBox(): THREE.Box3 {
     const box = new THREE.Box3();
@@ -283,8 +520,31 @@ export class SceneManagerService {
     });
     return box;
   }
+  /**
+   * ✨ NUEVO: Fija el tamaño de dibujo del renderer y de los composers sin cambiar el tamaño del canvas en la página
+   * (capturas y grabaciones a una resolución distinta de la vista). `restoreDrawingSize` vuelve al de la vista.
+   */
+  public setDrawingSize(width: number, height: number, pixelRatio = 1): void {
+    this.isDrawingSizeFixed = true;
+    this.applyDrawingSize(width, height, pixelRatio);
+  }
+
+  public restoreDrawingSize(): void {
+    this.isDrawingSizeFixed = false;
+    this.applyDrawingSize(this.canvas.clientWidth, this.canvas.clientHeight, this.getPixelRatio());
+  }
+
+  private applyDrawingSize(width: number, height: number, pixelRatio: number): void {
+    this.renderer.setPixelRatio(pixelRatio);
+    this.composer.setPixelRatio(pixelRatio);
+    this.bloomComposer.setPixelRatio(pixelRatio);
+    this.renderer.setSize(width, height, false);
+    this.composer.setSize(width, height);
+    this.bloomComposer.setSize(width, height);
+  }
+
   public onWindowResize(): void {
-    if (!this.canvas || !this.renderer || !this.activeCamera) return;
+    if (!this.canvas || !this.renderer || !this.activeCamera || this.isDrawingSizeFixed) return;
     const container = this.canvas.parentElement;
     if (!container) return;
     const newWidth = container.clientWidth;
@@ -297,7 +557,7 @@ export class SceneManagerService {
       this.renderer.setSize(newWidth, newHeight);
       this.composer.setSize(newWidth, newHeight);
       this.bloomComposer.setSize(newWidth, newHeight);
-      this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, 1.5));
+      this.renderer.setPixelRatio(this.getPixelRatio());
     }
   }
   public frameScene(): void {
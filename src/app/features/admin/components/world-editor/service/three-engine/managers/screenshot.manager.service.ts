@@ -0,0 +1,138 @@
+// src/app/features/admin/components/world-editor/service/three-engine/managers/screenshot.manager.service.ts
+
+import { Injectable } from '@angular/core';
+import * as THREE from 'three';
+import { SceneManagerService } from './scene-manager.service';
+
+/**
+ * @interface ScreenshotOptions
+ * @description Opciones de una captura de la vista.
+ */
+export interface ScreenshotOptions {
+  width: number;
+  height: number;
+  /** Sin el fondo de la escena: lo que no tapa ningún objeto queda transparente en el PNG. */
+  transparentBackground: boolean;
+}
+
+/** Lado máximo de una captura, en píxeles. */
+export const MAX_SCREENSHOT_SIZE = 8192;
+/** Lado máximo de cada tesela; las capturas mayores se renderizan por partes. */
+const MAX_TILE_SIZE = 2048;
+/**
+ * Margen que se renderiza alrededor de cada tesela y después se descarta:
+ * el bloom de un objeto se extiende más allá de su tesela y, sin margen, se notarían los cortes.
+ */
+const TILE_PADDING = 64;
+
+/**
+ * Ajusta la proyección de una cámara a otra proporción, conservando el encuadre vertical.
+ * Devuelve la función que deja la cámara como estaba.
+ */
+export function fitCameraToAspect(camera: THREE.Camera, aspect: number): () => void {
+  if (camera instanceof THREE.PerspectiveCamera) {
+    const previousAspect = camera.aspect;
+    camera.aspect = aspect;
+    camera.updateProjectionMatrix();
+    return () => {
+      camera.aspect = previousAspect;
+      camera.updateProjectionMatrix();
+    };
+  }
+  if (!(camera instanceof THREE.OrthographicCamera)) return () => {};
+
+  const { left, right } = camera;
+  const center = (left + right) / 2;
+  const halfWidth = ((camera.top - camera.bottom) * aspect) / 2;
+  camera.left = center - halfWidth;
+  camera.right = center + halfWidth;
+  camera.updateProjectionMatrix();
+  return () => {
+    camera.left = left;
+    camera.right = right;
+    camera.updateProjectionMatrix();
+  };
+}
+
+/**
+ * @class ScreenshotManagerService
+ * @description
+ * ✨ NUEVO: Captura la vista de la cámara activa con la misma cadena de postprocesado que el editor
+ * (bloom, mapeo de tonos, contornos) a cualquier resolución. Si la captura no cabe en una sola pasada,
+ * se divide en teselas desplazando la vista de la cámara (`setViewOffset`) y se recompone en un canvas 2D.
+ * Quien llama decide cómo se pinta cada tesela (`renderFrame`) y qué se oculta durante la captura.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ScreenshotManagerService {
+
+  constructor(private sceneManager: SceneManagerService) { }
+
+  public capture(options: ScreenshotOptions, renderFrame: () => void): HTMLCanvasElement {
+    const { renderer, composer } = this.sceneManager;
+    const camera = this.sceneManager.activeCamera as THREE.PerspectiveCamera | THREE.OrthographicCamera;
+    const width = THREE.MathUtils.clamp(Math.round(options.width), 1, MAX_SCREENSHOT_SIZE);
+    const height = THREE.MathUtils.clamp(Math.round(options.height), 1, MAX_SCREENSHOT_SIZE);
+
+    const tileSize = Math.min(MAX_TILE_SIZE, renderer.capabilities.maxTextureSize);
+    const isTiled = width > tileSize || height > tileSize;
+    const padding = isTiled ? TILE_PADDING : 0;
+    const tileWidth = isTiled ? tileSize - padding * 2 : width;
+    const tileHeight = isTiled ? tileSize - padding * 2 : height;
+
+    const output = document.createElement('canvas');
+    output.width = width;
+    output.height = height;
+    const context = output.getContext('2d')!;
+
+    const previousRenderToScreen = composer.renderToScreen;
+    const restoreProjection = fitCameraToAspect(camera, width / height);
+
+    try {
+      composer.renderToScreen = false;
+
+      for (let y = 0; y < height; y += tileHeight) {
+        for (let x = 0; x < width; x += tileWidth) {
+          const w = Math.min(tileWidth, width - x);
+          const h = Math.min(tileHeight, height - y);
+          const renderWidth = w + padding * 2;
+          const renderHeight = h + padding * 2;
+
+          this.sceneManager.setDrawingSize(renderWidth, renderHeight);
+          camera.setViewOffset(width, height, x - padding, y - padding, renderWidth, renderHeight);
+          renderFrame();
+
+          // Sin `renderToScreen`, el resultado del último pase queda en `readBuffer`.
+          context.putImageData(this.readTile(composer.readBuffer, padding, w, h), x, y);
+        }
+      }
+    } finally {
+      camera.clearViewOffset();
+      restoreProjection();
+      composer.renderToScreen = previousRenderToScreen;
+      this.sceneManager.restoreDrawingSize();
+    }
+    return output;
+  }
+
+  /**
+   * Lee la zona útil de la tesela (sin el margen). Los render targets del composer son de media precisión:
+   * se convierten a bytes y se invierten las filas, porque WebGL las devuelve de abajo arriba.
+   */
+  private readTile(target: THREE.WebGLRenderTarget, padding: number, width: number, height: number): ImageData {
+    const halfFloats = new Uint16Array(width * height * 4);
+    this.sceneManager.renderer.readRenderTargetPixels(target, padding, padding, width, height, halfFloats);
+
+    const image = new ImageData(width, height);
+    for (let row = 0; row < height; row++) {
+      const source = (height - 1 - row) * width * 4;
+      const destination = row * width * 4;
+      for (let i = 0; i < width * 4; i++) {
+        const value = THREE.DataUtils.fromHalfFloat(halfFloats[source + i]);
+        image.data[destination + i] = THREE.MathUtils.clamp(Math.round(value * 255), 0, 255);
+      }
+    }
+    return image;
+  }
+}
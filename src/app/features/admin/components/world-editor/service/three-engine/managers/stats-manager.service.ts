@@ -1,7 +1,66 @@
 // src/app/features/admin/components/world-editor/service/three-engine/utils/stats-manager.service.ts
 
 import { Injectable } from '@angular/core';
+import * as THREE from 'three';
+import { BehaviorSubject, Observable } from 'rxjs';
 import Stats from 'stats.js';
+import { SceneManagerService } from './scene-manager.service';
+import { LabelManagerService } from './label-manager.service';
+import { CelestialInstanceData } from './object-manager.service';
+import { CelestialInstancesManagerService } from './celestial-instances.manager.service';
+
+/** Partes de un fotograma que se cronometran por separado. */
+export type FrameSection = 'update' | 'bloom' | 'composer';
+
+export type FrameTimings = Record<FrameSection, number>;
+
+/**
+ * @interface InstancedMeshStats
+ * @description Instancias de un `InstancedMesh` celestial: las que se ven (encendidas y en el frustum) y el total.
+ */
+export interface InstancedMeshStats {
+  name: string;
+  visible: number;
+  total: number;
+}
+
+/**
+ * @interface RenderStats
+ * @description Resumen del rendimiento, con los tiempos medios desde el resumen anterior.
+ * Los contadores de `renderer.info` suman todas las pasadas del fotograma (bloom y composer).
+ */
+export interface RenderStats {
+  fps: number;
+  frameTime: number;
+  timings: FrameTimings;
+  /** Tiempos de los últimos fotogramas, del más antiguo al más reciente. */
+  history: FrameTimings[];
+  drawCalls: number;
+  triangles: number;
+  geometries: number;
+  textures: number;
+  programs: number;
+  instancedMeshes: InstancedMeshStats[];
+  labelSprites: number;
+  warnings: string[];
+}
+
+/**
+ * ✨ NUEVO: Límites a partir de los que el panel de rendimiento avisa. `frameTime` en milisegundos.
+ */
+export const PERFORMANCE_BUDGETS = {
+  drawCalls: 500,
+  triangles: 2_000_000,
+  textures: 200,
+  programs: 60,
+  labelSprites: 200,
+  frameTime: 1000 / 30
+};
+
+const FRAME_HISTORY_LENGTH = 120;
+/** Cada cuánto se publica un resumen; hacerlo en cada fotograma saturaría la detección de cambios. */
+const PUBLISH_INTERVAL_MS = 500;
+const CELESTIAL_MESH_PREFIX = 'CelestialObjects_';
 
 @Injectable({
   providedIn: 'root'
@@ -9,8 +68,33 @@ import Stats from 'stats.js';
 export class StatsManagerService {
   private stats: Stats;
 
-  constructor() {
+  // ✨ NUEVO: Estadísticas de renderizado y tiempos por partes del fotograma. Solo se calculan con alguien suscrito.
+  public renderStats$: Observable<RenderStats | null>;
+  private renderStatsSubject = new BehaviorSubject<RenderStats | null>(null);
+  private observerCount = 0;
+  private history: FrameTimings[] = [];
+  private currentFrame: FrameTimings | null = null;
+  private sectionStart = 0;
+  private frameStart = 0;
+  private framesSincePublish = 0;
+  private totalsSincePublish: FrameTimings = { update: 0, bloom: 0, composer: 0 };
+  private frameTimeSincePublish = 0;
+  private lastPublish = 0;
+
+  constructor(
+    private sceneManager: SceneManagerService,
+    private labelManager: LabelManagerService,
+    private celestialInstances: CelestialInstancesManagerService
+  ) {
     this.stats = new Stats();
+    this.renderStats$ = new Observable<RenderStats | null>(subscriber => {
+      this.observerCount++;
+      const subscription = this.renderStatsSubject.subscribe(subscriber);
+      return () => {
+        this.observerCount--;
+        subscription.unsubscribe();
+      };
+    });
   }
 
   /**
@@ -48,9 +132,23 @@ export class StatsManagerService {
 
   /**
    * Debe ser llamado al inicio de cada frame del bucle de animación.
+   * Abre también el cronometraje por partes (`endSection`).
    */
   public begin(): void {
     this.stats.begin();
+    this.frameStart = this.sectionStart = performance.now();
+    this.currentFrame = { update: 0, bloom: 0, composer: 0 };
+  }
+
+  /**
+   * ✨ NUEVO: Cierra la parte del fotograma que empezó al terminar la anterior (o en `begin`).
+   * Fuera de `begin`/`end` (ej. al pintar una captura) no cuenta nada.
+   */
+  public endSection(section: FrameSection): void {
+    if (!this.currentFrame) return;
+    const now = performance.now();
+    this.currentFrame[section] += now - this.sectionStart;
+    this.sectionStart = now;
   }
 
   /**
@@ -58,6 +156,23 @@ export class StatsManagerService {
    */
   public end(): void {
     this.stats.end();
+    if (!this.currentFrame) return;
+
+    const now = performance.now();
+    const frame = this.currentFrame;
+    this.currentFrame = null;
+    this.history.push(frame);
+    if (this.history.length > FRAME_HISTORY_LENGTH) this.history.shift();
+
+    this.framesSincePublish++;
+    this.frameTimeSincePublish += now - this.frameStart;
+    (Object.keys(frame) as FrameSection[]).forEach(section => this.totalsSincePublish[section] += frame[section]);
+
+    if (now - this.lastPublish >= PUBLISH_INTERVAL_MS) {
+      // Sin nadie mirando no se recorren las instancias; solo se reinicia el intervalo.
+      if (this.observerCount > 0) this.publish(now);
+      else this.resetInterval(now);
+    }
   }
 
   /**
@@ -67,5 +182,67 @@ export class StatsManagerService {
     if (this.stats.dom && this.stats.dom.parentElement) {
       this.stats.dom.parentElement.removeChild(this.stats.dom);
     }
+    this.renderStatsSubject.next(null);
+  }
+
+  private publish(now: number): void {
+    const frames = this.framesSincePublish;
+    const elapsed = now - this.lastPublish;
+    const info = this.sceneManager.renderer.info;
+    const timings: FrameTimings = {
+      update: this.totalsSincePublish.update / frames,
+      bloom: this.totalsSincePublish.bloom / frames,
+      composer: this.totalsSincePublish.composer / frames
+    };
+
+    const stats: RenderStats = {
+      fps: this.lastPublish > 0 ? (frames * 1000) / elapsed : 0,
+      frameTime: this.frameTimeSincePublish / frames,
+      timings,
+      history: [...this.history],
+      drawCalls: info.render.calls,
+      triangles: info.render.triangles,
+      geometries: info.memory.geometries,
+      textures: info.memory.textures,
+      programs: info.programs?.length ?? 0,
+      instancedMeshes: this.getInstancedMeshStats(),
+      labelSprites: this.labelManager.getActiveLabelCount(),
+      warnings: []
+    };
+    stats.warnings = this.getBudgetWarnings(stats);
+    this.renderStatsSubject.next(stats);
+    this.resetInterval(now);
+  }
+
+  private resetInterval(now: number): void {
+    this.lastPublish = now;
+    this.framesSincePublish = 0;
+    this.frameTimeSincePublish = 0;
+    this.totalsSincePublish = { update: 0, bloom: 0, composer: 0 };
+  }
+
+  private getInstancedMeshStats(): InstancedMeshStats[] {
+    return this.sceneManager.scene.children
+      .filter((object): object is THREE.InstancedMesh => object instanceof THREE.InstancedMesh && object.name.startsWith(CELESTIAL_MESH_PREFIX))
+      .map(mesh => {
+        const data: CelestialInstanceData[] = mesh.userData['celestialData'] ?? [];
+        return {
+          name: mesh.name.slice(CELESTIAL_MESH_PREFIX.length),
+          visible: this.celestialInstances.countVisibleInstances(mesh, this.sceneManager.activeCamera),
+          total: data.length
+        };
+      });
+  }
+
+  private getBudgetWarnings(stats: RenderStats): string[] {
+    const budgets = PERFORMANCE_BUDGETS;
+    const warnings: string[] = [];
+    if (stats.drawCalls > budgets.drawCalls) warnings.push(`Draw calls > ${budgets.drawCalls} (${stats.drawCalls})`);
+    if (stats.triangles > budgets.triangles) warnings.push(`Triángulos > ${budgets.triangles.toLocaleString()} (${stats.triangles.toLocaleString()})`);
+    if (stats.textures > budgets.textures) warnings.push(`Texturas > ${budgets.textures} (${stats.textures})`);
+    if (stats.programs > budgets.programs) warnings.push(`Programas de shader > ${budgets.programs} (${stats.programs})`);
+    if (stats.labelSprites > budgets.labelSprites) warnings.push(`Etiquetas > ${budgets.labelSprites} (${stats.labelSprites})`);
+    if (stats.frameTime > budgets.frameTime) warnings.push(`Fotograma > ${budgets.frameTime.toFixed(1)} ms (${stats.frameTime.toFixed(1)} ms)`);
+    return warnings;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,230 @@
+// src/app/features/admin/components/world-editor/service/three-engine/managers/video-manager.service.ts
+
+import { Injectable } from '@angular/core';
+import * as THREE from 'three';
+import { Observable, Subject } from 'rxjs';
+import { filter, map, startWith } from 'rxjs/operators';
+
+/**
+ * @interface VideoSettings
+ * @description Configuración de una pantalla de vídeo, leída de sus `properties`.
+ */
+export interface VideoSettings {
+  loop: boolean;
+  autoplay: boolean;
+  muted: boolean;
+  /** Segundo desde el que arranca el vídeo (y al que vuelve al reiniciar). */
+  startTime: number;
+  /** Si la pantalla adopta la proporción del vídeo (alto 1, ancho según el vídeo) o la del objeto. */
+  fitToAspect: boolean;
+}
+
+/**
+ * @interface VideoPlaybackState
+ * @description Estado de reproducción de una pantalla, para los controles del panel de propiedades.
+ */
+export interface VideoPlaybackState {
+  /** Lo que ha pedido el usuario (o `autoplay`): la pantalla reproduce cuando además está a la vista. */
+  wantsToPlay: boolean;
+  isPlaying: boolean;
+  /** En pausa solo por estar fuera de la vista o demasiado lejos. */
+  isAutoPaused: boolean;
+  currentTime: number;
+  duration: number;
+}
+
+/**
+ * Lee la configuración de vídeo de las `properties` de un objeto, con valores por defecto.
+ * Por defecto los vídeos se silencian: los navegadores bloquean la reproducción automática con sonido.
+ */
+export function getVideoSettings(properties: Record<string, any> | null | undefined): VideoSettings {
+  const props = properties ?? {};
+  const startTime = typeof props['startTime'] === 'number' ? props['startTime'] : parseFloat(String(props['startTime']));
+  return {
+    loop: props['loop'] !== false,
+    autoplay: props['autoplay'] !== false,
+    muted: props['muted'] !== false,
+    startTime: Number.isFinite(startTime) && startTime > 0 ? startTime : 0,
+    fitToAspect: props['fitToAspect'] !== false
+  };
+}
+
+/** Eventos del `<video>` que cambian lo que muestran los controles de reproducción. */
+const PLAYBACK_EVENTS = ['play', 'pause', 'timeupdate', 'durationchange', 'seeked'];
+
+/** Cada cuánto se revisa qué pantallas están a la vista; no hace falta hacerlo en cada fotograma. */
+const VISIBILITY_CHECK_INTERVAL = 0.25;
+/** Más allá de este múltiplo del tamaño de la pantalla, el vídeo se pausa aunque esté en el encuadre. */
+const MAX_PLAY_DISTANCE_FACTOR = 60;
+
+interface VideoEntry {
+  mesh: THREE.Mesh;
+  video: HTMLVideoElement;
+  texture: THREE.VideoTexture;
+  settings: VideoSettings;
+  wantsToPlay: boolean;
+  isInView: boolean;
+}
+
+/**
+ * ✨ NUEVO: Pantallas de vídeo. Cada una reproduce su asset en un `<video>` fuera del DOM que alimenta una `VideoTexture`.
+ * `update` pausa las pantallas que no están en el encuadre o quedan lejos, para que el navegador no decodifique
+ * vídeos que nadie ve, y las reanuda al volver a la vista si el usuario quería reproducirlas.
+ */
+@Injectable({ providedIn: 'root' })
+export class VideoManagerService {
+
+  private entries = new Map<string, VideoEntry>();
+  private frustum = new THREE.Frustum();
+  private projectionMatrix = new THREE.Matrix4();
+  private tempPosition = new THREE.Vector3();
+  private tempScale = new THREE.Vector3();
+  private timeSinceCheck = 0;
+  /** Emite el uuid de la pantalla cuyo estado de reproducción acaba de cambiar. */
+  private stateChangedSubject = new Subject<string>();
+
+  /**
+   * Crea la pantalla (un plano) y empieza a cargar el vídeo. El tamaño se corrige al conocer su proporción.
+   */
+  public createVideoScreen(uuid: string, url: string, properties: Record<string, any> | null | undefined): THREE.Mesh {
+    const settings = getVideoSettings(properties);
+    const video = document.createElement('video');
+    video.crossOrigin = 'anonymous';
+    video.playsInline = true;
+    video.preload = 'metadata';
+    video.loop = settings.loop;
+    video.muted = settings.muted;
+    video.src = url;
+
+    const texture = new THREE.VideoTexture(video);
+    texture.colorSpace = THREE.SRGBColorSpace;
+    const material = new THREE.MeshBasicMaterial({ map: texture, side: THREE.DoubleSide, toneMapped: false });
+    const mesh = new THREE.Mesh(new THREE.PlaneGeometry(1, 1), material);
+
+    const entry: VideoEntry = { mesh, video, texture, settings, wantsToPlay: settings.autoplay, isInView: false };
+    this.entries.set(uuid, entry);
+
+    video.addEventListener('loadedmetadata', () => {
+      if (entry.settings.startTime > 0) video.currentTime = Math.min(entry.settings.startTime, video.duration || 0);
+      this.updateGeometry(entry);
+    }, { once: true });
+    PLAYBACK_EVENTS.forEach(type => video.addEventListener(type, () => this.stateChangedSubject.next(uuid)));
+    video.addEventListener('error', () => console.error(`[VideoManager] No se pudo cargar el vídeo '${url}'.`, video.error));
+    return mesh;
+  }
+
+  /**
+   * Aplica las `properties` editadas. `autoplay` y `startTime` solo afectan a la carga y al reinicio.
+   */
+  public applySettings(uuid: string, properties: Record<string, any> | null | undefined): void {
+    const entry = this.entries.get(uuid);
+    if (!entry) return;
+    const previous = entry.settings;
+    entry.settings = getVideoSettings(properties);
+    entry.video.loop = entry.settings.loop;
+    entry.video.muted = entry.settings.muted;
+    if (previous.fitToAspect !== entry.settings.fitToAspect) this.updateGeometry(entry);
+  }
+
+  public getState(uuid: string): VideoPlaybackState | null {
+    const entry = this.entries.get(uuid);
+    if (!entry) return null;
+    return {
+      wantsToPlay: entry.wantsToPlay,
+      isPlaying: !entry.video.paused,
+      isAutoPaused: entry.wantsToPlay && !entry.isInView,
+      currentTime: entry.video.currentTime,
+      duration: Number.isFinite(entry.video.duration) ? entry.video.duration : 0
+    };
+  }
+
+  /**
+   * Estado de reproducción de una pantalla: emite el actual al suscribirse y de nuevo cada vez que cambia
+   * (reproducción, pausa, avance del tiempo o pausa automática al salir de la vista).
+   */
+  public watchState(uuid: string): Observable<VideoPlaybackState | null> {
+    return this.stateChangedSubject.pipe(
+      filter(changed => changed === uuid),
+      startWith(uuid),
+      map(() => this.getState(uuid))
+    );
+  }
+
+  public setPlaying(uuid: string, playing: boolean): void {
+    const entry = this.entries.get(uuid);
+    if (!entry) return;
+    entry.wantsToPlay = playing;
+    this.syncPlayback(entry);
+    this.stateChangedSubject.next(uuid);
+  }
+
+  /** Vuelve al `startTime` configurado sin cambiar si se está reproduciendo. */
+  public restart(uuid: string): void {
+    const entry = this.entries.get(uuid);
+    if (entry) entry.video.currentTime = entry.settings.startTime;
+  }
+
+  public update(camera: THREE.Camera, delta: number): void {
+    if (this.entries.size === 0) return;
+    this.timeSinceCheck += delta;
+    if (this.timeSinceCheck < VISIBILITY_CHECK_INTERVAL) return;
+    this.timeSinceCheck = 0;
+
+    this.projectionMatrix.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
+    this.frustum.setFromProjectionMatrix(this.projectionMatrix);
+
+    this.entries.forEach((entry, uuid) => {
+      const isInView = this.isInView(entry, camera);
+      if (isInView !== entry.isInView) {
+        entry.isInView = isInView;
+        this.stateChangedSubject.next(uuid);
+      }
+      this.syncPlayback(entry);
+    });
+  }
+
+  public removeVideo(uuid: string): void {
+    const entry = this.entries.get(uuid);
+    if (!entry) return;
+    entry.video.pause();
+    entry.video.removeAttribute('src');
+    entry.video.load();
+    entry.texture.dispose();
+    this.entries.delete(uuid);
+    this.stateChangedSubject.next(uuid);
+  }
+
+  public clear(): void {
+    Array.from(this.entries.keys()).forEach(uuid => this.removeVideo(uuid));
+  }
+
+  private isInView(entry: VideoEntry, camera: THREE.Camera): boolean {
+    const { mesh } = entry;
+    if (!mesh.parent || !mesh.visible || !this.frustum.intersectsObject(mesh)) return false;
+    mesh.getWorldPosition(this.tempPosition);
+    mesh.getWorldScale(this.tempScale);
+    const size = Math.max(this.tempScale.x, this.tempScale.y) * Math.max(1, this.getAspect(entry));
+    return camera.position.distanceTo(this.tempPosition) < size * MAX_PLAY_DISTANCE_FACTOR;
+  }
+
+  private syncPlayback(entry: VideoEntry): void {
+    const { video } = entry;
+    const shouldPlay = entry.wantsToPlay && entry.isInView;
+    if (shouldPlay && video.paused) {
+      video.play().catch(err => console.warn('[VideoManager] El navegador no permitió reproducir el vídeo:', err));
+    } else if (!shouldPlay && !video.paused) {
+      video.pause();
+    }
+  }
+
+  private getAspect(entry: VideoEntry): number {
+    const { videoWidth, videoHeight } = entry.video;
+    return videoWidth > 0 && videoHeight > 0 ? videoWidth / videoHeight : 1;
+  }
+
+  private updateGeometry(entry: VideoEntry): void {
+    const width = entry.settings.fitToAspect ? this.getAspect(entry) : 1;
+    entry.mesh.geometry.dispose();
+    entry.mesh.geometry = new THREE.PlaneGeometry(width, 1);
+  }
+}
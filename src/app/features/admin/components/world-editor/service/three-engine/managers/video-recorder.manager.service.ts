@@ -0,0 +1,233 @@
+// src/app/features/admin/components/world-editor/service/three-engine/managers/video-recorder.manager.service.ts
+
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { SceneManagerService } from './scene-manager.service';
+import { fitCameraToAspect } from './screenshot.manager.service';
+
+/**
+ * @interface RecordingOptions
+ * @description Opciones de una grabación de la vista.
+ */
+export interface RecordingOptions {
+  width: number;
+  height: number;
+  fps: number;
+  /** Segundos de vídeo. */
+  duration: number;
+  /**
+   * Paso fijo: cada fotograma avanza la escena exactamente `1 / fps` segundos, tarde lo que tarde en pintarse.
+   * Sin él se graba en tiempo real y el vídeo hereda los tirones de la vista.
+   */
+  fixedTimestep: boolean;
+  /** Rótulo sobre el vídeo con el título y el tiempo transcurrido. */
+  hud: boolean;
+  hudTitle: string;
+}
+
+/**
+ * @interface RecordingProgress
+ * @description Progreso de la grabación en curso, en segundos de vídeo.
+ */
+export interface RecordingProgress {
+  time: number;
+  duration: number;
+}
+
+export const RECORDING_FPS_OPTIONS = [30, 60];
+export const MAX_RECORDING_SIZE = 3840;
+
+const RECORDING_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+/** Bits por píxel y fotograma: unos 6 Mbit/s a 1080p y 30 fps. */
+const BITS_PER_PIXEL = 0.1;
+const HUD_MARGIN = 24;
+
+interface RecordingSession {
+  options: RecordingOptions;
+  canvas: HTMLCanvasElement;
+  context: CanvasRenderingContext2D;
+  recorder: MediaRecorder;
+  track: CanvasCaptureMediaStreamTrack;
+  chunks: Blob[];
+  time: number;
+  isStopRequested: boolean;
+  restoreProjection: () => void;
+}
+
+/**
+ * @class VideoRecorderManagerService
+ * @description
+ * ✨ NUEVO: Graba la vista (ya con bloom y postprocesado) en WebM con `MediaRecorder`. Cada fotograma pintado
+ * se copia a un canvas 2D del tamaño del vídeo, donde también se dibuja el rótulo, y ese canvas es el que se graba.
+ *
+ * - En tiempo real, el motor llama a `captureFrame` tras pintar cada fotograma del bucle normal.
+ * - A paso fijo, la grabación toma el control del bucle (`isDrivingFrames`): pinta un fotograma, deja grabar
+ *   al `MediaRecorder` durante `1 / fps` segundos y lo pausa mientras se pinta el siguiente. Así el vídeo sale
+ *   fluido aunque la escena vaya lenta, a cambio de que grabar tarde más que lo que dura el vídeo.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class VideoRecorderManagerService {
+
+  public progress$: Observable<RecordingProgress | null>;
+
+  private progressSubject = new BehaviorSubject<RecordingProgress | null>(null);
+  private session: RecordingSession | null = null;
+
+  constructor(private sceneManager: SceneManagerService) {
+    this.progress$ = this.progressSubject.asObservable();
+  }
+
+  public isSupported(): boolean {
+    return typeof MediaRecorder !== 'undefined'
+      && typeof HTMLCanvasElement.prototype.captureStream === 'function'
+      && RECORDING_MIME_TYPES.some(type => MediaRecorder.isTypeSupported(type));
+  }
+
+  public get isRecording(): boolean {
+    return this.session !== null;
+  }
+
+  public get isDrivingFrames(): boolean {
+    return this.session?.options.fixedTimestep ?? false;
+  }
+
+  /**
+   * Empieza a grabar. La promesa se resuelve con el vídeo al acabar la duración o al llamar a `stop`.
+   * @param renderFrame Avanza la escena `delta` segundos y la pinta; solo se usa a paso fijo.
+   */
+  public start(options: RecordingOptions, renderFrame: (delta: number) => void): Promise<Blob> {
+    if (this.session) return Promise.reject(new Error('Ya hay una grabación en curso.'));
+    if (!this.isSupported()) return Promise.reject(new Error('El navegador no permite grabar vídeo WebM.'));
+
+    const mimeType = RECORDING_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type))!;
+    const canvas = document.createElement('canvas');
+    canvas.width = options.width;
+    canvas.height = options.height;
+    // A paso fijo, los fotogramas se entregan a mano con `requestFrame`.
+    const stream = canvas.captureStream(options.fixedTimestep ? 0 : options.fps);
+    const recorder = new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: Math.round(options.width * options.height * options.fps * BITS_PER_PIXEL)
+    });
+
+    this.sceneManager.setDrawingSize(options.width, options.height);
+    const session: RecordingSession = {
+      options,
+      canvas,
+      context: canvas.getContext('2d')!,
+      recorder,
+      track: stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack,
+      chunks: [],
+      time: 0,
+      isStopRequested: false,
+      restoreProjection: fitCameraToAspect(this.sceneManager.activeCamera, options.width / options.height)
+    };
+    this.session = session;
+    this.progressSubject.next({ time: 0, duration: options.duration });
+
+    return new Promise<Blob>((resolve, reject) => {
+      recorder.ondataavailable = event => {
+        if (event.data.size > 0) session.chunks.push(event.data);
+      };
+      recorder.onstop = () => resolve(new Blob(session.chunks, { type: 'video/webm' }));
+      recorder.onerror = event => {
+        console.error('[VideoRecorder] Error del MediaRecorder:', event);
+        reject(new Error('La grabación se interrumpió por un error del navegador.'));
+        this.finish(session);
+      };
+
+      if (options.fixedTimestep) {
+        recorder.start();
+        recorder.pause();
+        this.runFixedTimestep(session, renderFrame).catch(err => {
+          reject(err);
+          this.finish(session);
+        });
+      } else {
+        recorder.start(1000);
+      }
+      console.log(`[VideoRecorder] Grabando ${options.width}x${options.height} a ${options.fps} fps (${mimeType}).`);
+    });
+  }
+
+  /** Termina la grabación antes de tiempo; el vídeo conserva lo grabado hasta ahora. */
+  public stop(): void {
+    if (!this.session) return;
+    this.session.isStopRequested = true;
+    if (!this.session.options.fixedTimestep) this.finish(this.session);
+  }
+
+  /**
+   * Graba el fotograma que se acaba de pintar en el bucle normal (grabación en tiempo real).
+   * Debe llamarse justo después de pintar, antes de que el navegador presente el canvas y lo borre.
+   */
+  public captureFrame(delta: number): void {
+    const session = this.session;
+    if (!session || session.options.fixedTimestep) return;
+    session.time = Math.min(session.time + delta, session.options.duration);
+    this.composeFrame(session);
+    this.progressSubject.next({ time: session.time, duration: session.options.duration });
+    if (session.time >= session.options.duration) this.finish(session);
+  }
+
+  private async runFixedTimestep(session: RecordingSession, renderFrame: (delta: number) => void): Promise<void> {
+    const delta = 1 / session.options.fps;
+    const frameCount = Math.round(session.options.duration * session.options.fps);
+
+    for (let frame = 0; frame < frameCount && !session.isStopRequested; frame++) {
+      renderFrame(delta);
+      session.time = (frame + 1) * delta;
+      this.composeFrame(session);
+
+      // Solo se graba mientras el recorder está activo: cada fotograma ocupa exactamente su duración en el vídeo.
+      session.recorder.resume();
+      session.track.requestFrame();
+      await new Promise(resolve => setTimeout(resolve, delta * 1000));
+      session.recorder.pause();
+      this.progressSubject.next({ time: session.time, duration: session.options.duration });
+    }
+    this.finish(session);
+  }
+
+  private composeFrame(session: RecordingSession): void {
+    const { context, canvas, options } = session;
+    context.drawImage(this.sceneManager.renderer.domElement, 0, 0, canvas.width, canvas.height);
+    if (options.hud) this.drawHud(session);
+  }
+
+  private drawHud(session: RecordingSession): void {
+    const { context, canvas, options } = session;
+    const scale = canvas.height / 720;
+    const margin = HUD_MARGIN * scale;
+
+    context.save();
+    context.font = `600 ${Math.round(22 * scale)}px sans-serif`;
+    context.fillStyle = 'rgba(255, 255, 255, 0.9)';
+    context.shadowColor = 'rgba(0, 0, 0, 0.8)';
+    context.shadowBlur = 6 * scale;
+    context.textBaseline = 'bottom';
+    context.textAlign = 'left';
+    context.fillText(options.hudTitle, margin, canvas.height - margin);
+    context.textAlign = 'right';
+    context.fillText(this.formatTime(session.time), canvas.width - margin, canvas.height - margin);
+    context.restore();
+  }
+
+  private formatTime(seconds: number): string {
+    const minutes = Math.floor(seconds / 60);
+    const rest = Math.floor(seconds % 60);
+    return `${minutes.toString().padStart(2, '0')}:${rest.toString().padStart(2, '0')}`;
+  }
+
+  private finish(session: RecordingSession): void {
+    if (this.session !== session) return;
+    this.session = null;
+    if (session.recorder.state !== 'inactive') session.recorder.stop();
+    session.track.stop();
+    session.restoreProjection();
+    this.sceneManager.restoreDrawingSize();
+    this.progressSubject.next(null);
+  }
+}
@@ -0,0 +1,341 @@
+// src/app/features/admin/components/world-editor/service/three-engine/managers/wmts-lod.manager.service.ts
+
+import { Injectable } from '@angular/core';
+import * as THREE from 'three';
+
+/**
+ * @constant WMTS_BASE_LEVEL
+ * @description Nivel de `TileMatrix` de la textura base que cubre todo el planeta.
+ * Los niveles superiores se cargan por teselas bajo demanda.
+ */
+export const WMTS_BASE_LEVEL = 1;
+
+const MAX_TILE_LEVEL = 8;
+const TILE_PIXEL_SIZE = 256;
+/** Se subdivide una tesela cuando ocupa en pantalla más de este múltiplo de su resolución. */
+const SUBDIVIDE_THRESHOLD = 1.25;
+const MAX_VISIBLE_TILES = 96;
+const MAX_CACHED_TILES = 256;
+const MAX_CONCURRENT_REQUESTS = 6;
+const LOD_UPDATE_INTERVAL = 0.25;
+/** Duración (s) del fundido entre niveles. */
+const BLEND_DURATION = 0.4;
+/** Elevación relativa de cada nivel sobre la esfera, para que el nivel más fino quede encima. */
+const PATCH_ELEVATION_PER_LEVEL = 1e-4;
+const PATCH_SEGMENTS = 16;
+
+interface TileKey {
+  level: number;
+  row: number;
+  col: number;
+}
+
+interface TilePatch {
+  mesh: THREE.Mesh;
+  material: THREE.MeshStandardMaterial;
+  url: string;
+  targetOpacity: number;
+}
+
+interface WmtsPlanetState {
+  mesh: THREE.Mesh;
+  templateUrl: string;
+  patches: Map<string, TilePatch>;
+  wantedUrls: Set<string>;
+}
+
+interface QueuedTile {
+  url: string;
+  level: number;
+}
+
+/**
+ * @class WmtsLodManagerService
+ * @description
+ * Streaming de teselas WMTS por niveles de detalle (quadtree) para los cuerpos `isWmtsCelestialBody`.
+ * La textura base cubre el planeta a `WMTS_BASE_LEVEL`; encima se dibujan parches esféricos con las
+ * teselas visibles del nivel que pide la distancia de la cámara. Las teselas se guardan en una caché
+ * LRU y cada cambio de nivel se hace con un fundido; mientras carga una tesela se muestra su antecesora.
+ */
+@Injectable({ providedIn: 'root' })
+export class WmtsLodManagerService {
+
+  private planets = new Map<string, WmtsPlanetState>();
+  private tileCache = new Map<string, THREE.Texture>();
+  private loadingUrls = new Set<string>();
+  private failedUrls = new Set<string>();
+  private queue: QueuedTile[] = [];
+  private textureLoader = new THREE.TextureLoader();
+  private timeSinceLodUpdate = LOD_UPDATE_INTERVAL;
+
+  private frustum = new THREE.Frustum();
+  private projScreenMatrix = new THREE.Matrix4();
+  private tempSphere = new THREE.Sphere();
+  private planetCenter = new THREE.Vector3();
+  private planetQuaternion = new THREE.Quaternion();
+  private planetScale = new THREE.Vector3();
+  private tileDirection = new THREE.Vector3();
+  private toCamera = new THREE.Vector3();
+
+  constructor() {
+    this.textureLoader.setCrossOrigin('anonymous');
+  }
+
+  /**
+   * Registra un planeta WMTS. Se deja de gestionar automáticamente cuando sale de la escena.
+   */
+  public register(mesh: THREE.Mesh, templateUrl: string): void {
+    this.planets.set(mesh.uuid, { mesh, templateUrl, patches: new Map(), wantedUrls: new Set() });
+  }
+
+  /**
+   * Construye la URL de una tesela a partir de la plantilla `{TileMatrix}/{TileRow}/{TileCol}` del asset.
+   */
+  public getTileUrl(templateUrl: string, level: number, row: number, col: number): string {
+    return templateUrl
+      .replace('{TileMatrix}', String(level))
+      .replace('{TileRow}', String(row))
+      .replace('{TileCol}', String(col));
+  }
+
+  public update(camera: THREE.Camera, viewportHeight: number, delta: number): void {
+    if (this.planets.size === 0) return;
+
+    this.planets.forEach((planet, id) => {
+      if (!planet.mesh.parent) {
+        this.disposePlanet(planet);
+        this.planets.delete(id);
+      }
+    });
+
+    this.timeSinceLodUpdate += delta;
+    if (this.timeSinceLodUpdate >= LOD_UPDATE_INTERVAL) {
+      this.timeSinceLodUpdate = 0;
+      camera.updateMatrixWorld();
+      this.projScreenMatrix.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
+      this.frustum.setFromProjectionMatrix(this.projScreenMatrix);
+      this.planets.forEach(planet => planet.mesh.visible && this.updatePlanetLod(planet, camera, viewportHeight));
+      this.pumpQueue();
+    }
+
+    this.planets.forEach(planet => this.updateFades(planet, delta));
+  }
+
+  private updatePlanetLod(planet: WmtsPlanetState, camera: THREE.Camera, viewportHeight: number): void {
+    const displayedKeys = new Map<string, TileKey>();
+    planet.wantedUrls.clear();
+
+    this.selectTiles(planet, camera, viewportHeight).forEach(tile => {
+      const url = this.getTileUrl(planet.templateUrl, tile.level, tile.row, tile.col);
+      if (this.tileCache.has(url)) {
+        displayedKeys.set(this.toKey(tile), tile);
+        return;
+      }
+      planet.wantedUrls.add(url);
+      this.enqueue(url, tile.level);
+      // Mientras llega la tesela se mantiene visible la antecesora más cercana ya cargada.
+      const ancestor = this.findLoadedAncestor(planet, tile);
+      if (ancestor) displayedKeys.set(this.toKey(ancestor), ancestor);
+    });
+
+    displayedKeys.forEach((tile, key) => {
+      const patch = planet.patches.get(key) ?? this.createPatch(planet, tile, key);
+      patch.targetOpacity = 1;
+      this.touchCachedTile(patch.url);
+    });
+    planet.patches.forEach((patch, key) => {
+      if (!displayedKeys.has(key)) patch.targetOpacity = 0;
+    });
+  }
+
+  /**
+   * Recorre el quadtree desde el nivel 0 y devuelve las teselas visibles al nivel de detalle necesario.
+   */
+  private selectTiles(planet: WmtsPlanetState, camera: THREE.Camera, viewportHeight: number): TileKey[] {
+    planet.mesh.updateMatrixWorld();
+    planet.mesh.matrixWorld.decompose(this.planetCenter, this.planetQuaternion, this.planetScale);
+    const localRadius = (planet.mesh.geometry as THREE.SphereGeometry).parameters.radius;
+    const worldRadius = localRadius * this.planetScale.x;
+    const cameraDistance = camera.position.distanceTo(this.planetCenter);
+    const horizonAngle = Math.acos(Math.min(1, worldRadius / Math.max(cameraDistance, 1e-6)));
+
+    const selected: TileKey[] = [];
+    const pending: TileKey[] = [{ level: 0, row: 0, col: 0 }, { level: 0, row: 0, col: 1 }];
+
+    while (pending.length > 0) {
+      const tile = pending.shift()!;
+      const tileAngle = Math.PI / Math.pow(2, tile.level);
+      const halfDiagonal = tileAngle * Math.SQRT1_2;
+
+      this.getTileDirection(tile, tileAngle).applyQuaternion(this.planetQuaternion);
+      this.toCamera.subVectors(camera.position, this.planetCenter).normalize();
+      const angleToCamera = Math.acos(THREE.MathUtils.clamp(this.tileDirection.dot(this.toCamera), -1, 1));
+      if (angleToCamera > horizonAngle + halfDiagonal) continue;
+
+      this.tempSphere.center.copy(this.planetCenter).addScaledVector(this.tileDirection, worldRadius);
+      this.tempSphere.radius = worldRadius * halfDiagonal;
+      if (!this.frustum.intersectsSphere(this.tempSphere)) continue;
+
+      const projectedSize = worldRadius * tileAngle * this.getPixelsPerUnit(camera, viewportHeight, this.tempSphere.center);
+      const needsDetail = tile.level < MAX_TILE_LEVEL && projectedSize > TILE_PIXEL_SIZE * SUBDIVIDE_THRESHOLD;
+      if (needsDetail && selected.length + pending.length + 4 <= MAX_VISIBLE_TILES) {
+        for (let dr = 0; dr < 2; dr++) {
+          for (let dc = 0; dc < 2; dc++) {
+            pending.push({ level: tile.level + 1, row: tile.row * 2 + dr, col: tile.col * 2 + dc });
+          }
+        }
+        continue;
+      }
+      if (tile.level > WMTS_BASE_LEVEL) selected.push(tile);
+    }
+
+    return selected;
+  }
+
+  private getPixelsPerUnit(camera: THREE.Camera, viewportHeight: number, point: THREE.Vector3): number {
+    if (camera instanceof THREE.OrthographicCamera) {
+      return viewportHeight * camera.zoom / (camera.top - camera.bottom);
+    }
+    const fov = THREE.MathUtils.degToRad((camera as THREE.PerspectiveCamera).fov ?? 50);
+    const distance = Math.max(camera.position.distanceTo(point), 1e-6);
+    return viewportHeight / (2 * Math.tan(fov / 2) * distance);
+  }
+
+  /**
+   * Dirección local del centro de una tesela, con la misma parametrización que `SphereGeometry`
+   * (phi = longitud desde -180°, theta = colatitud desde el polo norte).
+   */
+  private getTileDirection(tile: TileKey, tileAngle: number): THREE.Vector3 {
+    const phi = (tile.col + 0.5) * tileAngle;
+    const theta = (tile.row + 0.5) * tileAngle;
+    return this.tileDirection.set(-Math.cos(phi) * Math.sin(theta), Math.cos(theta), Math.sin(phi) * Math.sin(theta));
+  }
+
+  private findLoadedAncestor(planet: WmtsPlanetState, tile: TileKey): TileKey | null {
+    let { level, row, col } = tile;
+    while (level > WMTS_BASE_LEVEL + 1) {
+      level--; row >>= 1; col >>= 1;
+      if (this.tileCache.has(this.getTileUrl(planet.templateUrl, level, row, col))) return { level, row, col };
+    }
+    return null;
+  }
+
+  private createPatch(planet: WmtsPlanetState, tile: TileKey, key: string): TilePatch {
+    const url = this.getTileUrl(planet.templateUrl, tile.level, tile.row, tile.col);
+    const texture = this.tileCache.get(url)!;
+    const tileAngle = Math.PI / Math.pow(2, tile.level);
+    const localRadius = (planet.mesh.geometry as THREE.SphereGeometry).parameters.radius;
+
+    const geometry = new THREE.SphereGeometry(
+      localRadius * (1 + PATCH_ELEVATION_PER_LEVEL * tile.level), PATCH_SEGMENTS, PATCH_SEGMENTS,
+      tile.col * tileAngle, tileAngle, tile.row * tileAngle, tileAngle
+    );
+    // El parche reutiliza el aspecto del planeta (brillo y color de halo) con la tesela como textura.
+    const material = (planet.mesh.material as THREE.MeshStandardMaterial).clone();
+    material.map = texture;
+    material.color.set(0xffffff);
+    material.emissiveMap = texture;
+    material.transparent = true;
+    material.opacity = 0;
+    material.needsUpdate = true;
+
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.name = `WmtsTile_${key}`;
+    mesh.renderOrder = tile.level;
+    mesh.layers.mask = planet.mesh.layers.mask;
+    mesh.frustumCulled = false;
+    // Los clics deben llegar al planeta, no a sus parches.
+    mesh.raycast = () => {};
+    planet.mesh.add(mesh);
+
+    const patch: TilePatch = { mesh, material, url, targetOpacity: 1 };
+    planet.patches.set(key, patch);
+    return patch;
+  }
+
+  private updateFades(planet: WmtsPlanetState, delta: number): void {
+    const step = delta / BLEND_DURATION;
+    planet.patches.forEach((patch, key) => {
+      const { material } = patch;
+      if (material.opacity < patch.targetOpacity) {
+        material.opacity = Math.min(patch.targetOpacity, material.opacity + step);
+      } else if (material.opacity > patch.targetOpacity) {
+        material.opacity = Math.max(patch.targetOpacity, material.opacity - step);
+        if (material.opacity === 0) this.removePatch(planet, key);
+      }
+    });
+  }
+
+  private removePatch(planet: WmtsPlanetState, key: string): void {
+    const patch = planet.patches.get(key);
+    if (!patch) return;
+    planet.mesh.remove(patch.mesh);
+    patch.mesh.geometry.dispose();
+    patch.material.dispose();
+    planet.patches.delete(key);
+  }
+
+  private disposePlanet(planet: WmtsPlanetState): void {
+    [...planet.patches.keys()].forEach(key => this.removePatch(planet, key));
+  }
+
+  private enqueue(url: string, level: number): void {
+    if (this.loadingUrls.has(url) || this.failedUrls.has(url) || this.queue.some(q => q.url === url)) return;
+    this.queue.push({ url, level });
+  }
+
+  /**
+   * Lanza las descargas pendientes que siguen siendo necesarias, de los niveles más bajos a los más altos.
+   */
+  private pumpQueue(): void {
+    const wanted = new Set<string>();
+    this.planets.forEach(planet => planet.wantedUrls.forEach(url => wanted.add(url)));
+    this.queue = this.queue.filter(q => wanted.has(q.url)).sort((a, b) => a.level - b.level);
+
+    while (this.loadingUrls.size < MAX_CONCURRENT_REQUESTS && this.queue.length > 0) {
+      const { url } = this.queue.shift()!;
+      this.loadingUrls.add(url);
+      this.textureLoader.load(url, texture => {
+        texture.colorSpace = THREE.SRGBColorSpace;
+        texture.minFilter = THREE.LinearFilter;
+        texture.generateMipmaps = false;
+        this.loadingUrls.delete(url);
+        this.addCachedTile(url, texture);
+        this.pumpQueue();
+      }, undefined, () => {
+        console.warn(`[WmtsLodManager] No se pudo cargar la tesela: ${url}`);
+        this.loadingUrls.delete(url);
+        this.failedUrls.add(url);
+        this.pumpQueue();
+      });
+    }
+  }
+
+  private touchCachedTile(url: string): void {
+    const texture = this.tileCache.get(url);
+    if (!texture) return;
+    this.tileCache.delete(url);
+    this.tileCache.set(url, texture);
+  }
+
+  /**
+   * Inserta una tesela en la caché LRU, expulsando las menos usadas que no estén en pantalla.
+   */
+  private addCachedTile(url: string, texture: THREE.Texture): void {
+    this.tileCache.set(url, texture);
+    if (this.tileCache.size <= MAX_CACHED_TILES) return;
+
+    const inUse = new Set<string>();
+    this.planets.forEach(planet => planet.patches.forEach(patch => inUse.add(patch.url)));
+    for (const [cachedUrl, cachedTexture] of this.tileCache) {
+      if (this.tileCache.size <= MAX_CACHED_TILES) break;
+      if (inUse.has(cachedUrl)) continue;
+      cachedTexture.dispose();
+      this.tileCache.delete(cachedUrl);
+    }
+  }
+
+  private toKey(tile: TileKey): string {
+    return `${tile.level}/${tile.row}/${tile.col}`;
+  }
+}
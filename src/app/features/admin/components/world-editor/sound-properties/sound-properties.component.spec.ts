@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { SoundPropertiesComponent } from './sound-properties.component';
+
+describe('SoundPropertiesComponent', () => {
+  let component: SoundPropertiesComponent;
+  let fixture: ComponentFixture<SoundPropertiesComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [SoundPropertiesComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(SoundPropertiesComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
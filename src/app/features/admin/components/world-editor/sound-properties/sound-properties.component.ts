@@ -0,0 +1,66 @@
+// src/app/features/admin/components/world-editor/sound-properties/sound-properties.component.ts
+import { Component, Input, Output, EventEmitter, OnChanges, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { SceneObjectResponse } from '../../../services/admin.service';
+import { EngineService } from '../service/three-engine/core/engine.service';
+import { getSoundSettings, SoundSettings } from '../service/three-engine/managers/audio-manager.service';
+
+export interface SoundUpdate {
+  type: 'sound';
+  path: 'properties';
+  value: NonNullable<SceneObjectResponse['properties']>;
+}
+
+type SoundNumberKey = 'volume' | 'refDistance' | 'maxDistance' | 'rolloffFactor';
+
+/**
+ * ✨ NUEVO: Propiedades de una fuente de sonido: volumen, alcance (distancia de referencia y máxima),
+ * atenuación, bucle y modo ambiental. "Probar" reproduce el sonido sin editar el objeto.
+ */
+@Component({
+  selector: 'app-sound-properties',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './sound-properties.component.html',
+  styleUrls: ['./sound-properties.component.css']
+})
+export class SoundPropertiesComponent implements OnChanges {
+  @Input() selectedObject!: SceneObjectResponse;
+  @Output() soundChange = new EventEmitter<SoundUpdate>();
+
+  public settings: SoundSettings | null = null;
+
+  constructor(private engineService: EngineService) {}
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['selectedObject'] && this.selectedObject) {
+      this.settings = getSoundSettings(this.selectedObject.properties);
+    }
+  }
+
+  get hasSound(): boolean {
+    return this.selectedObject?.asset?.type === 'sound_mp3';
+  }
+
+  play(): void {
+    this.engineService.playSound(this.selectedObject.id.toString());
+  }
+
+  onNumberChange(key: SoundNumberKey, event: Event): void {
+    const value = parseFloat((event.target as HTMLInputElement).value);
+    if (!this.settings || !Number.isFinite(value) || value < 0 || value === this.settings[key]) return;
+    this.emitChange({ [key]: value });
+  }
+
+  onToggleChange(key: 'loop' | 'ambient', event: Event): void {
+    this.emitChange({ [key]: (event.target as HTMLInputElement).checked });
+  }
+
+  private emitChange(change: Partial<SoundSettings>): void {
+    if (!this.settings) return;
+    const value = { ...this.selectedObject.properties, ...change };
+    // Los valores se normalizan igual que en el motor (ej. `maxDistance` nunca menor que `refDistance`).
+    this.settings = getSoundSettings(value);
+    this.soundChange.emit({ type: 'sound', path: 'properties', value });
+  }
+}
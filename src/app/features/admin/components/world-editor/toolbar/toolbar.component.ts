@@ -1,7 +1,10 @@
 // src/app/features/admin/components/world-editor/toolbar/toolbar.component.ts
 import { Component, EventEmitter, Output, Input } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { Observable } from 'rxjs';
 import { EngineService } from '../service/three-engine/core/engine.service';
+import { RecordingProgress } from '../service/three-engine/managers/video-recorder.manager.service';
+import { CommandHistoryService } from '../service/history/command-history.service';
  
 export type ToolMode = 'select' | 'move' | 'rotate' | 'scale' | 'helper' | 'camera' | 'frame' | 'maximize';
 
@@ -16,10 +19,26 @@ export class ToolbarComponent {
   activeTool: ToolMode = 'select';
   
   @Input() isMaximized: boolean = false;
+  @Input() isExporting: boolean = false;
   
   @Output() maximizeToggle = new EventEmitter<void>();
+  @Output() exportGlb = new EventEmitter<void>();
+  @Output() captureScreenshot = new EventEmitter<void>();
+  @Output() recordVideo = new EventEmitter<void>();
 
-  constructor(private engineService: EngineService) { }
+  public canUndo$: Observable<boolean>;
+  public canRedo$: Observable<boolean>;
+  public isSimulating$: Observable<boolean>;
+  public isAudioMuted$: Observable<boolean>;
+  public recordingProgress$: Observable<RecordingProgress | null>;
+
+  constructor(private engineService: EngineService, private commandHistory: CommandHistoryService) {
+    this.canUndo$ = this.commandHistory.canUndo$;
+    this.canRedo$ = this.commandHistory.canRedo$;
+    this.isSimulating$ = this.engineService.isPhysicsSimulating$;
+    this.isAudioMuted$ = this.engineService.isAudioMuted$;
+    this.recordingProgress$ = this.engineService.recordingProgress$;
+  }
 
   setTool(tool: ToolMode): void {
     if (this.activeTool === tool) {
@@ -30,10 +49,49 @@ export class ToolbarComponent {
     this.engineService.setToolMode(this.activeTool);
   }
 
+  undo(): void {
+    this.commandHistory.undo();
+  }
+
+  redo(): void {
+    this.commandHistory.redo();
+  }
+
+  // ✨ NUEVO: Simulación física de las primitivas. Al detenerla los objetos vuelven a su transformación guardada.
+  toggleSimulation(isSimulating: boolean): void {
+    this.activeTool = 'select';
+    this.engineService.setPhysicsSimulation(!isSimulating);
+  }
+
+  resetSimulation(): void {
+    this.engineService.resetPhysicsSimulation();
+  }
+
+  toggleAudioMuted(isMuted: boolean): void {
+    this.engineService.setAudioMuted(!isMuted);
+  }
+
   toggleMaximize(): void {
     this.maximizeToggle.emit();
   }
 
+  requestGlbExport(): void {
+    this.exportGlb.emit();
+  }
+
+  requestScreenshot(): void {
+    this.captureScreenshot.emit();
+  }
+
+  // ✨ NUEVO: Sin grabación abre las opciones; durante una grabación la detiene (se guarda lo grabado).
+  toggleRecording(isRecording: boolean): void {
+    if (isRecording) {
+      this.engineService.stopRecording();
+    } else {
+      this.recordVideo.emit();
+    }
+  }
+
   toggleCamera(): void {
     this.engineService.toggleCameraMode();
     // ✨ LÓGICA AÑADIDA: Inmediatamente después de cambiar la cámara, se encuadra la escena.
@@ -1,4 +1,4 @@
-import { Component, OnDestroy, OnInit, ChangeDetectorRef } from '@angular/core';
+import { Component, OnDestroy, OnInit, ChangeDetectorRef, HostListener } from '@angular/core';
 import { CommonModule, NgStyle } from '@angular/common';
 import { Subscription } from 'rxjs';
 import { TourService, TourStep } from '../../../services/tour.service';
@@ -19,6 +19,7 @@ export class TourGuideComponent implements OnInit, OnDestroy {
 
   public totalSteps = 0;
   public currentIndex = 0;
+  public isWaitingForAction = false;
 
   private tourSubscription?: Subscription;
   private resizeObserver: ResizeObserver;
@@ -58,6 +59,40 @@ export class TourGuideComponent implements OnInit, OnDestroy {
         this.cdr.detectChanges();
       })
     );
+
+    this.tourSubscription.add(
+      this.tourService.isWaitingForAction$.subscribe(isWaiting => {
+        this.isWaitingForAction = isWaiting;
+        this.cdr.detectChanges();
+      })
+    );
+  }
+
+  /**
+   * ✨ NUEVO: Navegación con teclado: → / Enter avanzan, ← retrocede y Esc cierra la guía.
+   * No interfiere con la escritura en campos de texto.
+   */
+  @HostListener('window:keydown', ['$event'])
+  public onKeyDown(event: KeyboardEvent): void {
+    if (!this.isTourActive || !this.currentStep) return;
+    const target = event.target as HTMLElement | null;
+    if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+    switch (event.key) {
+      case 'ArrowRight':
+      case 'Enter':
+        event.preventDefault();
+        this.tourService.next();
+        break;
+      case 'ArrowLeft':
+        event.preventDefault();
+        this.tourService.prev();
+        break;
+      case 'Escape':
+        event.preventDefault();
+        this.tourService.stop();
+        break;
+    }
   }
 
   ngOnDestroy(): void {
@@ -0,0 +1,95 @@
+// src/app/features/admin/components/world-editor/video-properties/video-properties.component.ts
+import { Component, Input, Output, EventEmitter, OnChanges, OnDestroy, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subscription } from 'rxjs';
+import { SceneObjectResponse } from '../../../services/admin.service';
+import { EngineService } from '../service/three-engine/core/engine.service';
+import { getVideoSettings, VideoPlaybackState, VideoSettings } from '../service/three-engine/managers/video-manager.service';
+
+export interface VideoUpdate {
+  type: 'video';
+  path: 'properties';
+  value: NonNullable<SceneObjectResponse['properties']>;
+}
+
+type VideoToggleKey = 'loop' | 'autoplay' | 'muted' | 'fitToAspect';
+
+/**
+ * ✨ NUEVO: Propiedades de una pantalla de vídeo (bucle, autoplay, silencio, inicio y proporción) y sus controles
+ * de reproducción. Reproducir o pausar no es una edición del objeto: va directo al motor y no entra en el historial.
+ */
+@Component({
+  selector: 'app-video-properties',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './video-properties.component.html',
+  styleUrls: ['./video-properties.component.css']
+})
+export class VideoPropertiesComponent implements OnChanges, OnDestroy {
+  @Input() selectedObject!: SceneObjectResponse;
+  @Output() videoChange = new EventEmitter<VideoUpdate>();
+
+  public settings: VideoSettings | null = null;
+  public state: VideoPlaybackState | null = null;
+
+  private stateSubscription?: Subscription;
+
+  constructor(private engineService: EngineService) {}
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['selectedObject'] && this.selectedObject) {
+      this.settings = getVideoSettings(this.selectedObject.properties);
+      const previous = changes['selectedObject'].previousValue as SceneObjectResponse | undefined;
+      if (!this.stateSubscription || previous?.id !== this.selectedObject.id) this.watchState();
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.stateSubscription?.unsubscribe();
+  }
+
+  get hasVideo(): boolean {
+    return this.selectedObject?.asset?.type === 'video_mp4';
+  }
+
+  togglePlay(): void {
+    if (!this.state) return;
+    this.engineService.setVideoPlaying(this.selectedObject.id.toString(), !this.state.wantsToPlay);
+  }
+
+  restart(): void {
+    this.engineService.restartVideo(this.selectedObject.id.toString());
+  }
+
+  onToggleChange(key: VideoToggleKey, event: Event): void {
+    this.emitChange({ [key]: (event.target as HTMLInputElement).checked });
+  }
+
+  onStartTimeChange(event: Event): void {
+    const value = parseFloat((event.target as HTMLInputElement).value);
+    if (!this.settings || !Number.isFinite(value) || value < 0 || value === this.settings.startTime) return;
+    this.emitChange({ startTime: value });
+  }
+
+  formatTime(seconds: number): string {
+    const whole = Math.floor(seconds);
+    return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+  }
+
+  /** El estado llega del gestor de vídeo cada vez que cambia; solo hace falta resuscribirse al cambiar de objeto. */
+  private watchState(): void {
+    this.stateSubscription?.unsubscribe();
+    this.stateSubscription = this.engineService.watchVideoState(this.selectedObject.id.toString())
+      .subscribe(state => this.state = state);
+  }
+
+  private emitChange(change: Partial<VideoSettings>): void {
+    if (!this.settings) return;
+    this.settings = { ...this.settings, ...change };
+    this.videoChange.emit({
+      type: 'video',
+      path: 'properties',
+      value: { ...this.selectedObject.properties, ...change }
+    });
+  }
+}
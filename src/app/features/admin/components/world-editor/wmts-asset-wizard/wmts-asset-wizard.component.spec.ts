@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { WmtsAssetWizardComponent } from './wmts-asset-wizard.component';
+
+describe('WmtsAssetWizardComponent', () => {
+  let component: WmtsAssetWizardComponent;
+  let fixture: ComponentFixture<WmtsAssetWizardComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [WmtsAssetWizardComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(WmtsAssetWizardComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
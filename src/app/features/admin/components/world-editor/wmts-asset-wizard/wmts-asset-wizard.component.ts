@@ -0,0 +1,147 @@
+// src/app/features/admin/components/world-editor/wmts-asset-wizard/wmts-asset-wizard.component.ts
+
+import { Component, EventEmitter, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { finalize } from 'rxjs/operators';
+import { AssetResponse } from '../../../services/admin.service';
+import { AssetService } from '../../../services/asset-cache.service';
+import {
+  buildGetCapabilitiesUrl,
+  buildWmtsPreviewTileUrl,
+  parseWmtsCapabilities,
+  toWmtsMetadata,
+  WmtsCapabilities,
+  WmtsCapabilitiesLayer
+} from '../../../services/wmts-capabilities.parser';
+
+/**
+ * @class WmtsAssetWizardComponent
+ * @description
+ * Asistente para registrar un asset WMTS: descarga el GetCapabilities del servicio, lista sus capas
+ * con título, resumen, proyección y TileMatrixSets, muestra una tesela de baja resolución de la capa
+ * elegida y la envía a `AssetService.createWmtsAsset`.
+ */
+@Component({
+  selector: 'app-wmts-asset-wizard',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './wmts-asset-wizard.component.html',
+  styleUrls: ['./wmts-asset-wizard.component.css']
+})
+export class WmtsAssetWizardComponent {
+  @Output() close = new EventEmitter<void>();
+  @Output() created = new EventEmitter<AssetResponse>();
+
+  public endpoint = '';
+  public capabilities: WmtsCapabilities | null = null;
+  public layerFilter = '';
+  public filteredLayers: WmtsCapabilitiesLayer[] = [];
+  public selectedLayer: WmtsCapabilitiesLayer | null = null;
+  public selectedTileMatrixSet = '';
+  public assetName = '';
+  public previewUrl: string | null = null;
+  public previewFailed = false;
+  public errorMessage: string | null = null;
+  public isFetching = false;
+  public isSubmitting = false;
+
+  private capabilitiesUrl = '';
+
+  constructor(private assetService: AssetService) {}
+
+  get canSubmit(): boolean {
+    return !!this.selectedLayer && !!this.selectedTileMatrixSet && this.assetName.trim().length > 0 && !this.isSubmitting;
+  }
+
+  fetchCapabilities(): void {
+    if (!this.endpoint.trim() || this.isFetching) return;
+
+    this.capabilitiesUrl = buildGetCapabilitiesUrl(this.endpoint);
+    this.capabilities = null;
+    this.updateFilteredLayers();
+    this.selectLayer(null);
+    this.errorMessage = null;
+    this.isFetching = true;
+
+    this.assetService.getWmtsCapabilities(this.capabilitiesUrl).pipe(
+      finalize(() => this.isFetching = false)
+    ).subscribe({
+      next: xml => {
+        try {
+          this.capabilities = parseWmtsCapabilities(xml);
+          this.updateFilteredLayers();
+          if (this.capabilities.layers.length === 0) this.errorMessage = 'El servicio no publica ninguna capa.';
+        } catch (err) {
+          console.error('[WmtsAssetWizard] Error al analizar el GetCapabilities:', err);
+          this.errorMessage = (err as Error).message;
+        }
+      },
+      error: err => {
+        console.error(`[WmtsAssetWizard] Error al descargar '${this.capabilitiesUrl}':`, err);
+        this.errorMessage = 'No se pudo descargar el documento. Revisa la URL y que el servidor permita CORS.';
+      }
+    });
+  }
+
+  onLayerFilterChange(filter: string): void {
+    this.layerFilter = filter;
+    this.updateFilteredLayers();
+  }
+
+  selectLayer(layer: WmtsCapabilitiesLayer | null): void {
+    this.selectedLayer = layer;
+    this.selectedTileMatrixSet = layer?.tileMatrixSets[0] ?? '';
+    this.assetName = layer?.title || layer?.layerId || '';
+    this.updatePreview();
+  }
+
+  updatePreview(): void {
+    this.previewFailed = false;
+    this.previewUrl = this.capabilities && this.selectedLayer && this.selectedTileMatrixSet
+      ? buildWmtsPreviewTileUrl(this.capabilities, this.selectedLayer, this.selectedTileMatrixSet)
+      : null;
+  }
+
+  getProjectionOf(tileMatrixSet: string): string {
+    const set = this.capabilities?.tileMatrixSets.find(s => s.identifier === tileMatrixSet);
+    return set ? `${set.supportedCRS} · ${set.tileMatrices.length} niveles` : '';
+  }
+
+  submit(): void {
+    if (!this.canSubmit || !this.selectedLayer) return;
+
+    const metadata = toWmtsMetadata(this.selectedLayer, this.selectedTileMatrixSet);
+    this.isSubmitting = true;
+    this.assetService.createWmtsAsset({
+      name: this.assetName.trim(),
+      wmtsEndpoint: this.capabilitiesUrl,
+      layerId: metadata.layerId,
+      bbox: metadata.bbox,
+      metadata
+    }).pipe(finalize(() => this.isSubmitting = false)).subscribe({
+      next: asset => {
+        console.log(`[WmtsAssetWizard] Asset WMTS '${asset.name}' creado (id ${asset.id}).`);
+        this.created.emit(asset);
+        this.close.emit();
+      },
+      error: err => {
+        console.error('[WmtsAssetWizard] Error al crear el asset WMTS:', err);
+        alert(`No se pudo crear el asset "${this.assetName}".`);
+      }
+    });
+  }
+
+  /** Recalcula la lista visible solo cuando cambian el filtro o las capacidades, no en cada detección de cambios. */
+  private updateFilteredLayers(): void {
+    const layers = this.capabilities?.layers ?? [];
+    const filter = this.layerFilter.trim().toLowerCase();
+    this.filteredLayers = filter
+      ? layers.filter(layer => layer.title.toLowerCase().includes(filter) || layer.layerId.toLowerCase().includes(filter))
+      : layers;
+  }
+
+  trackByLayerId(_: number, layer: WmtsCapabilitiesLayer): string {
+    return layer.layerId;
+  }
+}
@@ -1,26 +1,36 @@
 // src/app/features/admin/views/world-view/world-view.component.ts
 
-import { Component, OnInit, OnDestroy, ChangeDetectorRef, Renderer2 } from '@angular/core';
+import { Component, OnInit, OnDestroy, ChangeDetectorRef, Renderer2, HostListener } from '@angular/core';
 import { ActivatedRoute, Router } from '@angular/router';
-import { CommonModule } from '@angular/common';
+import { CommonModule, Location } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { Observable, Subject, Subscription, BehaviorSubject, combineLatest } from 'rxjs';
-import { switchMap, tap, debounceTime, map, startWith, pairwise } from 'rxjs/operators';
+import { Observable, Subject, Subscription, BehaviorSubject, combineLatest, forkJoin, of } from 'rxjs';
+import { switchMap, tap, debounceTime, map, startWith, pairwise, filter, skip } from 'rxjs/operators';
 import { DragDropModule, CdkDragDrop, moveItemInArray } from '@angular/cdk/drag-drop';
 import { environment } from '../../../../../environments/environment';
-import { SceneObjectResponse, AdminService } from '../../services/admin.service';
+import { SceneObjectResponse, AdminService, SceneResponse, SceneEnvironmentSettings, EpisodeRenderSettings, AssetResponse, CameraPathResponse } from '../../services/admin.service';
 import { SceneObjectService } from '../../services/scene-object.service';
+import { EpisodeSceneService } from '../../services/episode-scene.service';
+import { CameraPathService } from '../../services/camera-path.service';
 import { AddObjectModalComponent, NewSceneObjectData } from '../world-editor/add-object-modal/add-object-modal.component';
 import { BrujulaComponent } from '../world-editor/brujula/brujula.component';
 import { DescriptionUpdate, PropertiesPanelComponent, PropertyUpdate } from '../world-editor/properties-panel/properties-panel.component';
+import { MaterialUpdate } from '../world-editor/material-properties/material-properties.component';
 import { SceneSettingsPanelComponent } from '../world-editor/scene-settings-panel/scene-settings-panel.component';
+import { CameraPathEditorComponent } from '../world-editor/camera-path-editor/camera-path-editor.component';
+import { ScreenshotDialogComponent, ScreenshotRequest } from '../world-editor/screenshot-dialog/screenshot-dialog.component';
+import { RecordingDialogComponent, RecordingRequest } from '../world-editor/recording-dialog/recording-dialog.component';
+import { PerformancePanelComponent } from '../world-editor/performance-panel/performance-panel.component';
 import { SceneComponent } from '../world-editor/scene/scene.component';
 import { SceneEntity } from '../world-editor/service/three-engine/managers/entity-manager.service';
 import { ToolbarComponent } from '../world-editor/toolbar/toolbar.component';
+import { ASSET_DRAG_MIME, ASSET_DROP_OBJECT_TYPES, AssetBrowserComponent } from '../world-editor/asset-browser/asset-browser.component';
 import { EngineService } from '../world-editor/service/three-engine/core/engine.service';
 import { TourGuideComponent } from '../world-editor/tour-guide/tour-guide.component';
-import { TourService, TourStep } from '../../services/tour.service';
+import { TourDefinition, TourService } from '../../services/tour.service';
 import { StatsManagerService } from '../world-editor/service/three-engine/managers/stats-manager.service';
+import { AppliedState, CommandHistoryService, ObjectState } from '../world-editor/service/history/command-history.service';
+import { GameMode, GameStateService } from '../world-editor/service/game-state/game-state.service';
 
 export interface EntityGroup {
   type: string;
@@ -31,21 +41,21 @@ export interface EntityGroup {
   brightness: number;
 }
 
-export interface SceneTab {
-  id: number;
-  name: string;
-  isActive: boolean;
-}
+/** Escala inicial de una imagen o un vídeo soltados en el visor (se crean como un panel plano). */
+const DROPPED_IMAGE_SCALE = { x: 4, y: 4, z: 1 };
+
+/** Separación de una copia respecto al original, en múltiplos de su escala mayor. */
+const DUPLICATE_OFFSET_FACTOR = 1.5;
 
 type SceneObjectType = "cube" | "sphere" | "floor" | "model" | "video" | "sound" | "camera" | "torus" | "ambientLight" | "directionalLight" | "cone" | "galaxy_normal" | "galaxy_bright" | "galaxy_medium" | "galaxy_far";
 
 @Component({
   selector: 'app-world-view',
   standalone: true,
-  imports: [CommonModule, FormsModule, SceneComponent, AddObjectModalComponent, PropertiesPanelComponent, SceneSettingsPanelComponent, BrujulaComponent, ToolbarComponent, DragDropModule, TourGuideComponent],
+  imports: [CommonModule, FormsModule, SceneComponent, AddObjectModalComponent, PropertiesPanelComponent, SceneSettingsPanelComponent, BrujulaComponent, ToolbarComponent, DragDropModule, TourGuideComponent, AssetBrowserComponent, CameraPathEditorComponent, ScreenshotDialogComponent, RecordingDialogComponent, PerformancePanelComponent],
   templateUrl: './world-view.component.html',
   styleUrls: ['./world-view.component.css'],
-  providers: [EngineService, TourService]
+  providers: [EngineService, TourService, CommandHistoryService]
 })
 export class WorldViewComponent implements OnInit, OnDestroy {
   public episodeId?: number;
@@ -54,13 +64,36 @@ export class WorldViewComponent implements OnInit, OnDestroy {
   public loadingProgress = 0;
   public errorMessage: string | null = null;
   public sceneObjects: SceneObjectResponse[] = [];
+  public trashedObjects: SceneObjectResponse[] = [];
+  /** Todos los objetos del episodio, incluida la papelera (para avisar de referencias a un asset). */
+  public episodeObjects: SceneObjectResponse[] = [];
+  public isTrashVisible = false;
   public allEntities: SceneEntity[] = [];
   public episodeTitle = '';
+  // ✨ NUEVO: Ajustes de renderizado del episodio (`null` = los de por defecto).
+  public renderSettings: EpisodeRenderSettings | null = null;
+  public isExportingGlb = false;
+  // ✨ NUEVO: Captura de la vista (descarga en PNG o nueva miniatura del episodio).
+  public isScreenshotDialogVisible = false;
+  public isCapturingScreenshot = false;
+  // Tamaño de la vista al abrir la captura o la grabación: base de las resoluciones "Vista".
+  public canvasViewSize = { width: 1280, height: 720 };
+  // ✨ NUEVO: Grabación de vídeo de la vista o de un recorrido de cámara.
+  public isRecordingDialogVisible = false;
+  public isRecordingSupported = true;
+  // ✨ NUEVO: Modo juego (ruta /admin/play/:id): solo exploración, sin paneles del editor ni guardado.
+  public isPlayMode = false;
+  // ✨ NUEVO: Recorridos de cámara del episodio; en modo juego se lanzan desde la interfaz de exploración.
+  public cameraPaths: CameraPathResponse[] = [];
+  public playingCameraPathId: number | null = null;
   public episodeThumbnailUrl: string | null = null;
   public isThumbnailLoaded = false;
   public selectedEntityUuid: string | null = null;
+  public selectedEntityUuids: string[] = [];
   public selectedObject: SceneObjectResponse | null = null;
   public isAddObjectModalVisible = false;
+  public isTourMenuOpen = false;
+  public availableTours: TourDefinition[] = [];
   public activePropertiesTab: string = 'object';
   public axisLock$: Observable<'x' | 'y' | 'z' | null>;
   public isFlyModeActive$: Observable<boolean>;
@@ -68,9 +101,12 @@ export class WorldViewComponent implements OnInit, OnDestroy {
   public placeholderEntities: SceneEntity[] = [{ uuid: 'placeholder-1', name: 'Añadir objeto nuevo...', type: 'Model' }];
   public searchFilter: string = '';
   public totalFilteredEntityCount = 0;
-  public sceneTabs: SceneTab[] = [];
-  public activeSceneId: number = 1;
-  private nextSceneId: number = 2;
+  // ✨ NUEVO: Escenas persistidas del episodio, en el orden de las pestañas.
+  public scenes: SceneResponse[] = [];
+  public activeSceneId: number | null = null;
+  public activeSceneObjects: SceneObjectResponse[] = [];
+  /** Objetos de la papelera que pertenecen a la escena activa (se recalcula en `refreshObjectLists`). */
+  public activeTrashedObjects: SceneObjectResponse[] = [];
   public isImageModalVisible = false;
   public cameraTravelSpeedMultiplier: number = 1.0;
   public layoutState = {
@@ -107,6 +143,7 @@ export class WorldViewComponent implements OnInit, OnDestroy {
   private subscriptions = new Subscription();
   private allEntities$ = new BehaviorSubject<SceneEntity[]>([]);
   private selectedEntityUuid$ = new BehaviorSubject<string | null>(null);
+  private keepListExpanded = false;
 
   private isSceneAssetsLoaded = false;
   private isThumbnailAssetLoaded = false;
@@ -118,9 +155,14 @@ export class WorldViewComponent implements OnInit, OnDestroy {
     public engineService: EngineService,
     private cdr: ChangeDetectorRef,
     private sceneObjectService: SceneObjectService,
+    private episodeSceneService: EpisodeSceneService,
+    private cameraPathService: CameraPathService,
     private tourService: TourService,
     private renderer: Renderer2,
-    private statsManager: StatsManagerService
+    private statsManager: StatsManagerService,
+    private commandHistory: CommandHistoryService,
+    private gameStateService: GameStateService,
+    private location: Location
   ) {
     this.axisLock$ = this.engineService.axisLockState$;
     this.isFlyModeActive$ = this.engineService.isFlyModeActive$;
@@ -148,11 +190,13 @@ export class WorldViewComponent implements OnInit, OnDestroy {
 
   ngOnInit(): void {
     this.engineService.setTravelSpeedMultiplier(this.cameraTravelSpeedMultiplier);
-    this.sceneTabs.push({ id: 1, name: 'Escena Principal', isActive: true });
     const id = this.route.snapshot.paramMap.get('id');
     if (id) {
       this.episodeId = +id;
+      this.gameStateService.setMode(this.route.snapshot.data['gameMode'] ?? GameMode.EDITOR);
+      this.commandHistory.init(this.episodeId);
       this.loadEpisodeData(this.episodeId);
+      this.loadCameraPaths(this.episodeId);
       this.setupSubscriptions();
     } else {
       this.router.navigate(['/admin/episodios']);
@@ -200,12 +244,599 @@ export class WorldViewComponent implements OnInit, OnDestroy {
       }
     });
     const selectionSub = this.engineService.onObjectSelected$.subscribe(uuid => this.handleSelectionChange(uuid));
+    const multiSelectionSub = this.engineService.onSelectionChanged$.subscribe(uuids => this.handleMultiSelectionChange(uuids));
+    const historySub = this.commandHistory.stateApplied$.subscribe(applied => this.handleHistoryApplied(applied));
+    const gameModeSub = this.gameStateService.getMode().subscribe(mode => this.handleGameModeChange(mode));
     this.subscriptions.add(transformSub);
     this.subscriptions.add(propertyUpdateSub);
     this.subscriptions.add(entitiesSub);
     this.subscriptions.add(brightnessSub);
     this.subscriptions.add(cameraModeSub);
     this.subscriptions.add(selectionSub);
+    this.subscriptions.add(multiSelectionSub);
+    this.subscriptions.add(historySub);
+    this.subscriptions.add(gameModeSub);
+  }
+
+  public toggleGameMode(): void {
+    this.gameStateService.setMode(this.isPlayMode ? GameMode.EDITOR : GameMode.PLAY);
+  }
+
+  /**
+   * ✨ NUEVO: Cambia entre editor y juego sin recargar: el motor se reconfigura solo (escucha `GameStateService`)
+   * y aquí se ajustan la URL, los paneles y, al entrar a jugar, la cámara de inicio.
+   */
+  private handleGameModeChange(mode: GameMode): void {
+    const isPlayMode = mode === GameMode.PLAY;
+    if (isPlayMode === this.isPlayMode) return;
+    this.isPlayMode = isPlayMode;
+
+    this.location.replaceState(`/admin/${isPlayMode ? 'play' : 'editor'}/${this.episodeId}`);
+    this.isAddObjectModalVisible = false;
+    this.isTrashVisible = false;
+    this.isTourMenuOpen = false;
+    if (isPlayMode) {
+      this.tourService.stop();
+      if (!this.isRenderingScene && !this.isLoadingData) this.startPlayerCamera();
+    }
+    this.cdr.detectChanges();
+  }
+
+  /**
+   * Cámara de la escena activa marcada como inicio del modo juego (`properties.isPlayerStart`).
+   */
+  private getPlayerStartCamera(sceneId: number | null): SceneObjectResponse | undefined {
+    if (sceneId === null) return undefined;
+    return this.getObjectsForScene(sceneId).find(o => o.type === 'camera' && o.properties?.['isPlayerStart']);
+  }
+
+  private startPlayerCamera(): void {
+    const playerCamera = this.getPlayerStartCamera(this.activeSceneId);
+    this.engineService.applyPlayerStart(playerCamera?.id.toString() ?? null, this.activeScene?.cameraStart ?? null);
+  }
+
+  /** Coloca la cámara al (re)cargar una escena: la del jugador en modo juego, el inicio guardado en el editor. */
+  private applySceneStartCamera(scene: SceneResponse): void {
+    if (this.isPlayMode) {
+      this.startPlayerCamera();
+    } else if (scene.cameraStart) {
+      this.engineService.applyCameraStart(scene.cameraStart);
+    }
+  }
+
+  public isPlayerStartCamera(object: SceneObjectResponse): boolean {
+    return !!object.properties?.['isPlayerStart'];
+  }
+
+  /**
+   * ✨ NUEVO: Marca una cámara como punto de partida del modo juego en su escena (solo puede haber una).
+   */
+  public togglePlayerStartCamera(object: SceneObjectResponse): void {
+    if (!this.episodeId || object.type !== 'camera') return;
+    const episodeId = this.episodeId;
+    const sceneId = this.getSceneIdOf(object);
+    const enable = !this.isPlayerStartCamera(object);
+    const changed = this.sceneObjects.filter(o => o.type === 'camera' && this.getSceneIdOf(o) === sceneId
+      && (o.id === object.id ? enable !== this.isPlayerStartCamera(o) : enable && this.isPlayerStartCamera(o)));
+
+    forkJoin(changed.map(camera => {
+      const properties = { ...camera.properties, isPlayerStart: camera.id === object.id && enable };
+      return this.sceneObjectService.updateSceneObject(episodeId, camera.id, { properties }).pipe(map(() => ({ id: camera.id, properties })));
+    })).subscribe({
+      next: updates => {
+        updates.forEach(({ id, properties }) => {
+          const index = this.sceneObjects.findIndex(o => o.id === id);
+          if (index !== -1) this.sceneObjects[index] = { ...this.sceneObjects[index], properties };
+          if (this.selectedObject?.id === id) this.selectedObject = { ...this.selectedObject, properties };
+        });
+        this.cdr.detectChanges();
+      },
+      error: err => {
+        console.error(`[WorldView] Error al marcar la cámara ${object.id} como inicio del modo juego:`, err);
+        alert('No se pudo guardar la cámara de inicio del modo juego.');
+      }
+    });
+  }
+
+  @HostListener('window:keydown', ['$event'])
+  public onEditorShortcut(event: KeyboardEvent): void {
+    if (this.isPlayMode || this.isTypingTarget(event)) return;
+
+    if (event.key === 'Delete') {
+      event.preventDefault();
+      this.deleteSelectedObjects();
+      return;
+    }
+    if (!(event.ctrlKey || event.metaKey)) return;
+
+    const key = event.key.toLowerCase();
+    if (key === 'd') {
+      event.preventDefault();
+      this.duplicateSelectedObjects();
+    } else if (key === 'z' && !event.shiftKey) {
+      event.preventDefault();
+      this.commandHistory.undo();
+    } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+      event.preventDefault();
+      this.commandHistory.redo();
+    }
+  }
+
+  private isTypingTarget(event: KeyboardEvent): boolean {
+    const target = event.target as HTMLElement | null;
+    return !!target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
+  }
+
+  /**
+   * ✨ NUEVO: Envía los objetos seleccionados a la papelera (borrado suave con estado 'destroyed').
+   * Es un paso del historial: Ctrl+Z los vuelve a traer.
+   */
+  public deleteSelectedObjects(): void {
+    if (!this.episodeId) return;
+    const episodeId = this.episodeId;
+    const targets = this.sceneObjects.filter(o => this.selectedEntityUuids.includes(o.id.toString()));
+    if (targets.length === 0) return;
+
+    const label = targets.length === 1 ? `"${targets[0].name}"` : `${targets.length} objetos`;
+    if (!confirm(`¿Enviar ${label} a la papelera?`)) return;
+
+    forkJoin(targets.map(o => this.sceneObjectService.deleteSceneObject(episodeId, o.id))).subscribe({
+      next: () => {
+        this.commandHistory.beginGroup('Enviar a la papelera');
+        targets.forEach(o => this.commandHistory.record(o.id, { status: 'active' }, { status: 'destroyed' }));
+        this.commandHistory.endGroup();
+        this.moveToTrash(targets);
+        this.cdr.detectChanges();
+      },
+      error: err => {
+        console.error('[WorldView] Error al enviar objetos a la papelera:', err);
+        alert('No se pudieron eliminar los objetos seleccionados.');
+      }
+    });
+  }
+
+  /**
+   * ✨ NUEVO: Duplica los objetos seleccionados (Ctrl+D), desplazando cada copia para que no se solape con el original.
+   */
+  public duplicateSelectedObjects(): void {
+    if (!this.episodeId) return;
+    const episodeId = this.episodeId;
+    const sources = this.sceneObjects.filter(o => this.selectedEntityUuids.includes(o.id.toString()));
+    if (sources.length === 0) return;
+
+    forkJoin(sources.map(source => this.sceneObjectService.createSceneObject(episodeId, this.buildDuplicatePayload(source)).pipe(
+      // El backend puede no devolver las relaciones; se heredan del original para poder renderizar la copia.
+      map(created => ({ ...created, asset: created.asset ?? source.asset, galaxyData: created.galaxyData ?? source.galaxyData }))
+    ))).subscribe({
+      next: duplicates => {
+        duplicates.forEach(d => this.engineService.addObjectToScene(d));
+        this.sceneObjects = [...this.sceneObjects, ...duplicates];
+        this.refreshObjectLists();
+        this.engineService.setSelectionByUuids(duplicates.map(d => d.id.toString()));
+      },
+      error: err => {
+        console.error('[WorldView] Error al duplicar objetos:', err);
+        alert('No se pudieron duplicar los objetos seleccionados.');
+      }
+    });
+  }
+
+  private buildDuplicatePayload(source: SceneObjectResponse): Partial<SceneObjectResponse> {
+    const offset = Math.max(source.scale.x, source.scale.y, source.scale.z) * DUPLICATE_OFFSET_FACTOR;
+    return {
+      name: `${source.name} (copia)`,
+      sceneId: this.activeSceneId,
+      type: source.type,
+      status: 'active',
+      position: { ...source.position, x: source.position.x + offset },
+      rotation: { ...source.rotation },
+      scale: { ...source.scale },
+      properties: source.properties ? structuredClone(source.properties) : null,
+      assetId: source.assetId ?? source.asset?.id ?? null,
+      galaxyData: source.galaxyData ? { ...source.galaxyData } : null,
+    };
+  }
+
+  public restoreObject(object: SceneObjectResponse): void {
+    if (!this.episodeId) return;
+    this.sceneObjectService.restoreSceneObject(this.episodeId, object.id).subscribe({
+      next: updated => {
+        this.commandHistory.record(object.id, { status: 'destroyed' }, { status: 'active' }, 'Restaurar objeto');
+        this.restoreFromTrash({ ...object, ...updated, asset: updated.asset ?? object.asset, galaxyData: updated.galaxyData ?? object.galaxyData });
+        this.cdr.detectChanges();
+      },
+      error: err => {
+        console.error(`[WorldView] Error al restaurar el objeto ${object.id}:`, err);
+        alert(`No se pudo restaurar "${object.name}".`);
+      }
+    });
+  }
+
+  private moveToTrash(objects: SceneObjectResponse[]): void {
+    const uuids = objects.map(o => o.id.toString());
+    this.engineService.removeObjectsFromScene(uuids);
+    this.sceneObjects = this.sceneObjects.filter(o => !uuids.includes(o.id.toString()));
+    this.trashedObjects = [...this.trashedObjects, ...objects.map(o => ({ ...o, status: 'destroyed' as const }))];
+    this.refreshObjectLists();
+  }
+
+  private restoreFromTrash(object: SceneObjectResponse): void {
+    const restored: SceneObjectResponse = { ...object, status: 'active' };
+    if (this.getSceneIdOf(restored) === this.activeSceneId) this.engineService.addObjectToScene(restored);
+    this.sceneObjects = [...this.sceneObjects, restored];
+    this.trashedObjects = this.trashedObjects.filter(o => o.id !== object.id);
+    this.refreshObjectLists();
+  }
+
+  public toggleTrash(): void { this.isTrashVisible = !this.isTrashVisible; }
+
+  public onViewportDragOver(event: DragEvent): void {
+    if (this.isPlayMode || !event.dataTransfer?.types.includes(ASSET_DRAG_MIME)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+  }
+
+  /**
+   * ✨ NUEVO: Crea un objeto a partir del asset soltado en el visor, en el punto de la escena bajo el cursor.
+   */
+  public onViewportDrop(event: DragEvent): void {
+    const rawAsset = event.dataTransfer?.getData(ASSET_DRAG_MIME);
+    if (!rawAsset || !this.episodeId || this.isPlayMode) return;
+    event.preventDefault();
+
+    const asset = JSON.parse(rawAsset) as AssetResponse;
+    const type = ASSET_DROP_OBJECT_TYPES[asset.type];
+    if (!type) return;
+
+    const point = this.engineService.getWorldPointAt(event.clientX, event.clientY);
+    const payload: Partial<SceneObjectResponse> = {
+      name: asset.name,
+      type,
+      sceneId: this.activeSceneId,
+      status: 'active',
+      assetId: asset.id,
+      position: { x: point.x, y: point.y, z: point.z },
+      rotation: { x: 0, y: 0, z: 0 },
+      scale: type === 'floor' || type === 'video' ? { ...DROPPED_IMAGE_SCALE } : { x: 1, y: 1, z: 1 },
+      properties: null
+    };
+
+    this.sceneObjectService.createSceneObject(this.episodeId, payload).subscribe({
+      next: created => {
+        const newObject: SceneObjectResponse = { ...created, asset: created.asset ?? asset };
+        this.engineService.addObjectToScene(newObject);
+        this.sceneObjects = [...this.sceneObjects, newObject];
+        this.refreshObjectLists();
+        this.engineService.setSelectionByUuids([newObject.id.toString()]);
+      },
+      error: err => {
+        console.error(`[WorldView] Error al crear un objeto con el asset ${asset.id}:`, err);
+        alert(`No se pudo añadir "${asset.name}" a la escena.`);
+      }
+    });
+  }
+
+  public get activeScene(): SceneResponse | undefined {
+    return this.scenes.find(s => s.id === this.activeSceneId);
+  }
+
+  /**
+   * ✨ NUEVO: Cambia de escena y repuebla el motor solo con sus objetos, su entorno y su cámara inicial.
+   */
+  public selectScene(id: number): void {
+    if (this.activeSceneId === id || this.isRenderingScene) return;
+    const scene = this.scenes.find(s => s.id === id);
+    if (!scene) return;
+
+    this.activeSceneId = id;
+    this.activeSceneObjects = this.getObjectsForScene(id);
+    this.refreshObjectLists();
+    // El historial guarda cambios de objetos de la escena anterior, que ya no están en el motor.
+    this.commandHistory.clear();
+    this.isTrashVisible = false;
+    this.loadingProgress = 0;
+    this.isRenderingScene = true;
+    this.engineService.applySceneEnvironment(scene.environment);
+    this.engineService.populateScene(
+      this.activeSceneObjects,
+      progress => this.handleLoadingProgress(progress),
+      () => {
+        if (this.isPlayMode) {
+          this.startPlayerCamera();
+        } else {
+          this.engineService.applyCameraStart(scene.cameraStart);
+        }
+        this.loadingProgress = 100;
+        this.isRenderingScene = false;
+        this.cdr.detectChanges();
+      }
+    );
+  }
+
+  public addScene(): void {
+    if (!this.episodeId) return;
+    const payload: Partial<SceneResponse> = { name: `Escena ${this.scenes.length + 1}`, order: this.scenes.length, cameraStart: null, environment: null };
+    this.episodeSceneService.createScene(this.episodeId, payload).subscribe({
+      next: scene => {
+        this.scenes = [...this.scenes, scene];
+        this.selectScene(scene.id);
+      },
+      error: err => {
+        console.error('[WorldView] Error al crear la escena:', err);
+        alert('No se pudo crear la escena.');
+      }
+    });
+  }
+
+  public renameScene(scene: SceneResponse): void {
+    if (!this.episodeId || this.isPlayMode) return;
+    const name = prompt('Nuevo nombre de la escena:', scene.name)?.trim();
+    if (!name || name === scene.name) return;
+
+    this.episodeSceneService.updateScene(this.episodeId, scene.id, { name }).subscribe({
+      next: () => this.patchScene(scene.id, { name }),
+      error: err => {
+        console.error(`[WorldView] Error al renombrar la escena ${scene.id}:`, err);
+        alert('No se pudo renombrar la escena.');
+      }
+    });
+  }
+
+  public deleteScene(scene: SceneResponse, event: MouseEvent): void {
+    event.stopPropagation();
+    if (!this.episodeId) return;
+    if (this.scenes.length === 1) {
+      alert('Un episodio necesita al menos una escena.');
+      return;
+    }
+    const objectCount = this.getObjectsForScene(scene.id).length;
+    if (!confirm(`¿Eliminar la escena "${scene.name}" y sus ${objectCount} objetos? Esta acción no se puede deshacer.`)) return;
+
+    this.episodeSceneService.deleteScene(this.episodeId, scene.id).subscribe({
+      next: () => {
+        const belongsToScene = (o: SceneObjectResponse) => this.getSceneIdOf(o) === scene.id;
+        this.sceneObjects = this.sceneObjects.filter(o => !belongsToScene(o));
+        this.trashedObjects = this.trashedObjects.filter(o => !belongsToScene(o));
+        this.scenes = this.scenes.filter(s => s.id !== scene.id);
+        this.refreshObjectLists();
+        if (this.activeSceneId === scene.id) this.selectScene(this.scenes[0].id);
+        this.cdr.detectChanges();
+      },
+      error: err => {
+        console.error(`[WorldView] Error al eliminar la escena ${scene.id}:`, err);
+        alert('No se pudo eliminar la escena.');
+      }
+    });
+  }
+
+  public onSceneTabDrop(event: CdkDragDrop<SceneResponse[]>): void {
+    if (!this.episodeId || this.isPlayMode || event.previousIndex === event.currentIndex) return;
+    const previousOrder = [...this.scenes];
+    moveItemInArray(this.scenes, event.previousIndex, event.currentIndex);
+    this.scenes = this.scenes.map((scene, order) => ({ ...scene, order }));
+
+    this.episodeSceneService.reorderScenes(this.episodeId, this.scenes.map(s => s.id)).subscribe({
+      error: err => {
+        console.error('[WorldView] Error al reordenar las escenas:', err);
+        this.scenes = previousOrder;
+        alert('No se pudo guardar el nuevo orden de las escenas.');
+      }
+    });
+  }
+
+  /**
+   * ✨ NUEVO: Guarda la vista actual de la cámara como punto de partida de la escena activa.
+   */
+  public saveCameraStart(): void {
+    const scene = this.activeScene;
+    if (!this.episodeId || !scene) return;
+    const cameraStart = this.engineService.getCameraStart();
+    this.episodeSceneService.updateScene(this.episodeId, scene.id, { cameraStart }).subscribe({
+      next: () => this.patchScene(scene.id, { cameraStart }),
+      error: err => {
+        console.error(`[WorldView] Error al guardar la cámara inicial de la escena ${scene.id}:`, err);
+        alert('No se pudo guardar la vista inicial.');
+      }
+    });
+  }
+
+  public onSceneEnvironmentChange(environment: SceneEnvironmentSettings): void {
+    const scene = this.activeScene;
+    if (!this.episodeId || !scene) return;
+    this.engineService.applySceneEnvironment(environment);
+    this.patchScene(scene.id, { environment });
+    this.episodeSceneService.updateScene(this.episodeId, scene.id, { environment }).subscribe({
+      error: err => console.error(`[WorldView] Error al guardar el entorno de la escena ${scene.id}:`, err)
+    });
+  }
+
+  public onRenderSettingsChange(renderSettings: EpisodeRenderSettings): void {
+    if (!this.episodeId) return;
+    this.renderSettings = renderSettings;
+    this.engineService.applyRenderSettings(renderSettings);
+    this.adminService.updateEpisode(this.episodeId, { renderSettings }).subscribe({
+      error: err => console.error(`[WorldView] Error al guardar los ajustes de renderizado del episodio ${this.episodeId}:`, err)
+    });
+  }
+
+  private patchScene(sceneId: number, changes: Partial<SceneResponse>): void {
+    this.scenes = this.scenes.map(s => s.id === sceneId ? { ...s, ...changes } : s);
+    this.cdr.detectChanges();
+  }
+
+  /**
+   * ✨ NUEVO: Los objetos anteriores a las escenas (`sceneId` nulo) pasan a la escena más antigua y se guarda así,
+   * para que borrar esa escena también los borre en el backend en vez de reaparecer en otra al recargar.
+   * Es una sola petición para todo el episodio y, una vez guardada, ya no quedan objetos sin escena.
+   * En modo juego no se escribe nada: `getSceneIdOf` ya los reparte igual.
+   */
+  private adoptLegacyObjects(episodeId: number, objects: SceneObjectResponse[]): SceneObjectResponse[] {
+    const sceneId = this.getOldestSceneId();
+    if (this.isPlayMode || sceneId === null || !objects.some(o => o.sceneId == null)) return objects;
+
+    this.sceneObjectService.assignLegacyObjectsToScene(episodeId, sceneId).subscribe({
+      error: err => console.error('[WorldView] Error al asignar la escena principal a los objetos antiguos:', err)
+    });
+    return objects.map(o => o.sceneId == null ? { ...o, sceneId } : o);
+  }
+
+  /**
+   * Escena de un objeto. Los objetos creados antes de existir las escenas van a la más antigua.
+   */
+  private getSceneIdOf(object: SceneObjectResponse): number | null {
+    return object.sceneId ?? this.getOldestSceneId();
+  }
+
+  private getOldestSceneId(): number | null {
+    return this.scenes.length > 0 ? Math.min(...this.scenes.map(s => s.id)) : null;
+  }
+
+  /**
+   * ✨ NUEVO: Listas derivadas de los objetos que usa la plantilla. Se guardan en campos (no getters) para no crear
+   * un array nuevo en cada detección de cambios; hay que llamarla tras tocar objetos, papelera o escena activa.
+   */
+  private refreshObjectLists(): void {
+    this.episodeObjects = [...this.sceneObjects, ...this.trashedObjects];
+    this.activeTrashedObjects = this.trashedObjects.filter(o => this.getSceneIdOf(o) === this.activeSceneId);
+  }
+
+  private getObjectsForScene(sceneId: number): SceneObjectResponse[] {
+    return this.sceneObjects.filter(o => this.getSceneIdOf(o) === sceneId);
+  }
+
+  /**
+   * ✨ NUEVO: Exporta la escena a un archivo `.glb`. Opcionalmente incluye `properties` y `galaxyData` como extras de glTF.
+   */
+  public async exportSceneAsGlb(): Promise<void> {
+    if (this.isExportingGlb) return;
+    const includeExtras = confirm('¿Incluir las propiedades y los datos de galaxia de cada objeto como extras de glTF?');
+
+    this.isExportingGlb = true;
+    try {
+      const glb = await this.engineService.exportSceneToGlb(includeExtras ? this.sceneObjects : undefined);
+      const slug = this.episodeTitle.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '');
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(new Blob([glb], { type: 'model/gltf-binary' }));
+      link.download = `${slug || 'escena'}.glb`;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (err) {
+      console.error('[WorldView] Error al exportar la escena a GLB:', err);
+      alert('No se pudo exportar la escena a GLB.');
+    } finally {
+      this.isExportingGlb = false;
+      this.cdr.detectChanges();
+    }
+  }
+
+  public openScreenshotDialog(): void {
+    this.canvasViewSize = this.engineService.getCanvasSize();
+    this.isScreenshotDialogVisible = true;
+  }
+
+  public closeScreenshotDialog(): void {
+    this.isScreenshotDialogVisible = false;
+  }
+
+  /**
+   * ✨ NUEVO: Captura la vista con las opciones del diálogo y la descarga o la sube como miniatura del episodio.
+   */
+  public async captureScreenshot({ options, action }: ScreenshotRequest): Promise<void> {
+    if (this.isCapturingScreenshot || (action === 'thumbnail' && !this.episodeId)) return;
+    this.isCapturingScreenshot = true;
+    this.cdr.detectChanges();
+
+    try {
+      const png = await this.engineService.captureScreenshot(options);
+      const slug = this.episodeTitle.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '');
+      const fileName = `${slug || 'escena'}-${options.width}x${options.height}.png`;
+      if (action === 'download') {
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(png);
+        link.download = fileName;
+        link.click();
+        URL.revokeObjectURL(link.href);
+        this.isCapturingScreenshot = false;
+        this.isScreenshotDialogVisible = false;
+        this.cdr.detectChanges();
+        return;
+      }
+      this.uploadThumbnail(png, fileName);
+    } catch (err) {
+      console.error('[WorldView] Error al capturar la vista:', err);
+      alert('No se pudo capturar la imagen.');
+      this.isCapturingScreenshot = false;
+      this.cdr.detectChanges();
+    }
+  }
+
+  private uploadThumbnail(png: Blob, fileName: string): void {
+    this.adminService.updateEpisodeThumbnail(this.episodeId!, png, fileName).subscribe({
+      next: episode => {
+        // Si el backend reutiliza la ruta, el parámetro evita que el navegador muestre la miniatura anterior.
+        const url = this.buildFullThumbnailUrl(episode.thumbnailUrl);
+        this.episodeThumbnailUrl = url ? `${url}?v=${Date.now()}` : null;
+        this.isThumbnailLoaded = true;
+        this.isCapturingScreenshot = false;
+        this.isScreenshotDialogVisible = false;
+        this.cdr.detectChanges();
+      },
+      error: err => {
+        console.error(`[WorldView] Error al subir la miniatura del episodio ${this.episodeId}:`, err);
+        alert('No se pudo guardar la captura como miniatura del episodio.');
+        this.isCapturingScreenshot = false;
+        this.cdr.detectChanges();
+      }
+    });
+  }
+
+  public openRecordingDialog(): void {
+    this.canvasViewSize = this.engineService.getCanvasSize();
+    this.isRecordingSupported = this.engineService.isRecordingSupported();
+    this.isRecordingDialogVisible = true;
+  }
+
+  public closeRecordingDialog(): void {
+    this.isRecordingDialogVisible = false;
+  }
+
+  /**
+   * ✨ NUEVO: Graba la vista (o un recorrido de cámara) y descarga el vídeo al terminar o al detenerlo desde la barra.
+   */
+  public async startRecording({ options, path }: RecordingRequest): Promise<void> {
+    this.isRecordingDialogVisible = false;
+    this.cdr.detectChanges();
+    try {
+      const video = await this.engineService.startRecording(options, path ?? undefined);
+      const slug = this.episodeTitle.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '');
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(video);
+      link.download = `${slug || 'escena'}${path ? '-' + path.name.toLowerCase().replace(/[^a-z0-9]+/g, '-') : ''}.webm`;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (err) {
+      console.error('[WorldView] Error al grabar el vídeo:', err);
+      alert('No se pudo grabar el vídeo.');
+    }
+  }
+
+  private handleHistoryApplied({ objectId, state }: AppliedState): void {
+    // Deshacer o rehacer un borrado mueve el objeto entre la escena y la papelera.
+    const trashed = this.trashedObjects.find(o => o.id === objectId);
+    if (state.status === 'active' && trashed) this.restoreFromTrash(trashed);
+    const active = this.sceneObjects.find(o => o.id === objectId);
+    if (state.status === 'destroyed' && active) this.moveToTrash([active]);
+
+    const index = this.sceneObjects.findIndex(o => o.id === objectId);
+    if (index !== -1) {
+      this.sceneObjects[index] = { ...this.sceneObjects[index], ...state };
+      this.refreshObjectLists();
+    }
+    if (this.selectedObject?.id === objectId) {
+      this.selectedObject = { ...this.selectedObject, ...state };
+      this.editableDescription = this.selectedObject.properties?.['description'] || '';
+    }
+    this.cdr.detectChanges();
   }
 
   private handleSelectionChange(uuid: string | null): void {
@@ -225,15 +856,37 @@ export class WorldViewComponent implements OnInit, OnDestroy {
       this.editableDescription = '';
       this.selectPropertiesTab('scene');
     }
-    this.selectedEntityUuid$.next(this.selectedEntityUuid);
     this.cdr.detectChanges();
   }
+
+  /**
+   * ✨ NUEVO: Sincroniza la selección múltiple. La lista solo se colapsa al objeto seleccionado
+   * cuando hay uno solo y no se está construyendo una selección con Shift/Ctrl.
+   */
+  private handleMultiSelectionChange(uuids: string[]): void {
+    this.selectedEntityUuids = uuids;
+    if (uuids.length > 1) this.keepListExpanded = true;
+    if (uuids.length === 0) this.keepListExpanded = false;
+    this.selectedEntityUuid$.next(this.isListCollapsed ? this.selectedEntityUuid : null);
+    this.cdr.detectChanges();
+  }
+
+  public get isListCollapsed(): boolean {
+    return this.selectedEntityUuids.length === 1 && !this.keepListExpanded;
+  }
+
+  public isEntitySelected(entity: SceneEntity): boolean {
+    return this.selectedEntityUuids.includes(entity.uuid);
+  }
   
   public onDescriptionChange(): void {
     if (!this.selectedObject) return;
     const currentDescription = this.selectedObject.properties?.['description'] || '';
     if (currentDescription === this.editableDescription) return;
 
+    const newProperties = { ...this.selectedObject.properties, description: this.editableDescription };
+    this.commandHistory.record(this.selectedObject.id, { properties: this.selectedObject.properties }, { properties: newProperties }, 'Editar descripción');
+
     this.propertyUpdate$.next({
       path: 'properties.description',
       value: this.editableDescription
@@ -261,16 +914,47 @@ export class WorldViewComponent implements OnInit, OnDestroy {
 
   public handleObjectUpdate(update: PropertyUpdate): void {
     if (!this.selectedObject) return;
+    this.commandHistory.record(
+      this.selectedObject.id,
+      { [update.path]: this.selectedObject[update.path] } as ObjectState,
+      { [update.path]: update.value } as ObjectState,
+      this.getUpdateLabel(update)
+    );
     if (['position', 'rotation', 'scale'].includes(update.path)) {
       this.engineService.updateObjectTransform(this.selectedObject.id.toString(), update.path as any, update.value as any);
     } else if (update.path === 'name') {
       this.engineService.updateObjectName(this.selectedObject.id.toString(), update.value as string);
+    } else if (update.path === 'properties') {
+      this.engineService.updateObjectProperties(this.selectedObject.id.toString(), update.value);
     }
     this.updateLocalSelectedObject({ [update.path]: update.value });
     this.propertyUpdate$.next(update);
   }
 
+  private getUpdateLabel(update: PropertyUpdate): string {
+    if (update.path === 'name') return 'Renombrar objeto';
+    if (update.type === 'material') return 'Editar material';
+    if (update.type === 'light') return 'Editar luz';
+    if (update.type === 'video') return 'Editar vídeo';
+    if (update.type === 'sound') return 'Editar sonido';
+    if (update.type === 'physics') return 'Editar física';
+    return 'Editar transformación';
+  }
+
+  /**
+   * ✨ NUEVO: Vista previa del material mientras se arrastra un control; no entra en el historial ni se guarda.
+   */
+  public onMaterialPreview(update: MaterialUpdate): void {
+    if (!this.selectedObject) return;
+    this.engineService.updateObjectProperties(this.selectedObject.id.toString(), update.value);
+  }
+
   private handleTransformEnd(): void {
+    if (this.isPlayMode) return;
+    if (this.selectedEntityUuids.length > 1) {
+      this.persistGroupTransform();
+      return;
+    }
     const transformedObject = this.engineService.getGizmoAttachedObject();
     if (!transformedObject || !this.selectedObject || !this.episodeId) return;
     
@@ -280,6 +964,8 @@ export class WorldViewComponent implements OnInit, OnDestroy {
       scale: { x: transformedObject.scale.x, y: transformedObject.scale.y, z: transformedObject.scale.z },
     };
 
+    const { position, rotation, scale } = this.selectedObject;
+    this.commandHistory.record(this.selectedObject.id, { position, rotation, scale }, dataToSave, 'Transformar objeto');
     this.updateLocalSelectedObject(dataToSave);
 
     this.sceneObjectService.updateSceneObject(this.episodeId, this.selectedObject.id, dataToSave).subscribe({
@@ -288,6 +974,34 @@ export class WorldViewComponent implements OnInit, OnDestroy {
     });
   }
   
+  /**
+   * ✨ NUEVO: Persiste la transformación de todos los miembros de la selección múltiple
+   * (incluidas las instancias celestiales) como un único paso de deshacer.
+   */
+  private persistGroupTransform(): void {
+    if (!this.episodeId) return;
+    const episodeId = this.episodeId;
+
+    this.commandHistory.beginGroup('Transformar selección');
+    this.engineService.getGroupTransforms().forEach(({ uuid, position, rotation, scale }) => {
+      const index = this.sceneObjects.findIndex(o => o.id.toString() === uuid);
+      if (index === -1) return;
+      const sceneObject = this.sceneObjects[index];
+      const before: ObjectState = { position: sceneObject.position, rotation: sceneObject.rotation, scale: sceneObject.scale };
+      const dataToSave: ObjectState = { position, rotation, scale };
+      if (JSON.stringify(before) === JSON.stringify(dataToSave)) return;
+
+      this.commandHistory.record(sceneObject.id, before, dataToSave);
+      this.sceneObjects[index] = { ...sceneObject, ...dataToSave };
+      if (this.selectedObject?.id === sceneObject.id) this.updateLocalSelectedObject(dataToSave);
+
+      this.sceneObjectService.updateSceneObject(episodeId, sceneObject.id, dataToSave).subscribe({
+        error: err => console.error(`[WorldView] Error al guardar la transformación del objeto ${sceneObject.id}:`, err)
+      });
+    });
+    this.commandHistory.endGroup();
+  }
+
   private processEntities(all: SceneEntity[], filter: string): EntityGroup[] {
     const term = filter.trim().toLowerCase();
     const filtered = term ? all.filter(e => e.name.toLowerCase().includes(term)) : all;
@@ -319,11 +1033,31 @@ export class WorldViewComponent implements OnInit, OnDestroy {
 
   loadEpisodeData(id: number): void {
     this.isLoadingData = true;
-    this.adminService.getEpisodeForEditor(id).subscribe({
-      next: (res) => {
+    forkJoin({
+      res: this.adminService.getEpisodeForEditor(id),
+      scenes: this.episodeSceneService.getScenes(id)
+    }).pipe(
+      // Los episodios anteriores a las escenas no tienen ninguna: se crea la principal (en modo juego, solo en memoria).
+      switchMap(({ res, scenes }) => {
+        if (scenes.length > 0) return of({ res, scenes });
+        const mainScene: Partial<SceneResponse> = { name: 'Escena Principal', order: 0, cameraStart: null, environment: null };
+        return this.isPlayMode
+          ? of({ res, scenes: [{ ...mainScene, id: 0, episodeId: id } as SceneResponse] })
+          : this.episodeSceneService.createScene(id, mainScene).pipe(map(scene => ({ res, scenes: [scene] })));
+      })
+    ).subscribe({
+      next: ({ res, scenes }) => {
         this.episodeTitle = res.episode.title;
+        this.renderSettings = res.episode.renderSettings ?? null;
+        this.engineService.applyRenderSettings(this.renderSettings);
         this.episodeThumbnailUrl = this.buildFullThumbnailUrl(res.episode.thumbnailUrl);
-        this.sceneObjects = res.sceneObjects || [];
+        this.scenes = [...scenes].sort((a, b) => a.order - b.order);
+        const allObjects = this.adoptLegacyObjects(id, res.sceneObjects || []);
+        this.sceneObjects = allObjects.filter(o => o.status !== 'destroyed');
+        this.trashedObjects = allObjects.filter(o => o.status === 'destroyed');
+        this.activeSceneId = this.scenes[0].id;
+        this.activeSceneObjects = this.getObjectsForScene(this.activeSceneId);
+        this.refreshObjectLists();
         this.isLoadingData = false;
         this.isRenderingScene = true;
         if (this.episodeThumbnailUrl) {
@@ -334,13 +1068,40 @@ export class WorldViewComponent implements OnInit, OnDestroy {
         } else {
           this.isThumbnailAssetLoaded = true;
         }
-        if (!this.sceneObjects.some(o => o.asset?.path)) { this.isSceneAssetsLoaded = true; }
+        if (!this.activeSceneObjects.some(o => o.asset?.path)) { this.isSceneAssetsLoaded = true; }
         this.checkAndFinalizeLoading();
       },
       error: (err) => { this.errorMessage = "Error al cargar datos."; this.isLoadingData = false; console.error(err); }
     });
   }
 
+  /**
+   * Los recorridos no bloquean la carga del editor: si fallan, el episodio se abre sin ellos.
+   */
+  private loadCameraPaths(id: number): void {
+    this.cameraPathService.getCameraPaths(id).subscribe({
+      next: paths => { this.cameraPaths = paths; this.cdr.detectChanges(); },
+      error: err => console.warn('[WorldView] No se pudieron cargar los recorridos de cámara:', err)
+    });
+  }
+
+  public onCameraPathsChange(paths: CameraPathResponse[]): void {
+    this.cameraPaths = paths;
+  }
+
+  public playCameraPath(path: CameraPathResponse): void {
+    if (this.playingCameraPathId === path.id) {
+      this.engineService.stopCameraPath();
+      return;
+    }
+    this.deselectObject();
+    this.playingCameraPathId = path.id;
+    this.engineService.playCameraPath(path, () => {
+      if (this.playingCameraPathId === path.id) this.playingCameraPathId = null;
+      this.cdr.detectChanges();
+    });
+  }
+
   private checkAndFinalizeLoading(): void {
     if (this.isSceneAssetsLoaded && this.isThumbnailAssetLoaded) {
       this.loadingProgress = 100;
@@ -354,25 +1115,33 @@ export class WorldViewComponent implements OnInit, OnDestroy {
   }
 
   private checkAndStartTour(): void {
-    if (!localStorage.getItem('hasSeenTour')) {
-      setTimeout(() => {
-        this.startTour();
-        localStorage.setItem('hasSeenTour', 'true');
-      }, 500);
-    }
+    // La guía explica el editor; no se muestra a quien solo está jugando.
+    if (this.isPlayMode) return;
+    setTimeout(() => this.tourService.startPendingTour(), 500);
   }
 
-  public handleSceneAssetsLoaded(): void { this.isSceneAssetsLoaded = true; this.checkAndFinalizeLoading(); }
+  public handleSceneAssetsLoaded(): void {
+    this.isSceneAssetsLoaded = true;
+    const scene = this.activeScene;
+    this.engineService.applySceneEnvironment(scene?.environment ?? null);
+    if (scene) this.applySceneStartCamera(scene);
+    this.checkAndFinalizeLoading();
+  }
   public handleLoadingProgress(progress: number): void { this.loadingProgress = Math.min(progress, 99); this.cdr.detectChanges(); }
   onMaximizeToggle(): void { if (!this.layoutState.isMaximized) { this.layoutState.isMaximized = true; } else { this.layoutState = {...this.layoutState, sceneListVisible: true, propertiesVisible: true, imageVisible: true, assetsVisible: true, performanceVisible: true, descriptionVisible: true}; setTimeout(() => { this.layoutState.isMaximized = false; this.cdr.detectChanges(); }, 10); } }
   togglePanel(panel: keyof Omit<typeof this.layoutState, 'isMaximized'>): void { this.layoutState[panel] = !this.layoutState[panel]; if (this.layoutState[panel] && this.layoutState.isMaximized) { this.layoutState.isMaximized = false; } }
   public onFocusObject(): void { if (this.selectedEntityUuid) { this.engineService.focusOnObject(this.selectedEntityUuid); } }
   openImageModal(): void { if (this.episodeThumbnailUrl) { this.isImageModalVisible = true; } }
   closeImageModal(): void { this.isImageModalVisible = false; }
-  selectScene(id: number): void { if (this.activeSceneId === id) return; this.activeSceneId = id; this.sceneTabs.forEach(t => t.isActive = t.id === id); }
-  addScene(): void { const newScene = { id: this.nextSceneId, name: `Escena ${this.nextSceneId}`, isActive: false }; this.sceneTabs.push(newScene); this.nextSceneId++; this.selectScene(newScene.id); }
   private buildFullThumbnailUrl(path: string | null): string | null { if (!path) return null; const endpoint = environment.endpoint.endsWith('/') ? environment.endpoint.slice(0, -1) : environment.endpoint; return `${endpoint}${path.startsWith('/') ? '' : '/'}${path}`; }
-  public onEntitySelect(entity: SceneEntity): void { if (entity.uuid.startsWith('placeholder-')) { this.isAddObjectModalVisible = true; this.engineService.setActiveSelectionByUuid(null); return; } const newUuid = this.selectedEntityUuid === entity.uuid ? null : entity.uuid; this.engineService.setActiveSelectionByUuid(newUuid); }
+  public onEntitySelect(entity: SceneEntity, event?: MouseEvent): void {
+    if (entity.uuid.startsWith('placeholder-')) { this.isAddObjectModalVisible = true; this.engineService.setActiveSelectionByUuid(null); return; }
+    // Shift/Ctrl/Cmd + clic añade o quita el objeto de la selección sin colapsar la lista.
+    this.keepListExpanded = !!event && (event.shiftKey || event.ctrlKey || event.metaKey);
+    if (this.keepListExpanded) { this.engineService.toggleSelectionByUuid(entity.uuid); return; }
+    const isOnlySelected = this.selectedEntityUuids.length === 1 && this.selectedEntityUuids[0] === entity.uuid;
+    this.engineService.setActiveSelectionByUuid(isOnlySelected ? null : entity.uuid);
+  }
   public deselectObject(): void { this.engineService.setActiveSelectionByUuid(null); }
   public onTravelSpeedChange(event: Event): void { const slider = event.target as HTMLInputElement; const rawValue = parseFloat(slider.value); this.cameraTravelSpeedMultiplier = rawValue; this.engineService.setTravelSpeedMultiplier(Math.pow(rawValue, 6)); }
   public onGroupBrightnessChange(group: EntityGroup, event: Event): void { const brightness = parseFloat((event.target as HTMLInputElement).value); this.groupBrightnessState.set(group.type, brightness); this.brightnessUpdate$.next({ groupType: group.type, brightness }); }
@@ -383,12 +1152,54 @@ export class WorldViewComponent implements OnInit, OnDestroy {
   trackByGroupType(i: number, g: EntityGroup): string { return g.type; }
   public onSearchChange(term: string): void { this.groupDisplayCountState.clear(); this.searchFilter$.next(term); }
   trackByEntity(i: number, e: SceneEntity): string { return e.uuid; }
-  createSceneObject(data: NewSceneObjectData): void { if (!this.episodeId) return; this.sceneObjectService.createSceneObject(this.episodeId, data).subscribe({ next: newObj => { this.closeAddObjectModal(); this.engineService.addObjectToScene(newObj); this.sceneObjects = [...this.sceneObjects, newObj]; }, error: err => console.error(err) }); }
-  updateLocalSelectedObject(data: Partial<SceneObjectResponse>): void { if (!this.selectedObject) return; this.selectedObject = { ...this.selectedObject, ...data }; const index = this.sceneObjects.findIndex(o => o.id === this.selectedObject!.id); if (index !== -1) { this.sceneObjects[index] = { ...this.sceneObjects[index], ...data }; } this.cdr.detectChanges(); }
+  createSceneObject(data: NewSceneObjectData): void { if (!this.episodeId) return; this.sceneObjectService.createSceneObject(this.episodeId, { ...data, sceneId: this.activeSceneId }).subscribe({ next: newObj => { this.closeAddObjectModal(); this.engineService.addObjectToScene(newObj); this.sceneObjects = [...this.sceneObjects, newObj]; this.refreshObjectLists(); }, error: err => console.error(err) }); }
+  updateLocalSelectedObject(data: Partial<SceneObjectResponse>): void { if (!this.selectedObject) return; this.selectedObject = { ...this.selectedObject, ...data }; const index = this.sceneObjects.findIndex(o => o.id === this.selectedObject!.id); if (index !== -1) { this.sceneObjects[index] = { ...this.sceneObjects[index], ...data }; this.refreshObjectLists(); } this.cdr.detectChanges(); }
   getColorClassForEntity(entity: SceneEntity): string { return this.typeColorMap[entity.type] || this.typeColorMap['default']; }
   selectPropertiesTab(tab: string): void { this.activePropertiesTab = tab; }
   closeAddObjectModal(): void { this.isAddObjectModalVisible = false; }
-  public startTour(): void { this.tourService.start(); }
-  private setupTour(): void { const steps: TourStep[] = [ { step: 1, targetId: 'tour-target-viewport', title: '¡Bienvenido al Editor!', content: 'Este es el <b>Viewport 3D</b>, tu ventana al universo que estás creando.', position: 'center' }, { step: 2, targetId: 'tour-target-toolbar', title: 'Barra de Herramientas', content: 'Accede a las herramientas de <b>mover (W)</b>, <b>rotar (E)</b> y <b>escalar (R)</b>.', position: 'bottom' }, { step: 3, targetId: 'tour-target-scene-list', title: 'Panel de Objetos', content: 'Aquí se listan todos los objetos de tu escena.', position: 'right' }, { step: 4, targetId: 'tour-target-properties', title: 'Panel de Propiedades', content: 'Cuando seleccionas un objeto, sus propiedades aparecen aquí.', position: 'right' }, { step: 5, targetId: 'tour-target-description', title: 'Información del Objeto', content: 'Aquí verás los detalles y metadatos del objeto seleccionado.', position: 'top' }, { step: 6, targetId: 'tour-target-viewport', title: '¡Listo para Crear!', content: 'Explora y construye. Reinicia esta guía desde el botón <b>?</b>.', position: 'center' } ]; this.tourService.initialize(steps); }
+  /**
+   * ✨ NUEVO: Abre o cierra el menú de guías del botón "?", cargando los tours la primera vez.
+   */
+  public toggleTourMenu(): void {
+    this.isTourMenuOpen = !this.isTourMenuOpen;
+    if (this.isTourMenuOpen) {
+      this.tourService.loadTours().subscribe(tours => {
+        this.availableTours = tours;
+        this.cdr.detectChanges();
+      });
+    }
+  }
+
+  @HostListener('document:click', ['$event'])
+  public onDocumentClick(event: MouseEvent): void {
+    if (this.isTourMenuOpen && !(event.target as HTMLElement | null)?.closest('.tour-menu')) {
+      this.isTourMenuOpen = false;
+    }
+  }
+
+  public startTour(tour: TourDefinition): void {
+    this.isTourMenuOpen = false;
+    this.tourService.start(tour);
+  }
+
+  public isTourCompleted(tour: TourDefinition): boolean {
+    return this.tourService.isCompleted(tour);
+  }
+
+  /**
+   * Los pasos de los tours vienen de `assets/tours`; aquí solo se registran las acciones
+   * que pueden esperar (`waitFor`) y las que preparan la interfaz (`beforeShow`).
+   * Los observables de estado saltan su valor actual para reaccionar solo al cambio.
+   */
+  private setupTour(): void {
+    this.tourService.registerTrigger('objectSelected', this.engineService.onObjectSelected$.pipe(filter(uuid => !!uuid)));
+    this.tourService.registerTrigger('orthographicView', this.engineService.cameraMode$.pipe(skip(1), filter(mode => mode === 'orthographic')));
+    this.tourService.registerTrigger('perspectiveView', this.engineService.cameraMode$.pipe(skip(1), filter(mode => mode === 'perspective')));
+    this.tourService.registerTrigger('flyMode', this.engineService.isFlyModeActive$.pipe(skip(1), filter(isActive => isActive)));
+    this.tourService.registerAction('restoreLayout', () => {
+      this.layoutState = { isMaximized: false, sceneListVisible: true, propertiesVisible: true, imageVisible: true, assetsVisible: true, performanceVisible: true, descriptionVisible: true };
+      this.cdr.detectChanges();
+    });
+  }
   private setupTourElementHighlighting(): void { const sub = this.tourService.currentStep$.pipe(startWith(null), pairwise()).subscribe(([prev, curr]) => { if (prev?.targetId) { const el = document.getElementById(prev.targetId); if (el) this.renderer.removeClass(el, 'tour-active-element'); } if (curr?.targetId) { const el = document.getElementById(curr.targetId); if (el) this.renderer.addClass(el, 'tour-active-element'); } }); this.subscriptions.add(sub); }
 }
\ No newline at end of file
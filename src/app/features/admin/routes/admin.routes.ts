@@ -1,5 +1,6 @@
 import { Routes } from '@angular/router';
 import { RoleGuard } from '../../../core/guard/autorization.guard';
+import { GameMode } from '../components/world-editor/service/game-state/game-state.service';
 
 export const adminRouter: Routes = [
 
@@ -24,11 +25,14 @@ export const adminRouter: Routes = [
             },
             {
                 path: 'editor/:id',
-                loadComponent: () => import('../components/world-view/world-view.component').then(m => m.WorldViewComponent)
+                loadComponent: () => import('../components/world-view/world-view.component').then(m => m.WorldViewComponent),
+                data: { gameMode: GameMode.EDITOR }
             },
             {
+                // ✨ Misma vista, pero arranca en modo juego (solo exploración, sin edición ni guardado).
                 path: 'play/:id',
-                loadComponent: () => import('../components/world-view/world-view.component').then(m => m.WorldViewComponent)
+                loadComponent: () => import('../components/world-view/world-view.component').then(m => m.WorldViewComponent),
+                data: { gameMode: GameMode.PLAY }
             },
             {
                 path: '',
@@ -29,7 +29,8 @@ export interface AssetResponse {
   id: number;
   name: string;
   // 🔧 MODIFICADO: Se añade 'texture_wmts' al tipo.
-  type: 'model_glb' | 'video_mp4' | 'texture_png' | 'texture_jpg' | 'sound_mp3' | 'texture_wmts';
+  // ✨ NUEVO: 'texture_hdr' y 'texture_exr' son panorámicas HDR para el cielo y la iluminación del entorno.
+  type: 'model_glb' | 'video_mp4' | 'texture_png' | 'texture_jpg' | 'texture_hdr' | 'texture_exr' | 'sound_mp3' | 'texture_wmts';
   path: string; // Para WMTS, esta será la plantilla de URL procesada.
   // ✨ NUEVO: Especifica el origen del asset.
   sourceType: 'LOCAL' | 'REMOTE_WMTS';
@@ -41,7 +42,7 @@ export type SceneObjectStatus = 'active' | 'inactive' | 'destroyed';
 
 export type SceneObjectType =
   | 'model' | 'cube' | 'sphere' | 'floor' | 'video' | 'sound' | 'camera'
-  | 'ambientLight' | 'directionalLight' | 'pointLight' | 'cone' | 'torus'
+  | 'ambientLight' | 'directionalLight' | 'pointLight' | 'spotLight' | 'hemisphereLight' | 'cone' | 'torus'
   | 'galaxy_normal' | 'galaxy_bright' | 'galaxy_medium' | 'galaxy_far';
 
 export interface GalaxyDataResponse {
@@ -58,6 +59,8 @@ export interface GalaxyDataResponse {
 export interface SceneObjectResponse {
   id: number;
   episodeId: number;
+  // ✨ NUEVO: Escena del episodio a la que pertenece. Los objetos antiguos (sin escena) se asignan a la primera.
+  sceneId?: number | null;
   type: SceneObjectType;
   name: string;
   status: SceneObjectStatus;
@@ -76,6 +79,88 @@ export interface SceneObjectResponse {
   updatedAt?: string;
 }
 
+// --- ✨ NUEVAS INTERFACES PARA LAS ESCENAS DE UN EPISODIO ✨ ---
+export interface SceneCameraStart {
+  position: { x: number; y: number; z: number };
+  target: { x: number; y: number; z: number };
+}
+
+export interface SceneEnvironmentSettings {
+  /** Color de fondo en hex. `null` usa el cielo nocturno por defecto. */
+  backgroundColor: string | null;
+  ambientIntensity: number;
+  // ✨ NUEVO: Luces globales del editor. Opcionales: las escenas guardadas antes usan los valores por defecto.
+  ambientColor?: string;
+  directionalColor?: string;
+  directionalIntensity?: number;
+  directionalPosition?: { x: number; y: number; z: number };
+  directionalCastShadow?: boolean;
+  // ✨ NUEVO: Fondo con imagen (ruta de un asset de imagen, panorámica), cielo, niebla e iluminación del entorno (RoomEnvironment).
+  backgroundTexturePath?: string | null;
+  /**
+   * ✨ NUEVO: Cielo de seis caras (rutas de assets de imagen en el orden +X, -X, +Y, -Y, +Z, -Z).
+   * La imagen panorámica tiene prioridad si también está definida.
+   */
+  backgroundCubemapPaths?: string[] | null;
+  skyIntensity?: number;
+  /** Giro del cielo (o de la imagen de fondo) alrededor del eje Y, en grados. */
+  skyRotation?: number;
+  fogEnabled?: boolean;
+  fogColor?: string;
+  fogNear?: number;
+  fogFar?: number;
+  environmentIntensity?: number;
+}
+
+export type RenderToneMapping = 'none' | 'linear' | 'reinhard' | 'cineon' | 'aces' | 'agx' | 'neutral';
+
+/**
+ * @interface EpisodeRenderSettings
+ * @description ✨ NUEVO: Ajustes de renderizado del episodio (los comparten todas sus escenas).
+ */
+export interface EpisodeRenderSettings {
+  bloomStrength: number;
+  bloomRadius: number;
+  bloomThreshold: number;
+  toneMapping: RenderToneMapping;
+  exposure: number;
+  /** `null` usa la densidad de la pantalla, con un máximo de 1.5. */
+  pixelRatio: number | null;
+  selectionOutlineColor: string;
+  hoverOutlineColor: string;
+}
+
+export interface SceneResponse {
+  id: number;
+  episodeId: number;
+  name: string;
+  order: number;
+  cameraStart: SceneCameraStart | null;
+  environment: SceneEnvironmentSettings | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// --- ✨ NUEVAS INTERFACES PARA LOS RECORRIDOS DE CÁMARA ✨ ---
+export interface CameraPathKeyframe {
+  /** Segundos desde el inicio del recorrido. */
+  time: number;
+  position: { x: number; y: number; z: number };
+  target: { x: number; y: number; z: number };
+  fov: number;
+}
+
+export interface CameraPathResponse {
+  id: number;
+  episodeId: number;
+  name: string;
+  /** Nombre de una curva de gsap (ej. `power2.inOut`) aplicada a todo el recorrido. */
+  easing: string;
+  keyframes: CameraPathKeyframe[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
 export interface EpisodeResponse {
   id: number;
   title: string;
@@ -85,6 +170,8 @@ export interface EpisodeResponse {
   authorId: number;
   analysisState: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
   analysisType: AnalysisType;
+  /** ✨ NUEVO: `null` (o ausente en episodios antiguos) usa los ajustes por defecto. */
+  renderSettings?: EpisodeRenderSettings | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -125,4 +212,17 @@ export class AdminService {
   getEpisodeForEditor(id: number): Observable<PaginatedEpisodeResponse> {
     return this.http.get<PaginatedEpisodeResponse>(`${this.episodesUrl}/${id}`);
   }
+
+  updateEpisode(id: number, dataToUpdate: Partial<EpisodeResponse>): Observable<EpisodeResponse> {
+    return this.http.put<EpisodeResponse>(`${this.episodesUrl}/${id}`, dataToUpdate);
+  }
+
+  /**
+   * ✨ NUEVO: Sustituye la miniatura del episodio. El campo 'thumbnail' es el mismo que al crearlo (Multer).
+   */
+  updateEpisodeThumbnail(id: number, thumbnail: Blob, fileName: string): Observable<EpisodeResponse> {
+    const formData = new FormData();
+    formData.append('thumbnail', thumbnail, fileName);
+    return this.http.put<EpisodeResponse>(`${this.episodesUrl}/${id}/thumbnail`, formData);
+  }
 }
\ No newline at end of file
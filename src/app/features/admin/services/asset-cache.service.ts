@@ -1,10 +1,10 @@
 // src/app/features/admin/services/asset.service.ts
 
 import { Injectable } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
+import { HttpBackend, HttpClient, HttpEvent } from '@angular/common/http';
 import { Observable } from 'rxjs';
 import { environment } from '../../../../environments/environment';
-import { AssetResponse } from './admin.service';
+import { AssetResponse, WmtsMetadata } from './admin.service';
 // 🔧 MODIFICADO: Importamos la interfaz actualizada desde el servicio principal.
  
 /**
@@ -16,6 +16,30 @@ export interface CreateWmtsAssetPayload {
   wmtsEndpoint: string;
   layerId: string;
   bbox: string;
+  // ✨ NUEVO: Metadatos leídos del GetCapabilities (título, proyección, TileMatrixSet...).
+  metadata?: WmtsMetadata;
+}
+
+/**
+ * --- ✨ NUEVO: Tipos de asset que se pueden subir desde el editor, por extensión de archivo ✨ ---
+ */
+export const UPLOADABLE_ASSET_EXTENSIONS: Record<string, AssetResponse['type']> = {
+  glb: 'model_glb',
+  png: 'texture_png',
+  jpg: 'texture_jpg',
+  jpeg: 'texture_jpg',
+  hdr: 'texture_hdr',
+  exr: 'texture_exr',
+  mp4: 'video_mp4',
+  mp3: 'sound_mp3'
+};
+
+/**
+ * Devuelve el tipo de asset de un archivo según su extensión, o `null` si no se admite.
+ */
+export function getAssetTypeForFile(file: File): AssetResponse['type'] | null {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return UPLOADABLE_ASSET_EXTENSIONS[extension] ?? null;
 }
 
 @Injectable({
@@ -25,7 +49,12 @@ export class AssetService {
   private baseUrl = environment.endpoint.endsWith('/') ? environment.endpoint.slice(0, -1) : environment.endpoint;
   private assetsUrl = `${this.baseUrl}/api/assets`;
 
-  constructor(private http: HttpClient) { }
+  // ✨ NUEVO: Cliente sin interceptores para servidores externos, para no enviarles el token de la sesión.
+  private externalHttp: HttpClient;
+
+  constructor(private http: HttpClient, httpBackend: HttpBackend) {
+    this.externalHttp = new HttpClient(httpBackend);
+  }
 
   /**
    * Obtiene todos los assets disponibles desde el backend.
@@ -46,7 +75,35 @@ export class AssetService {
     return this.http.post<AssetResponse>(url, payload);
   }
 
-  // Aquí podrías añadir en el futuro otros métodos como:
-  // uploadAsset(file: File): Observable<AssetResponse>
-  // deleteAsset(assetId: number): Observable<void>
+  /**
+   * --- ✨ NUEVO: Descarga un documento GetCapabilities de WMTS como texto ✨ ---
+   * El análisis se hace en el cliente con `parseWmtsCapabilities`. La petición va directa al servidor WMTS,
+   * que debe permitir CORS.
+   * @param url URL completa del documento, normalmente construida con `buildGetCapabilitiesUrl`.
+   */
+  getWmtsCapabilities(url: string): Observable<string> {
+    return this.externalHttp.get(url, { responseType: 'text' });
+  }
+
+  /**
+   * --- ✨ NUEVO: Sube un archivo como asset ✨ ---
+   * Emite los eventos HTTP para poder mostrar el progreso; el último es la respuesta con el asset creado.
+   * @param file Archivo GLB, PNG, JPG, MP4 o MP3.
+   * @param type Tipo de asset, normalmente obtenido con `getAssetTypeForFile`.
+   */
+  uploadAsset(file: File, type: AssetResponse['type']): Observable<HttpEvent<AssetResponse>> {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('name', file.name.replace(/\.[^.]+$/, ''));
+    formData.append('type', type);
+    return this.http.post<AssetResponse>(this.assetsUrl, formData, { reportProgress: true, observe: 'events' });
+  }
+
+  /**
+   * --- ✨ NUEVO: Elimina un asset ✨ ---
+   * El backend responde 409 si otros episodios siguen usando el asset.
+   */
+  deleteAsset(assetId: number): Observable<void> {
+    return this.http.delete<void>(`${this.assetsUrl}/${assetId}`);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,44 @@
+// src/app/features/admin/services/camera-path.service.ts
+
+import { HttpClient } from '@angular/common/http';
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { environment } from '../../../../environments/environment';
+import { CameraPathResponse } from './admin.service';
+
+/**
+ * CRUD de los recorridos de cámara de un episodio (keyframes de posición, objetivo y FOV).
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CameraPathService {
+  private baseUrl = environment.endpoint.endsWith('/')
+    ? environment.endpoint.slice(0, -1)
+    : environment.endpoint;
+
+  constructor(private http: HttpClient) {}
+
+  private getPathsUrl(episodeId: number): string {
+    return `${this.baseUrl}/api/episodes/${episodeId}/camera-paths`;
+  }
+
+  getCameraPaths(episodeId: number): Observable<CameraPathResponse[]> {
+    return this.http.get<CameraPathResponse[]>(this.getPathsUrl(episodeId));
+  }
+
+  createCameraPath(episodeId: number, pathData: Partial<CameraPathResponse>): Observable<CameraPathResponse> {
+    console.log(`[CameraPathService] Creando recorrido en episodio ${episodeId}`, pathData);
+    return this.http.post<CameraPathResponse>(this.getPathsUrl(episodeId), pathData);
+  }
+
+  updateCameraPath(episodeId: number, pathId: number, dataToUpdate: Partial<CameraPathResponse>): Observable<CameraPathResponse> {
+    console.log(`[CameraPathService] Actualizando recorrido ${pathId} con:`, dataToUpdate);
+    return this.http.put<CameraPathResponse>(`${this.getPathsUrl(episodeId)}/${pathId}`, dataToUpdate);
+  }
+
+  deleteCameraPath(episodeId: number, pathId: number): Observable<void> {
+    console.log(`[CameraPathService] Eliminando recorrido ${pathId}`);
+    return this.http.delete<void>(`${this.getPathsUrl(episodeId)}/${pathId}`);
+  }
+}
@@ -0,0 +1,350 @@
+// src/app/features/admin/services/episode-bundle.service.ts
+
+import { HttpClient } from '@angular/common/http';
+import { Injectable } from '@angular/core';
+import { forkJoin, from, Observable, of } from 'rxjs';
+import { catchError, concatMap, map, switchMap, toArray } from 'rxjs/operators';
+import { environment } from '../../../../environments/environment';
+import { AdminService, AssetResponse, CameraPathResponse, EpisodeRenderSettings, EpisodeResponse, SceneObjectResponse, SceneResponse } from './admin.service';
+import { AssetService } from './asset-cache.service';
+import { CameraPathService } from './camera-path.service';
+import { EpisodeSceneService } from './episode-scene.service';
+import { SceneObjectService } from './scene-object.service';
+
+/**
+ * Versión actual del formato del paquete. Se incrementa cada vez que cambia la estructura
+ * de `EpisodeBundle` de forma incompatible.
+ */
+export const EPISODE_BUNDLE_SCHEMA_VERSION = 4;
+
+/**
+ * @interface EpisodeBundle
+ * @description Paquete portable de un episodio: datos del episodio, todos sus objetos
+ * (incluidos `galaxyData` y `properties`) y los metadatos de los assets referenciados.
+ */
+export interface EpisodeBundle {
+  schemaVersion: number;
+  exportedAt: string;
+  sourceEndpoint: string;
+  episode: EpisodeResponse;
+  /** Portada del episodio como data URL, para poder recrearlo en otro entorno. */
+  thumbnailDataUrl: string | null;
+  sceneObjects: SceneObjectResponse[];
+  assets: AssetResponse[];
+  /** Escenas del episodio (desde la versión 2). */
+  scenes: SceneResponse[];
+  /** Recorridos de cámara del episodio (desde la versión 3). */
+  cameraPaths: CameraPathResponse[];
+  /** Ajustes de renderizado del episodio; `null` usa los de por defecto (desde la versión 4). */
+  renderSettings: EpisodeRenderSettings | null;
+}
+
+/**
+ * @interface EpisodeImportResult
+ * @description Resultado de una importación, con la correspondencia entre ids antiguos y nuevos.
+ */
+export interface EpisodeImportResult {
+  episode: EpisodeResponse;
+  objectIdMap: Map<number, number>;
+  assetIdMap: Map<number, number>;
+  sceneIdMap: Map<number, number>;
+  warnings: string[];
+}
+
+/** Objeto JSON con `schemaVersion`: lo mínimo para saber si el archivo es un paquete. */
+type VersionedJson = Record<string, unknown> & { schemaVersion: number };
+
+function isVersionedJson(data: unknown): data is VersionedJson {
+  return typeof data === 'object' && data !== null && typeof (data as Record<string, unknown>)['schemaVersion'] === 'number';
+}
+
+/** El paquete trae el episodio y sus objetos; las escenas, si vienen, son una lista. */
+function hasBundleContent(data: VersionedJson): data is VersionedJson & Partial<EpisodeBundle> & Pick<EpisodeBundle, 'episode' | 'sceneObjects'> {
+  return typeof data['episode'] === 'object' && data['episode'] !== null
+    && Array.isArray(data['sceneObjects'])
+    && (data['scenes'] === undefined || Array.isArray(data['scenes']))
+    && (data['cameraPaths'] === undefined || Array.isArray(data['cameraPaths']))
+    && (data['renderSettings'] === undefined || typeof data['renderSettings'] === 'object');
+}
+
+function isVector3(value: unknown): value is { x: number; y: number; z: number } {
+  if (typeof value !== 'object' || value === null) return false;
+  const v = value as Record<string, unknown>;
+  return ['x', 'y', 'z'].every(axis => typeof v[axis] === 'number' && Number.isFinite(v[axis]));
+}
+
+/** Comprueba que una entrada de `sceneObjects` tenga lo que el backend necesita para crear el objeto. */
+function isSceneObjectEntry(data: unknown): data is SceneObjectResponse {
+  if (typeof data !== 'object' || data === null) return false;
+  const o = data as Record<string, unknown>;
+  return typeof o['id'] === 'number'
+    && typeof o['name'] === 'string'
+    && typeof o['type'] === 'string'
+    && typeof o['status'] === 'string'
+    && isVector3(o['position']) && isVector3(o['rotation']) && isVector3(o['scale'])
+    && (o['properties'] == null || typeof o['properties'] === 'object')
+    && (o['sceneId'] == null || typeof o['sceneId'] === 'number')
+    && (o['assetId'] == null || typeof o['assetId'] === 'number');
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class EpisodeBundleService {
+  private baseUrl = environment.endpoint.endsWith('/') ? environment.endpoint.slice(0, -1) : environment.endpoint;
+
+  constructor(
+    private http: HttpClient,
+    private adminService: AdminService,
+    private sceneObjectService: SceneObjectService,
+    private episodeSceneService: EpisodeSceneService,
+    private assetService: AssetService,
+    private cameraPathService: CameraPathService
+  ) { }
+
+  /**
+   * Construye el paquete de un episodio a partir de los datos del editor.
+   */
+  exportEpisode(episodeId: number): Observable<EpisodeBundle> {
+    return forkJoin({
+      res: this.adminService.getEpisodeForEditor(episodeId),
+      scenes: this.episodeSceneService.getScenes(episodeId),
+      // Los recorridos no impiden exportar: si no se pueden leer, el paquete sale sin ellos.
+      cameraPaths: this.cameraPathService.getCameraPaths(episodeId).pipe(
+        catchError(err => {
+          console.warn(`[EpisodeBundle] No se pudieron leer los recorridos del episodio ${episodeId}:`, err);
+          return of([]);
+        })
+      )
+    }).pipe(
+      switchMap(({ res, scenes, cameraPaths }) => this.fetchThumbnailDataUrl(res.episode.thumbnailUrl).pipe(
+        map(thumbnailDataUrl => {
+          const sceneObjects = res.sceneObjects || [];
+          const assets = new Map<number, AssetResponse>();
+          sceneObjects.forEach(o => { if (o.asset) assets.set(o.asset.id, o.asset); });
+
+          return {
+            schemaVersion: EPISODE_BUNDLE_SCHEMA_VERSION,
+            exportedAt: new Date().toISOString(),
+            sourceEndpoint: this.baseUrl,
+            episode: res.episode,
+            thumbnailDataUrl,
+            sceneObjects,
+            assets: [...assets.values()],
+            scenes,
+            cameraPaths,
+            renderSettings: res.episode.renderSettings ?? null
+          };
+        })
+      ))
+    );
+  }
+
+  /**
+   * Descarga el paquete como un archivo `.json`.
+   */
+  downloadBundle(bundle: EpisodeBundle): void {
+    const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+    const slug = bundle.episode.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '');
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `episodio-${bundle.episode.id}-${slug || 'sin-titulo'}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  }
+
+  /**
+   * Lee y valida un archivo de paquete. Rechaza versiones de esquema desconocidas.
+   */
+  async parseBundle(file: File): Promise<EpisodeBundle> {
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      throw new Error('El archivo no es un JSON válido.');
+    }
+
+    if (!isVersionedJson(data)) {
+      throw new Error('El archivo no es un paquete de episodio (falta "schemaVersion").');
+    }
+    if (data.schemaVersion > EPISODE_BUNDLE_SCHEMA_VERSION) {
+      throw new Error(`El paquete usa la versión de esquema ${data.schemaVersion}, pero esta aplicación solo admite hasta la ${EPISODE_BUNDLE_SCHEMA_VERSION}. Actualiza la aplicación.`);
+    }
+    if (!hasBundleContent(data)) {
+      throw new Error('El paquete está incompleto: faltan el episodio o sus objetos.');
+    }
+    // Se valida cada objeto antes de importar nada, para no dejar un episodio a medias en el backend.
+    const invalidIndex = (data.sceneObjects as unknown[]).findIndex(entry => !isSceneObjectEntry(entry));
+    if (invalidIndex !== -1) {
+      throw new Error(`El paquete tiene un objeto no válido en la posición ${invalidIndex + 1}: faltan su nombre, tipo, estado o transformación.`);
+    }
+
+    // Los paquetes de la versión 1 no tienen escenas: sus objetos van a la escena principal del destino.
+    // Los anteriores a la 3 no tienen recorridos de cámara, y los anteriores a la 4, ajustes de renderizado.
+    return { assets: [], thumbnailDataUrl: null, scenes: [], cameraPaths: [], renderSettings: null, ...data } as EpisodeBundle;
+  }
+
+  /**
+   * Recrea el episodio, sus escenas, sus objetos y sus recorridos de cámara en el backend actual.
+   * Los assets se buscan en el destino por ruta y, si no, por nombre y tipo; los ids se remapean.
+   */
+  importBundle(bundle: EpisodeBundle): Observable<EpisodeImportResult> {
+    const warnings: string[] = [];
+
+    // Los assets se resuelven antes de crear el episodio, para no dejar episodios vacíos si falla la consulta.
+    return this.buildAssetIdMap(bundle.assets, warnings).pipe(
+      switchMap(assetIdMap => this.createEpisodeFromBundle(bundle, warnings).pipe(map(episode => ({ assetIdMap, episode })))),
+      switchMap(({ assetIdMap, episode }) => this.createScenesFromBundle(episode.id, bundle.scenes, warnings).pipe(
+        map(sceneIdMap => ({ assetIdMap, sceneIdMap, episode }))
+      )),
+      switchMap(({ assetIdMap, sceneIdMap, episode }) => {
+        const objectIdMap = new Map<number, number>();
+        if (bundle.sceneObjects.length === 0) {
+          return of({ episode, objectIdMap, assetIdMap, sceneIdMap, warnings });
+        }
+
+        return from(bundle.sceneObjects).pipe(
+          concatMap(source => this.sceneObjectService.createSceneObject(episode.id, this.toObjectPayload(source, assetIdMap, sceneIdMap)).pipe(
+            map(created => objectIdMap.set(source.id, created.id)),
+            catchError(err => {
+              console.error(`[EpisodeBundle] Error al importar el objeto '${source.name}':`, err);
+              warnings.push(`No se pudo importar el objeto "${source.name}".`);
+              return of(null);
+            })
+          )),
+          toArray(),
+          map(() => ({ episode, objectIdMap, assetIdMap, sceneIdMap, warnings }))
+        );
+      }),
+      switchMap(result => this.createCameraPathsFromBundle(result.episode.id, bundle.cameraPaths, warnings).pipe(map(() => result)))
+    );
+  }
+
+  private createEpisodeFromBundle(bundle: EpisodeBundle, warnings: string[]): Observable<EpisodeResponse> {
+    const thumbnail$: Observable<Blob | null> = bundle.thumbnailDataUrl
+      ? from(fetch(bundle.thumbnailDataUrl).then(r => r.blob()))
+      : of(null);
+
+    return thumbnail$.pipe(
+      switchMap(blob => {
+        const formData = new FormData();
+        formData.append('title', bundle.episode.title);
+        formData.append('description', bundle.episode.description ?? '');
+        formData.append('analysisType', bundle.episode.analysisType);
+        if (blob) {
+          const extension = blob.type.split('/')[1] || 'png';
+          formData.append('thumbnail', blob, `thumbnail.${extension}`);
+        }
+        return this.adminService.createEpisode(formData);
+      }),
+      map(response => response.episode),
+      // La creación solo admite los campos del formulario; los ajustes de renderizado se guardan después.
+      switchMap(episode => bundle.renderSettings
+        ? this.adminService.updateEpisode(episode.id, { renderSettings: bundle.renderSettings }).pipe(
+          catchError(err => {
+            console.error('[EpisodeBundle] Error al importar los ajustes de renderizado:', err);
+            warnings.push('No se pudieron importar los ajustes de renderizado; el episodio usa los de por defecto.');
+            return of(episode);
+          })
+        )
+        : of(episode))
+    );
+  }
+
+  private createScenesFromBundle(episodeId: number, scenes: SceneResponse[], warnings: string[]): Observable<Map<number, number>> {
+    const sceneIdMap = new Map<number, number>();
+    if (scenes.length === 0) return of(sceneIdMap);
+
+    return from([...scenes].sort((a, b) => a.order - b.order)).pipe(
+      concatMap(source => this.episodeSceneService.createScene(episodeId, {
+        name: source.name,
+        order: source.order,
+        cameraStart: source.cameraStart,
+        environment: source.environment
+      }).pipe(
+        map(created => sceneIdMap.set(source.id, created.id)),
+        catchError(err => {
+          console.error(`[EpisodeBundle] Error al importar la escena '${source.name}':`, err);
+          warnings.push(`No se pudo importar la escena "${source.name}"; sus objetos van a la escena principal.`);
+          return of(null);
+        })
+      )),
+      toArray(),
+      map(() => sceneIdMap)
+    );
+  }
+
+  private createCameraPathsFromBundle(episodeId: number, paths: CameraPathResponse[], warnings: string[]): Observable<void> {
+    if (paths.length === 0) return of(undefined);
+
+    return from(paths).pipe(
+      concatMap(source => this.cameraPathService.createCameraPath(episodeId, {
+        name: source.name,
+        easing: source.easing,
+        keyframes: source.keyframes
+      }).pipe(
+        catchError(err => {
+          console.error(`[EpisodeBundle] Error al importar el recorrido '${source.name}':`, err);
+          warnings.push(`No se pudo importar el recorrido de cámara "${source.name}".`);
+          return of(null);
+        })
+      )),
+      toArray(),
+      map(() => undefined)
+    );
+  }
+
+  private buildAssetIdMap(assets: AssetResponse[], warnings: string[]): Observable<Map<number, number>> {
+    if (assets.length === 0) return of(new Map<number, number>());
+
+    return this.assetService.getAssets().pipe(
+      map(available => {
+        const assetIdMap = new Map<number, number>();
+        assets.forEach(asset => {
+          const match = available.find(a => a.type === asset.type && a.path === asset.path)
+            ?? available.find(a => a.type === asset.type && a.name === asset.name);
+          if (match) {
+            assetIdMap.set(asset.id, match.id);
+          } else {
+            warnings.push(`El asset "${asset.name}" (${asset.type}) no existe en este servidor; los objetos que lo usan se importan sin asset.`);
+          }
+        });
+        return assetIdMap;
+      })
+    );
+  }
+
+  private toObjectPayload(source: SceneObjectResponse, assetIdMap: Map<number, number>, sceneIdMap: Map<number, number>): Partial<SceneObjectResponse> {
+    const originalAssetId = source.assetId ?? source.asset?.id ?? null;
+    return {
+      name: source.name,
+      sceneId: source.sceneId != null ? sceneIdMap.get(source.sceneId) ?? null : null,
+      type: source.type,
+      status: source.status,
+      position: source.position,
+      rotation: source.rotation,
+      scale: source.scale,
+      properties: source.properties,
+      galaxyData: source.galaxyData,
+      assetId: originalAssetId !== null ? assetIdMap.get(originalAssetId) ?? null : null
+    };
+  }
+
+  private fetchThumbnailDataUrl(thumbnailUrl: string | null): Observable<string | null> {
+    if (!thumbnailUrl) return of(null);
+    const url = `${this.baseUrl}${thumbnailUrl.startsWith('/') ? '' : '/'}${thumbnailUrl}`;
+
+    return this.http.get(url, { responseType: 'blob' }).pipe(
+      switchMap(blob => new Observable<string | null>(observer => {
+        const reader = new FileReader();
+        reader.onload = () => { observer.next(reader.result as string); observer.complete(); };
+        reader.onerror = () => { observer.next(null); observer.complete(); };
+        reader.readAsDataURL(blob);
+      })),
+      catchError(err => {
+        console.warn('[EpisodeBundle] No se pudo incluir la portada en el paquete:', err);
+        return of(null);
+      })
+    );
+  }
+}
@@ -0,0 +1,55 @@
+// src/app/features/admin/services/episode-scene.service.ts
+
+import { HttpClient } from '@angular/common/http';
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { environment } from '../../../../environments/environment';
+import { SceneResponse } from './admin.service';
+
+/**
+ * CRUD de las escenas de un episodio. Cada escena tiene su propio conjunto de objetos,
+ * su posición de cámara inicial y sus ajustes de entorno.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class EpisodeSceneService {
+  private baseUrl = environment.endpoint.endsWith('/')
+    ? environment.endpoint.slice(0, -1)
+    : environment.endpoint;
+
+  constructor(private http: HttpClient) {}
+
+  private getScenesUrl(episodeId: number): string {
+    return `${this.baseUrl}/api/episodes/${episodeId}/scenes`;
+  }
+
+  getScenes(episodeId: number): Observable<SceneResponse[]> {
+    return this.http.get<SceneResponse[]>(this.getScenesUrl(episodeId));
+  }
+
+  createScene(episodeId: number, sceneData: Partial<SceneResponse>): Observable<SceneResponse> {
+    console.log(`[EpisodeSceneService] Creando escena en episodio ${episodeId}`, sceneData);
+    return this.http.post<SceneResponse>(this.getScenesUrl(episodeId), sceneData);
+  }
+
+  updateScene(episodeId: number, sceneId: number, dataToUpdate: Partial<SceneResponse>): Observable<SceneResponse> {
+    console.log(`[EpisodeSceneService] Actualizando escena ${sceneId} con:`, dataToUpdate);
+    return this.http.put<SceneResponse>(`${this.getScenesUrl(episodeId)}/${sceneId}`, dataToUpdate);
+  }
+
+  /**
+   * Elimina la escena. El backend elimina también los objetos que contiene.
+   */
+  deleteScene(episodeId: number, sceneId: number): Observable<void> {
+    console.log(`[EpisodeSceneService] Eliminando escena ${sceneId}`);
+    return this.http.delete<void>(`${this.getScenesUrl(episodeId)}/${sceneId}`);
+  }
+
+  /**
+   * Guarda el nuevo orden de las pestañas. `sceneIds` va en el orden final.
+   */
+  reorderScenes(episodeId: number, sceneIds: number[]): Observable<SceneResponse[]> {
+    return this.http.put<SceneResponse[]>(`${this.getScenesUrl(episodeId)}/order`, { sceneIds });
+  }
+}
@@ -36,4 +36,27 @@ export class SceneObjectService {
     // Esto seguirá funcionando para actualizar campos como 'name', 'position', 'status', etc.
     return this.http.put<SceneObjectResponse>(updateUrl, dataToUpdate);
   }
+
+  /**
+   * ✨ NUEVO: Pasa a la escena indicada todos los objetos del episodio anteriores a las escenas (`sceneId` nulo),
+   * en una sola petición. Devuelve cuántos objetos se han movido.
+   */
+  assignLegacyObjectsToScene(episodeId: number, sceneId: number): Observable<{ updated: number }> {
+    console.log(`[SceneObjectService] Asignando la escena ${sceneId} a los objetos sin escena del episodio ${episodeId}`);
+    return this.http.put<{ updated: number }>(`${this.getObjectsUrl(episodeId)}/legacy-scene`, { sceneId });
+  }
+
+  /**
+   * ✨ NUEVO: Borrado suave. El objeto no se elimina del backend; pasa a estado 'destroyed'
+   * y puede restaurarse desde la papelera del editor.
+   */
+  deleteSceneObject(episodeId: number, objectId: number): Observable<SceneObjectResponse> {
+    console.log(`[SceneObjectService] Enviando objeto ${objectId} a la papelera`);
+    return this.http.put<SceneObjectResponse>(`${this.getObjectsUrl(episodeId)}/${objectId}`, { status: 'destroyed' });
+  }
+
+  restoreSceneObject(episodeId: number, objectId: number): Observable<SceneObjectResponse> {
+    console.log(`[SceneObjectService] Restaurando objeto ${objectId} desde la papelera`);
+    return this.http.put<SceneObjectResponse>(`${this.getObjectsUrl(episodeId)}/${objectId}`, { status: 'active' });
+  }
 }
\ No newline at end of file
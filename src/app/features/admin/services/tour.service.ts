@@ -1,6 +1,8 @@
 // src/app/admin/pages/world-editor/services/tour.service.ts
 import { Injectable } from '@angular/core';
-import { BehaviorSubject } from 'rxjs';
+import { HttpClient } from '@angular/common/http';
+import { BehaviorSubject, Observable, Subscription, forkJoin, of } from 'rxjs';
+import { catchError, map, shareReplay, switchMap, take } from 'rxjs/operators';
 
 export type TourStepPosition = 'top' | 'bottom' | 'left' | 'right' | 'center';
 
@@ -11,27 +13,104 @@ export interface TourStep {
   content: string;
   position: TourStepPosition;
   action?: () => void; // Acción a ejecutar ANTES de mostrar el paso (ej. abrir un panel)
+  /** ✨ NUEVO: Nombre de una acción registrada con `registerAction`, para pasos definidos en JSON. */
+  beforeShow?: string;
+  /** ✨ NUEVO: Nombre de un disparador registrado con `registerTrigger`. El paso avanza solo cuando el usuario lo cumple. */
+  waitFor?: string;
 }
 
+/**
+ * @interface TourDefinition
+ * @description Un tour tal y como se guarda en `assets/tours/<id>.json`.
+ * Subir `version` hace que el tour vuelva a mostrarse a quien ya lo había visto.
+ */
+export interface TourDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  version: number;
+  /** Si se lanza solo al abrir el editor mientras el usuario no lo haya visto. */
+  autoStart?: boolean;
+  steps: TourStep[];
+}
+
+/**
+ * @interface TourProgress
+ * @description Lo que se recuerda de cada tour por usuario: la versión vista y si se terminó o se cerró antes.
+ */
+export interface TourProgress {
+  version: number;
+  completed: boolean;
+  updatedAt: string;
+}
+
+const TOURS_BASE_URL = 'assets/tours';
+const PROGRESS_STORAGE_PREFIX = 'tourProgress:';
+/** Flag global de la versión anterior de la guía, que solo conocía el tour básico del editor. */
+const LEGACY_SEEN_KEY = 'hasSeenTour';
+const LEGACY_TOUR_ID = 'editor-basics';
+
 @Injectable({
   providedIn: 'root'
 })
 export class TourService {
   private tourSteps: TourStep[] = [];
-  
+  private activeTour: TourDefinition | null = null;
+  private tours$?: Observable<TourDefinition[]>;
+  private triggers = new Map<string, Observable<unknown>>();
+  private actions = new Map<string, () => void>();
+  private waitSubscription?: Subscription;
+
   private readonly isTourActive = new BehaviorSubject<boolean>(false);
   public isTourActive$ = this.isTourActive.asObservable();
 
   private readonly currentStep = new BehaviorSubject<TourStep | null>(null);
   public currentStep$ = this.currentStep.asObservable();
 
+  private readonly isWaitingForAction = new BehaviorSubject<boolean>(false);
+  public isWaitingForAction$ = this.isWaitingForAction.asObservable();
+
   private currentIndex = -1;
 
+  constructor(private http: HttpClient) {}
+
+  /**
+   * ✨ NUEVO: Carga los tours listados en `assets/tours/index.json`. Se piden una sola vez;
+   * un tour que no se pueda leer se descarta sin romper los demás.
+   */
+  public loadTours(): Observable<TourDefinition[]> {
+    if (!this.tours$) {
+      this.tours$ = this.http.get<string[]>(`${TOURS_BASE_URL}/index.json`).pipe(
+        switchMap(ids => ids.length === 0 ? of([]) : forkJoin(ids.map(id => this.loadTour(id)))),
+        map(tours => tours.filter((tour): tour is TourDefinition => tour !== null)),
+        catchError(err => {
+          console.error('[TourService] No se pudo cargar el índice de tours:', err);
+          return of([]);
+        }),
+        shareReplay(1)
+      );
+    }
+    return this.tours$;
+  }
+
+  private loadTour(id: string): Observable<TourDefinition | null> {
+    return this.http.get<TourDefinition>(`${TOURS_BASE_URL}/${id}.json`).pipe(
+      catchError(err => {
+        console.error(`[TourService] No se pudo cargar el tour '${id}':`, err);
+        return of(null);
+      })
+    );
+  }
+
   public initialize(steps: TourStep[]): void {
     this.tourSteps = steps.sort((a, b) => a.step - b.step);
   }
 
-  public start(): void {
+  public start(tour?: TourDefinition): void {
+    if (tour) {
+      this.activeTour = tour;
+      this.initialize([...tour.steps]);
+    }
     if (this.tourSteps.length === 0) {
       console.error("El tour no tiene pasos definidos.");
       return;
@@ -41,17 +120,21 @@ export class TourService {
   }
 
   public stop(): void {
-    this.isTourActive.next(false);
-    this.currentIndex = -1;
-    this.currentStep.next(null);
+    if (this.isTourActive.getValue()) this.saveProgress(false);
+    this.finishTour();
   }
 
   public next(): void {
-    if (this.currentIndex < this.tourSteps.length - 1) {
-      this.goToStep(this.currentIndex + 1);
-    } else {
-      this.stop();
-    }
+    if (this.isWaitingForAction.getValue()) return;
+    this.advance();
+  }
+
+  /**
+   * ✨ NUEVO: Avanza aunque el paso espere una acción, para no dejar atascado al usuario
+   * cuando no puede cumplirla (p. ej. seleccionar un objeto en una escena vacía).
+   */
+  public skip(): void {
+    this.advance();
   }
 
   public prev(): void {
@@ -60,7 +143,69 @@ export class TourService {
     }
   }
 
+  /**
+   * ✨ NUEVO: Registra la acción del usuario que un paso puede esperar (`waitFor`).
+   * El observable debe emitir cuando la acción ocurre, no el estado actual al suscribirse.
+   */
+  public registerTrigger(name: string, trigger$: Observable<unknown>): void {
+    this.triggers.set(name, trigger$);
+  }
+
+  /**
+   * ✨ NUEVO: Registra una acción que un paso en JSON puede pedir antes de mostrarse (`beforeShow`).
+   */
+  public registerAction(name: string, action: () => void): void {
+    this.actions.set(name, action);
+  }
+
+  /**
+   * ✨ NUEVO: Lanza el primer tour automático que el usuario actual aún no haya visto en su versión vigente.
+   */
+  public startPendingTour(): void {
+    this.loadTours().pipe(take(1)).subscribe(tours => {
+      const pending = tours.find(tour => tour.autoStart && !this.hasSeen(tour));
+      if (pending && !this.isTourActive.getValue()) this.start(pending);
+    });
+  }
+
+  public hasSeen(tour: TourDefinition): boolean {
+    const progress = this.getProgress(tour.id);
+    if (progress) return progress.version >= tour.version;
+    return tour.id === LEGACY_TOUR_ID && tour.version <= 1 && !!localStorage.getItem(LEGACY_SEEN_KEY);
+  }
+
+  public isCompleted(tour: TourDefinition): boolean {
+    const progress = this.getProgress(tour.id);
+    return !!progress && progress.completed && progress.version >= tour.version;
+  }
+
+  public getTotalSteps(): number {
+    return this.tourSteps.length;
+  }
+
+  public getCurrentIndex(): number {
+    return this.currentIndex;
+  }
+
+  private advance(): void {
+    if (this.currentIndex < this.tourSteps.length - 1) {
+      this.goToStep(this.currentIndex + 1);
+    } else {
+      this.saveProgress(true);
+      this.finishTour();
+    }
+  }
+
+  private finishTour(): void {
+    this.clearWait();
+    this.isTourActive.next(false);
+    this.currentIndex = -1;
+    this.currentStep.next(null);
+    this.activeTour = null;
+  }
+
   private goToStep(index: number): void {
+    this.clearWait();
     this.currentIndex = index;
     const step = this.tourSteps[this.currentIndex];
 
@@ -68,6 +213,12 @@ export class TourService {
     if (step.action) {
       step.action();
     }
+    if (step.beforeShow) {
+      const action = this.actions.get(step.beforeShow);
+      if (action) action();
+      else console.warn(`[TourService] La acción '${step.beforeShow}' no está registrada.`);
+    }
+    this.waitForTrigger(step);
 
     // Un pequeño delay para dar tiempo a la UI a reaccionar a la acción (ej. abrir un panel)
     setTimeout(() => {
@@ -75,11 +226,60 @@ export class TourService {
     }, 100); // 100ms es usualmente suficiente para que las animaciones de paneles comiencen
   }
 
-  public getTotalSteps(): number {
-    return this.tourSteps.length;
+  /**
+   * Si el paso espera una acción, bloquea "Siguiente" hasta que el disparador emita.
+   * Un disparador desconocido no bloquea el tour: el paso se comporta como uno normal.
+   */
+  private waitForTrigger(step: TourStep): void {
+    if (!step.waitFor) return;
+    const trigger$ = this.triggers.get(step.waitFor);
+    if (!trigger$) {
+      console.warn(`[TourService] El disparador '${step.waitFor}' no está registrado; el paso avanzará con "Siguiente".`);
+      return;
+    }
+    this.isWaitingForAction.next(true);
+    this.waitSubscription = trigger$.pipe(take(1)).subscribe(() => {
+      this.isWaitingForAction.next(false);
+      this.advance();
+    });
   }
 
-  public getCurrentIndex(): number {
-    return this.currentIndex;
+  private clearWait(): void {
+    this.waitSubscription?.unsubscribe();
+    this.waitSubscription = undefined;
+    if (this.isWaitingForAction.getValue()) this.isWaitingForAction.next(false);
+  }
+
+  /**
+   * El progreso se guarda por usuario (`userId` de la sesión) para que cada cuenta vea sus tours
+   * aunque compartan navegador. Terminar un tour no se degrada a "cerrado" si se vuelve a abrir y se cierra.
+   */
+  private saveProgress(completed: boolean): void {
+    if (!this.activeTour) return;
+    const all = this.readAllProgress();
+    const previous = all[this.activeTour.id];
+    const keepCompleted = !!previous && previous.completed && previous.version >= this.activeTour.version;
+    all[this.activeTour.id] = {
+      version: this.activeTour.version,
+      completed: completed || keepCompleted,
+      updatedAt: new Date().toISOString()
+    };
+    localStorage.setItem(this.getStorageKey(), JSON.stringify(all));
   }
-}
\ No newline at end of file
+
+  private getProgress(tourId: string): TourProgress | null {
+    return this.readAllProgress()[tourId] ?? null;
+  }
+
+  private readAllProgress(): Record<string, TourProgress> {
+    try {
+      return JSON.parse(localStorage.getItem(this.getStorageKey()) ?? '{}') ?? {};
+    } catch {
+      return {};
+    }
+  }
+
+  private getStorageKey(): string {
+    return `${PROGRESS_STORAGE_PREFIX}${localStorage.getItem('userId') ?? 'anonymous'}`;
+  }
+}
@@ -0,0 +1,89 @@
+import { WMTS_CAPABILITIES_FIXTURE } from './testing/wmts-capabilities.fixture';
+import {
+  buildGetCapabilitiesUrl,
+  buildWmtsPreviewTileUrl,
+  parseWmtsCapabilities,
+  toWmtsMetadata
+} from './wmts-capabilities.parser';
+
+describe('parseWmtsCapabilities', () => {
+  const capabilities = parseWmtsCapabilities(WMTS_CAPABILITIES_FIXTURE);
+  const blueMarble = capabilities.layers[0];
+  const coastlines = capabilities.layers[1];
+
+  it('should read the service title and every layer', () => {
+    expect(capabilities.serviceTitle).toBe('NASA Global Imagery Browse Services for EOSDIS');
+    expect(capabilities.layers.map(l => l.layerId)).toEqual(['BlueMarble_NextGeneration', 'Coastlines']);
+  });
+
+  it('should read title, abstract, bbox and formats of a layer', () => {
+    expect(blueMarble.title).toBe('Blue Marble: Next Generation');
+    expect(blueMarble.abstract).toBe('Mosaico mensual de la superficie terrestre sin nubes.');
+    expect(blueMarble.bbox).toBe('-180,-90,180,90');
+    expect(blueMarble.formats).toEqual(['image/jpeg']);
+    expect(coastlines.abstract).toBe('');
+  });
+
+  it('should normalize the projection of the first linked tile matrix set', () => {
+    expect(blueMarble.projection).toBe('EPSG:4326');
+    expect(coastlines.projection).toBe('EPSG:3857');
+  });
+
+  it('should list linked tile matrix sets and their matrices', () => {
+    expect(coastlines.tileMatrixSets).toEqual(['GoogleMapsCompatible_Level9', '500m']);
+    expect(capabilities.tileMatrixSets.find(s => s.identifier === '500m')?.tileMatrices).toEqual(['0', '1']);
+  });
+
+  it('should read the default style, dimensions and tile template', () => {
+    expect(blueMarble.defaultStyle).toBe('default');
+    expect(blueMarble.dimensionDefaults).toEqual({ Time: '2004-08-01' });
+    expect(blueMarble.resourceUrlTemplate).toContain('{TileMatrixSet}/{TileMatrix}/{TileRow}/{TileCol}.jpeg');
+    expect(coastlines.resourceUrlTemplate).toBeNull();
+    expect(capabilities.getTileKvpUrl).toBe('https://gibs.example.org/wmts/epsg4326/best/wmts.cgi?');
+  });
+
+  it('should build a REST preview tile URL filling every placeholder', () => {
+    expect(buildWmtsPreviewTileUrl(capabilities, blueMarble, '500m'))
+      .toBe('https://gibs.example.org/wmts/epsg4326/best/BlueMarble_NextGeneration/default/2004-08-01/500m/0/0/0.jpeg');
+  });
+
+  it('should fall back to a KVP GetTile URL when the layer has no template', () => {
+    const url = new URL(buildWmtsPreviewTileUrl(capabilities, coastlines, 'GoogleMapsCompatible_Level9')!);
+    expect(url.searchParams.get('REQUEST')).toBe('GetTile');
+    expect(url.searchParams.get('LAYER')).toBe('Coastlines');
+    expect(url.searchParams.get('TILEMATRIXSET')).toBe('GoogleMapsCompatible_Level9');
+    expect(url.searchParams.get('FORMAT')).toBe('image/png');
+  });
+
+  it('should return no preview for an unknown tile matrix set', () => {
+    expect(buildWmtsPreviewTileUrl(capabilities, blueMarble, 'missing')).toBeNull();
+  });
+
+  it('should map a layer to WmtsMetadata', () => {
+    expect(toWmtsMetadata(blueMarble, '500m')).toEqual({
+      layerId: 'BlueMarble_NextGeneration',
+      title: 'Blue Marble: Next Generation',
+      abstract: 'Mosaico mensual de la superficie terrestre sin nubes.',
+      bbox: '-180,-90,180,90',
+      projection: 'EPSG:4326',
+      tileMatrixSet: '500m'
+    });
+  });
+
+  it('should reject documents that are not WMTS capabilities', () => {
+    expect(() => parseWmtsCapabilities('<not xml')).toThrowError('El documento no es un XML válido.');
+    expect(() => parseWmtsCapabilities('<WMS_Capabilities version="1.3.0"/>')).toThrowError(/GetCapabilities de WMTS/);
+  });
+});
+
+describe('buildGetCapabilitiesUrl', () => {
+  it('should append the GetCapabilities request when missing', () => {
+    expect(buildGetCapabilitiesUrl('https://example.org/wmts')).toBe('https://example.org/wmts?SERVICE=WMTS&REQUEST=GetCapabilities');
+    expect(buildGetCapabilitiesUrl('https://example.org/wmts?key=1')).toBe('https://example.org/wmts?key=1&SERVICE=WMTS&REQUEST=GetCapabilities');
+  });
+
+  it('should keep URLs that already point to a capabilities document', () => {
+    expect(buildGetCapabilitiesUrl(' https://example.org/1.0.0/WMTSCapabilities.xml ')).toBe('https://example.org/1.0.0/WMTSCapabilities.xml');
+    expect(buildGetCapabilitiesUrl('https://example.org/wmts?request=GetCapabilities')).toBe('https://example.org/wmts?request=GetCapabilities');
+  });
+});
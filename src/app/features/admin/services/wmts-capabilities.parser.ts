@@ -0,0 +1,205 @@
+// src/app/features/admin/services/wmts-capabilities.parser.ts
+
+import { WmtsMetadata } from './admin.service';
+
+/**
+ * @interface WmtsTileMatrixSetInfo
+ * @description Un `TileMatrixSet` del documento, con los identificadores de sus niveles en orden.
+ */
+export interface WmtsTileMatrixSetInfo {
+  identifier: string;
+  supportedCRS: string;
+  tileMatrices: string[];
+}
+
+/**
+ * @interface WmtsCapabilitiesLayer
+ * @description Una capa del documento GetCapabilities, con lo necesario para crear un asset y previsualizarla.
+ */
+export interface WmtsCapabilitiesLayer {
+  layerId: string;
+  title: string;
+  abstract: string;
+  /** `minLon,minLat,maxLon,maxLat` del `WGS84BoundingBox`, como lo espera el backend. */
+  bbox: string;
+  /** CRS del primer `TileMatrixSet` enlazado, normalizado a `EPSG:xxxx` cuando es posible. */
+  projection: string;
+  tileMatrixSets: string[];
+  formats: string[];
+  defaultStyle: string;
+  /** Plantilla REST de teselas (`ResourceURL` de tipo `tile`), si el servicio la ofrece. */
+  resourceUrlTemplate: string | null;
+  /** Valor por defecto de cada dimensión (ej. `Time`), para rellenar la plantilla. */
+  dimensionDefaults: Record<string, string>;
+}
+
+export interface WmtsCapabilities {
+  serviceTitle: string;
+  /** URL base de `GetTile` por KVP, usada si la capa no tiene plantilla REST. */
+  getTileKvpUrl: string | null;
+  layers: WmtsCapabilitiesLayer[];
+  tileMatrixSets: WmtsTileMatrixSetInfo[];
+}
+
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+
+/**
+ * Analiza un documento GetCapabilities de WMTS 1.0.0 en el navegador.
+ * @throws Error si el texto no es XML o no es un documento de capacidades WMTS.
+ */
+export function parseWmtsCapabilities(xml: string): WmtsCapabilities {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('El documento no es un XML válido.');
+  }
+
+  const root = doc.documentElement;
+  if (root.localName !== 'Capabilities') {
+    throw new Error('El documento no es una respuesta GetCapabilities de WMTS.');
+  }
+
+  const contents = childElements(root, 'Contents')[0];
+  if (!contents) {
+    throw new Error('El documento no contiene capas (falta "Contents").');
+  }
+
+  const tileMatrixSets = childElements(contents, 'TileMatrixSet').map(set => ({
+    identifier: childText(set, 'Identifier'),
+    supportedCRS: childText(set, 'SupportedCRS'),
+    tileMatrices: childElements(set, 'TileMatrix').map(matrix => childText(matrix, 'Identifier'))
+  }));
+
+  const serviceIdentification = childElements(root, 'ServiceIdentification')[0];
+
+  return {
+    serviceTitle: serviceIdentification ? childText(serviceIdentification, 'Title') : '',
+    getTileKvpUrl: findGetTileKvpUrl(root),
+    layers: childElements(contents, 'Layer').map(layer => parseLayer(layer, tileMatrixSets)),
+    tileMatrixSets
+  };
+}
+
+/**
+ * Metadatos del asset (`WmtsMetadata`) para una capa y el `TileMatrixSet` elegido.
+ */
+export function toWmtsMetadata(layer: WmtsCapabilitiesLayer, tileMatrixSet: string): WmtsMetadata {
+  return {
+    layerId: layer.layerId,
+    title: layer.title,
+    abstract: layer.abstract,
+    bbox: layer.bbox,
+    projection: layer.projection,
+    tileMatrixSet
+  };
+}
+
+/**
+ * URL de la tesela 0/0 del nivel más bajo de la capa, para la vista previa.
+ */
+export function buildWmtsPreviewTileUrl(capabilities: WmtsCapabilities, layer: WmtsCapabilitiesLayer, tileMatrixSet: string): string | null {
+  const set = capabilities.tileMatrixSets.find(s => s.identifier === tileMatrixSet);
+  const tileMatrix = set?.tileMatrices[0];
+  if (!tileMatrix) return null;
+
+  if (layer.resourceUrlTemplate) {
+    const values: Record<string, string> = {
+      ...layer.dimensionDefaults,
+      Style: layer.defaultStyle,
+      TileMatrixSet: tileMatrixSet,
+      TileMatrix: tileMatrix,
+      TileRow: '0',
+      TileCol: '0'
+    };
+    return layer.resourceUrlTemplate.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+  }
+
+  if (!capabilities.getTileKvpUrl) return null;
+  const params = new URLSearchParams({
+    SERVICE: 'WMTS',
+    REQUEST: 'GetTile',
+    VERSION: '1.0.0',
+    LAYER: layer.layerId,
+    STYLE: layer.defaultStyle,
+    TILEMATRIXSET: tileMatrixSet,
+    TILEMATRIX: tileMatrix,
+    TILEROW: '0',
+    TILECOL: '0',
+    FORMAT: layer.formats[0] ?? 'image/png'
+  });
+  const base = capabilities.getTileKvpUrl;
+  const separator = base.includes('?') ? (base.endsWith('?') || base.endsWith('&') ? '' : '&') : '?';
+  return `${base}${separator}${params.toString()}`;
+}
+
+/**
+ * Completa una URL de servicio con `SERVICE=WMTS&REQUEST=GetCapabilities` si no apunta ya a un documento de capacidades.
+ */
+export function buildGetCapabilitiesUrl(endpoint: string): string {
+  const trimmed = endpoint.trim();
+  if (/request=getcapabilities/i.test(trimmed) || /\.xml(\?|$)/i.test(trimmed)) return trimmed;
+  const separator = trimmed.includes('?') ? '&' : '?';
+  return `${trimmed}${separator}SERVICE=WMTS&REQUEST=GetCapabilities`;
+}
+
+function parseLayer(layer: Element, tileMatrixSets: WmtsTileMatrixSetInfo[]): WmtsCapabilitiesLayer {
+  const linkedSets = childElements(layer, 'TileMatrixSetLink').map(link => childText(link, 'TileMatrixSet'));
+  const firstSet = tileMatrixSets.find(set => set.identifier === linkedSets[0]);
+  const formats = childElements(layer, 'Format').map(format => format.textContent?.trim() ?? '');
+  const styles = childElements(layer, 'Style');
+  const defaultStyle = styles.find(style => style.getAttribute('isDefault') === 'true') ?? styles[0];
+
+  const tileTemplates = childElements(layer, 'ResourceURL').filter(url => url.getAttribute('resourceType') === 'tile');
+  const preferredTemplate = tileTemplates.find(url => formats[0] && url.getAttribute('format') === formats[0]) ?? tileTemplates[0];
+
+  const dimensionDefaults: Record<string, string> = {};
+  childElements(layer, 'Dimension').forEach(dimension => {
+    dimensionDefaults[childText(dimension, 'Identifier')] = childText(dimension, 'Default');
+  });
+
+  return {
+    layerId: childText(layer, 'Identifier'),
+    title: childText(layer, 'Title'),
+    abstract: childText(layer, 'Abstract'),
+    bbox: parseBoundingBox(childElements(layer, 'WGS84BoundingBox')[0] ?? childElements(layer, 'BoundingBox')[0]),
+    projection: normalizeCrs(firstSet?.supportedCRS ?? ''),
+    tileMatrixSets: linkedSets,
+    formats,
+    defaultStyle: defaultStyle ? childText(defaultStyle, 'Identifier') : 'default',
+    resourceUrlTemplate: preferredTemplate?.getAttribute('template') ?? null,
+    dimensionDefaults
+  };
+}
+
+function parseBoundingBox(box: Element | undefined): string {
+  if (!box) return '-180,-90,180,90';
+  const lower = childText(box, 'LowerCorner').split(/\s+/);
+  const upper = childText(box, 'UpperCorner').split(/\s+/);
+  return [...lower, ...upper].join(',');
+}
+
+/**
+ * `urn:ogc:def:crs:EPSG::4326` o `urn:ogc:def:crs:EPSG:6.18:3:3857` → `EPSG:4326` / `EPSG:3857`.
+ */
+function normalizeCrs(crs: string): string {
+  const match = /EPSG:(?:[\d.]*:)*(\d+)$/i.exec(crs);
+  return match ? `EPSG:${match[1]}` : crs;
+}
+
+function findGetTileKvpUrl(root: Element): string | null {
+  const operationsMetadata = childElements(root, 'OperationsMetadata')[0];
+  const getTile = operationsMetadata && childElements(operationsMetadata, 'Operation').find(op => op.getAttribute('name') === 'GetTile');
+  if (!getTile) return null;
+
+  const gets = Array.from(getTile.getElementsByTagNameNS('*', 'Get'));
+  const kvpGet = gets.find(get => Array.from(get.getElementsByTagNameNS('*', 'Value')).some(v => v.textContent?.trim() === 'KVP')) ?? gets[0];
+  return kvpGet ? (kvpGet.getAttributeNS(XLINK_NS, 'href') ?? kvpGet.getAttribute('xlink:href')) : null;
+}
+
+/** Hijos directos con ese nombre local, sin importar el prefijo (`ows:`, `wmts:` o ninguno). */
+function childElements(parent: Element, localName: string): Element[] {
+  return Array.from(parent.children).filter(child => child.localName === localName);
+}
+
+function childText(parent: Element, localName: string): string {
+  return childElements(parent, localName)[0]?.textContent?.trim() ?? '';
+}